@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import Sidebar from './components/layout/Sidebar';
 import Header from './components/layout/Header';
 import PageWrapper from './components/layout/PageWrapper';
@@ -10,10 +10,21 @@ import { Page } from './types';
 import Dashboard from './components/Dashboard';
 import AreasCRUD from './components/AreasCRUD';
 import CalculationsCRUD from './components/CalculationsCRUD';
+import TariffRevision from './components/TariffRevision';
+import DiscountRulesCRUD from './components/DiscountRulesCRUD';
+import BrandsCRUD from './components/BrandsCRUD';
 import MemoCRUD from './components/InvoiceCRUD';
 import LookupCRUD from './components/LookupCRUD';
 import InvoiceCRUD from './components/LocationsCRUD'; // Repurposed for new Invoice CRUD
 import InvoiceForm from './components/forms/NewTripForm'; // Repurposed for new Invoice Form
+import AuditLog from './components/AuditLog';
+import RecycleBin from './components/RecycleBin';
+import Snapshots from './components/Snapshots';
+import NumberingSettings from './components/NumberingSettings';
+import { runScheduledSnapshot } from './services/api';
+
+// How often to check whether the daily snapshot is due.
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
 
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<Page>(Page.DASHBOARD);
@@ -22,6 +33,15 @@ const App: React.FC = () => {
   const [printOnLoad, setPrintOnLoad] = useState(false);
   const [printInvoiceOnLoad, setPrintInvoiceOnLoad] = useState(false);
 
+  useEffect(() => {
+    const checkSnapshot = () => {
+      runScheduledSnapshot().catch(error => console.error("Scheduled snapshot failed:", error));
+    };
+    checkSnapshot();
+    const timer = setInterval(checkSnapshot, SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   const handleNavigate = (page: Page) => {
     setEditingMemoNo(null);
     setEditingInvoiceId(null);
@@ -94,8 +114,22 @@ const App: React.FC = () => {
         return <AreasCRUD />;
       case Page.MANAGE_CALCULATIONS:
         return <CalculationsCRUD />;
+      case Page.TARIFF_REVISION:
+        return <TariffRevision />;
+      case Page.MANAGE_BRANDS:
+        return <BrandsCRUD />;
+      case Page.DISCOUNT_RULES:
+        return <DiscountRulesCRUD />;
       case Page.MANAGE_LOOKUP:
         return <LookupCRUD />;
+      case Page.AUDIT_LOG:
+        return <AuditLog />;
+      case Page.RECYCLE_BIN:
+        return <RecycleBin />;
+      case Page.SNAPSHOTS:
+        return <Snapshots />;
+      case Page.NUMBERING:
+        return <NumberingSettings />;
       default:
         return <Dashboard />;
     }
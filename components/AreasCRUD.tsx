@@ -1,14 +1,30 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { getAreas, addArea, updateArea, deleteArea } from '../services/googleScriptMock';
+import { getAreas, addArea, updateArea, deleteArea } from '../services/api';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useRevisionConflict } from '../hooks/useRevisionConflict';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Spinner from './ui/Spinner';
+import ConflictDialog from './ui/ConflictDialog';
 import Input from './ui/Input';
+import SpreadsheetImportWizard, { ImportField } from './SpreadsheetImportWizard';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
 import { LOCATION_CATEGORIES } from '../constants';
 import Select from './ui/Select';
 import { Area } from '../types';
 
+const importFields: ImportField[] = [
+    { field: 'locationArea', label: 'Location Area', required: true, aliases: ['area', 'location'] },
+    { field: 'locationCategory', label: 'Location Category', required: true, aliases: ['category', 'area category'] },
+];
+
+const exportColumns: ExportColumn<Area>[] = [
+    { header: 'Location Area', value: area => area.locationArea },
+    { header: 'Location Category', value: area => area.locationCategory },
+];
+
 const AreasCRUD: React.FC = () => {
     const [areas, setAreas] = useState<Area[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -18,7 +34,11 @@ const AreasCRUD: React.FC = () => {
 
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [currentRecord, setCurrentRecord] = useState<Partial<Area>>({});
+    const { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict } = useRevisionConflict<Partial<Area>>(
+        async record => (await getAreas()).find(r => r.id === record.id),
+    );
     const [recordToDelete, setRecordToDelete] = useState<Area | null>(null);
 
     const headers = ["Location Area", "Location Category"];
@@ -41,6 +61,8 @@ const AreasCRUD: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    useDataChanges(['areas'], fetchData);
+
     const filteredData = useMemo(() => {
         if (!searchTerm) {
             return areas;
@@ -50,6 +72,8 @@ const AreasCRUD: React.FC = () => {
         );
     }, [areas, searchTerm]);
 
+    const handleExport = (format: ExportFormat) => exportTable(format, 'Areas', exportColumns, filteredData);
+
     const handleOpenModal = (area: Area | null) => {
         if (area) {
             setCurrentRecord({ ...area });
@@ -64,29 +88,53 @@ const AreasCRUD: React.FC = () => {
         setCurrentRecord({});
     };
     
-    const handleSave = async () => {
+    const handleSave = async (record: Partial<Area> = currentRecord) => {
         if (isSubmitting) return;
-        if (!currentRecord.locationArea?.trim() || !currentRecord.locationCategory?.trim()) {
+        if (!record.locationArea?.trim() || !record.locationCategory?.trim()) {
             addToast("All fields must be filled.", "error");
             return;
         }
         setIsSubmitting(true);
+        let keepOpen = false;
         try {
-            if (currentRecord.id) {
-                await updateArea(currentRecord as Area);
+            if (record.id) {
+                await updateArea(record as Area);
                 addToast('Area updated successfully', 'success');
             } else {
-                await addArea(currentRecord as Omit<Area, 'id'>);
+                await addArea(record as Omit<Area, 'id'>);
                 addToast('Area added successfully', 'success');
             }
             await fetchData();
         } catch (error) {
-            addToast('Failed to save area', 'error');
-            console.error(error);
+            if (captureConflict(error, record)) {
+                keepOpen = true;
+            } else {
+                addToast('Failed to save area', 'error');
+                console.error(error);
+            }
         } finally {
             setIsSubmitting(false);
+            if (!keepOpen) handleCloseModal();
+        }
+    };
+
+    const handleReloadConflict = async () => {
+        const latest = await reloadLatest();
+        if (latest) {
+            setCurrentRecord({ ...latest });
+        } else {
+            addToast('This area has been deleted by someone else.', 'error');
             handleCloseModal();
         }
+        await fetchData();
+    };
+
+    const handleOverwriteConflict = async () => {
+        const record = await overwriteWithMine();
+        if (record) {
+            setCurrentRecord(record);
+            await handleSave(record);
+        }
     };
     
     const openDeleteConfirmation = (area: Area) => {
@@ -132,7 +180,11 @@ const AreasCRUD: React.FC = () => {
                     onChange={e => setSearchTerm(e.target.value)}
                     className="w-1/3"
                 />
-                <Button onClick={() => handleOpenModal(null)}>Add New Area</Button>
+                <div className="flex space-x-2">
+                    <ExportButtons onExport={handleExport} disabled={isLoading || filteredData.length === 0} />
+                    <Button onClick={() => setIsImportOpen(true)}>Import CSV/Excel</Button>
+                    <Button onClick={() => handleOpenModal(null)}>Add New Area</Button>
+                </div>
             </div>
             {isLoading ? (
                 <div className="flex justify-center items-center h-64"><Spinner /></div>
@@ -186,7 +238,7 @@ const AreasCRUD: React.FC = () => {
                         </div>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={handleCloseModal} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
-                            <Button onClick={handleSave} disabled={isSubmitting}>
+                            <Button onClick={() => handleSave()} disabled={isSubmitting}>
                                 {isSubmitting ? <Spinner /> : 'Save'}
                             </Button>
                         </div>
@@ -194,11 +246,20 @@ const AreasCRUD: React.FC = () => {
                 </div>
             )}
 
+            {conflict && (
+                <ConflictDialog
+                    message={conflict.message}
+                    onReload={handleReloadConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onCancel={dismissConflict}
+                />
+            )}
+
             {isDeleteConfirmOpen && (
                  <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
                     <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
                         <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
-                        <p>Are you sure you want to delete this area? This action cannot be undone.</p>
+                        <p>Are you sure you want to delete this area? It will be moved to the Recycle Bin, where it can be restored.</p>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={closeDeleteConfirmation} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
                             <Button onClick={handleDelete} disabled={isSubmitting} className="bg-red-600 hover:bg-red-700">
@@ -208,6 +269,16 @@ const AreasCRUD: React.FC = () => {
                     </div>
                 </div>
             )}
+
+            {isImportOpen && (
+                <SpreadsheetImportWizard
+                    entity="areas"
+                    title="Import Areas"
+                    fields={importFields}
+                    onClose={() => setIsImportOpen(false)}
+                    onImported={fetchData}
+                />
+            )}
         </Card>
     );
 };
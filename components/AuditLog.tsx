@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { queryAuditLog } from '../services/api';
+import { AuditEntry, AuditAction } from '../types';
+import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { diffRecords, formatFieldValue } from '../utils/diffRecords';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import Select from './ui/Select';
+
+const PAGE_SIZE = 50;
+
+const entityOptions = [
+    { value: '', label: 'All entities' },
+    { value: 'memos', label: 'Memos' },
+    { value: 'invoices', label: 'Invoices' },
+    { value: 'customers', label: 'Customers' },
+    { value: 'areas', label: 'Areas' },
+    { value: 'calculations', label: 'Calculations' },
+    { value: 'lookup', label: 'Lookup' },
+    { value: 'discountRules', label: 'Discount rules' },
+    { value: 'brands', label: 'Brands' },
+    { value: 'policyOverrides', label: 'Policy overrides' },
+    { value: 'database', label: 'Database' },
+];
+
+const getActionStyles = (action: AuditAction) => {
+    switch (action) {
+        case 'create': return 'bg-green-100 text-green-800';
+        case 'update': return 'bg-blue-100 text-blue-800';
+        case 'delete':
+        case 'purge': return 'bg-red-100 text-red-800';
+        case 'restore': return 'bg-purple-100 text-purple-800';
+        default: return 'bg-gray-100 text-gray-800';
+    }
+};
+
+const AuditDiff: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+    const changes = diffRecords(entry.before, entry.after);
+    const visibleChanges = entry.action === 'update' ? changes.filter(c => c.changed) : changes;
+
+    if (visibleChanges.length === 0) {
+        return <p className="text-sm text-gray-500 p-3">No field values changed.</p>;
+    }
+
+    return (
+        <table className="min-w-full text-xs bg-gray-50">
+            <thead>
+                <tr>
+                    <th className="px-3 py-1 text-left font-semibold text-gray-600">Field</th>
+                    <th className="px-3 py-1 text-left font-semibold text-gray-600">Before</th>
+                    <th className="px-3 py-1 text-left font-semibold text-gray-600">After</th>
+                </tr>
+            </thead>
+            <tbody>
+                {visibleChanges.map(change => (
+                    <tr key={change.field} className={change.changed ? 'bg-yellow-50' : ''}>
+                        <td className="px-3 py-1 font-medium">{change.field}</td>
+                        <td className="px-3 py-1 text-red-700 break-all">{formatFieldValue(change.before)}</td>
+                        <td className="px-3 py-1 text-green-700 break-all">{formatFieldValue(change.after)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const AuditLog: React.FC = () => {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [entity, setEntity] = useState('');
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const { addToast } = useToast();
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const page = await queryAuditLog({ entity: entity || undefined, limit: PAGE_SIZE });
+            setEntries(page.items);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            addToast('Failed to fetch the audit trail.', 'error');
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleLoadMore = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        setIsLoadingMore(true);
+        try {
+            const page = await queryAuditLog({ entity: entity || undefined, limit: PAGE_SIZE, cursor: nextCursor });
+            setEntries(prev => [...prev, ...page.items]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            addToast('Failed to load more audit entries.', 'error');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [entity]);
+
+    useDataChanges(entityOptions.map(option => option.value).filter(Boolean), fetchData);
+
+    const headers = ["When", "User", "Entity", "Key", "Action", ""];
+
+    return (
+        <Card title="Audit Trail">
+            <div className="flex justify-between items-end mb-4">
+                <div className="w-1/4">
+                    <Select
+                        id="auditEntity"
+                        label="Entity"
+                        value={entity}
+                        onChange={e => setEntity(e.target.value)}
+                        options={entityOptions}
+                    />
+                </div>
+                <p className="text-sm text-gray-500">Every create, update and delete is recorded here and cannot be edited.</p>
+            </div>
+            {isLoading ? (
+                <div className="flex justify-center items-center h-64"><Spinner /></div>
+            ) : (
+                <div className="overflow-x-auto max-h-[70vh]">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="bg-gray-200 sticky top-0">
+                            <tr>
+                                {headers.map((header, index) => (
+                                    <th key={index} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.length === 0 && (
+                                <tr><td colSpan={headers.length} className="p-4 text-center text-gray-500">No changes recorded yet.</td></tr>
+                            )}
+                            {entries.map(entry => (
+                                <React.Fragment key={entry.id}>
+                                    <tr className="border-b hover:bg-gray-50">
+                                        <td className="px-4 py-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString('en-IN')}</td>
+                                        <td className="px-4 py-2">{entry.user}</td>
+                                        <td className="px-4 py-2">{entry.entity}</td>
+                                        <td className="px-4 py-2 font-medium">{String(entry.key)}</td>
+                                        <td className="px-4 py-2">
+                                            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getActionStyles(entry.action)}`}>{entry.action}</span>
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <button
+                                                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id!)}
+                                                className="text-blue-600 hover:underline"
+                                            >
+                                                {expandedId === entry.id ? 'Hide changes' : 'Show changes'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                    {expandedId === entry.id && (
+                                        <tr className="border-b">
+                                            <td colSpan={headers.length} className="px-4 py-2">
+                                                <AuditDiff entry={entry} />
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                    {nextCursor && (
+                        <div className="flex justify-center py-4">
+                            <Button onClick={handleLoadMore} disabled={isLoadingMore}>
+                                {isLoadingMore ? <Spinner /> : 'Load More'}
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default AuditLog;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../utils/backupEncryption';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import Input from './ui/Input';
+
+interface BackupPassphraseDialogProps {
+    // 'save' asks whether to encrypt and for a new passphrase; 'load' asks for the
+    // passphrase of an encrypted file.
+    mode: 'save' | 'load';
+    fileName?: string;
+    // Receives the passphrase, or null to save unencrypted. Errors it throws are shown
+    // in the dialog so the passphrase can be corrected.
+    onSubmit: (passphrase: string | null) => Promise<void>;
+    onCancel: () => void;
+}
+
+const BackupPassphraseDialog: React.FC<BackupPassphraseDialogProps> = ({ mode, fileName, onSubmit, onCancel }) => {
+    const [encrypt, setEncrypt] = useState(true);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const usePassphrase = mode === 'load' || encrypt;
+
+    const handleSubmit = async () => {
+        if (usePassphrase && mode === 'save') {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+                setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+                return;
+            }
+            if (passphrase !== confirmation) {
+                setError('The passphrases do not match.');
+                return;
+            }
+        }
+        setError(null);
+        setIsWorking(true);
+        try {
+            await onSubmit(usePassphrase ? passphrase : null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center text-gray-800">
+            <form
+                className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md"
+                onSubmit={(e) => { e.preventDefault(); handleSubmit(); }}
+            >
+                <h3 className="text-lg font-bold mb-4">{mode === 'save' ? 'Save Database' : 'Encrypted Backup'}</h3>
+                {mode === 'load' && (
+                    <p className="text-sm text-gray-600 mb-4">{fileName} is encrypted. Enter its passphrase to continue.</p>
+                )}
+                {mode === 'save' && (
+                    <label className="flex items-center space-x-2 mb-4 cursor-pointer">
+                        <input type="checkbox" checked={encrypt} onChange={e => setEncrypt(e.target.checked)} />
+                        <span>Encrypt with a passphrase</span>
+                    </label>
+                )}
+                {usePassphrase && (
+                    <div className="space-y-4">
+                        <Input id="backupPassphrase" label="Passphrase" type="password" autoFocus value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+                        {mode === 'save' && (
+                            <Input id="backupPassphraseConfirm" label="Confirm Passphrase" type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} />
+                        )}
+                    </div>
+                )}
+                {mode === 'save' && usePassphrase && (
+                    <p className="text-sm text-gray-500 mt-3">The passphrase cannot be recovered. Without it the backup cannot be loaded.</p>
+                )}
+                {mode === 'save' && !usePassphrase && (
+                    <p className="text-sm text-red-600">Customer addresses, driver details and amounts will be readable by anyone with the file.</p>
+                )}
+                {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+                <div className="flex justify-end mt-6 space-x-3">
+                    <Button type="button" onClick={onCancel} disabled={isWorking}>Cancel</Button>
+                    <Button type="submit" disabled={isWorking}>
+                        {isWorking ? <Spinner /> : mode === 'save' ? 'Save' : 'Unlock'}
+                    </Button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default BackupPassphraseDialog;
@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from 'react';
+import {
+    getBrands, addBrand, updateBrand, deleteBrand,
+    getPolicyOverrides, addPolicyOverride, updatePolicyOverride, deletePolicyOverride,
+    getAreas,
+} from '../services/api';
+import { Area, Brand, PolicyOverride, PolicyOverrideKind } from '../types';
+import { VEHICLE_TYPES, LOCATION_CATEGORIES } from '../constants';
+import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useRevisionConflict } from '../hooks/useRevisionConflict';
+import { brandProblems, overrideApplies, policyOverrideProblems } from '../utils/servicesCatalog';
+import { displayRupees, formatRupees, parseRupees } from '../utils/money';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import ConflictDialog from './ui/ConflictDialog';
+import Input from './ui/Input';
+import Select from './ui/Select';
+
+const kindLabels: Record<PolicyOverrideKind, string> = {
+    'driver-bata-exempt': 'No driver bata',
+    'driver-bata-charged': 'Charge driver bata',
+    'surcharge': 'Surcharge on the minimum charges',
+};
+
+const kindOptions = (Object.keys(kindLabels) as PolicyOverrideKind[]).map(kind => ({ value: kind, label: kindLabels[kind] }));
+
+// The override as typed into the form: the amount in rupees.
+type OverrideDraft = Omit<PolicyOverride, 'amount'> & { amount: string };
+
+const overrideDraftOf = (override: PolicyOverride): OverrideDraft => ({
+    ...override,
+    amount: override.amount ? formatRupees(override.amount) : '',
+});
+
+// Conditions left blank are left off, so that they cover every area or vehicle type.
+const overrideOf = ({ amount, area, area_category, vehicle_type, note, ...draft }: OverrideDraft): PolicyOverride => {
+    const override: PolicyOverride = { ...draft };
+    if (area) override.area = area;
+    if (area_category) override.area_category = area_category;
+    if (vehicle_type) override.vehicle_type = vehicle_type;
+    if (note?.trim()) override.note = note.trim();
+    if (draft.kind === 'surcharge') override.amount = parseRupees(amount);
+    return override;
+};
+
+const BrandsCRUD: React.FC = () => {
+    const [brands, setBrands] = useState<Brand[]>([]);
+    const [overrides, setOverrides] = useState<PolicyOverride[]>([]);
+    const [areas, setAreas] = useState<Area[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { addToast } = useToast();
+
+    const [brandDraft, setBrandDraft] = useState<Brand | null>(null);
+    const [overrideDraft, setOverrideDraft] = useState<OverrideDraft | null>(null);
+    const [brandToDelete, setBrandToDelete] = useState<Brand | null>(null);
+    const [overrideToDelete, setOverrideToDelete] = useState<PolicyOverride | null>(null);
+
+    const brandConflict = useRevisionConflict<Brand>(async brand => (await getBrands()).find(b => b.id === brand.id));
+    const overrideConflict = useRevisionConflict<PolicyOverride>(async override => (await getPolicyOverrides()).find(o => o.id === override.id));
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const [brandsData, overridesData, areasData] = await Promise.all([getBrands(), getPolicyOverrides(), getAreas()]);
+            setBrands(brandsData);
+            setOverrides(overridesData);
+            setAreas(areasData);
+        } catch (error) {
+            addToast('Failed to fetch brands and policy overrides.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useDataChanges(['brands', 'policyOverrides', 'areas'], fetchData);
+
+    const brandName = (brandId: number) => brands.find(brand => brand.id === brandId)?.name || `Deleted brand #${brandId}`;
+
+    const describeScope = (override: PolicyOverride): string =>
+        [override.area, override.area_category, override.vehicle_type].filter(Boolean).join(', ') || 'Everywhere';
+
+    // How many area and vehicle type combinations the override reaches, whether or not
+    // the calculation table prices them.
+    const reach = (override: PolicyOverride): number => {
+        const brand = brands.find(b => b.id === override.brand_id);
+        if (!brand) return 0;
+        return areas.reduce((count, area) =>
+            count + VEHICLE_TYPES.filter(vehicleType => overrideApplies(override, brand, area, vehicleType)).length, 0);
+    };
+
+    const saveRecord = async <T extends { id?: number }>(
+        record: T,
+        problems: string[],
+        save: { add: (record: T) => Promise<number>; update: (record: T) => Promise<number> },
+        captureConflict: (error: unknown, record: T) => boolean,
+        noun: string,
+        close: () => void,
+    ) => {
+        if (isSubmitting) return;
+        if (problems.length > 0) {
+            addToast(problems.join(' '), 'error');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            if (record.id) {
+                await save.update(record);
+                addToast(`${noun} updated successfully`, 'success');
+            } else {
+                await save.add(record);
+                addToast(`${noun} added successfully`, 'success');
+            }
+            close();
+            await fetchData();
+        } catch (error) {
+            if (!captureConflict(error, record)) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to save ${noun.toLowerCase()}: ${errorMessage}`, 'error');
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSaveBrand = (brand: Brand | null = brandDraft) => brand && saveRecord<Brand>(
+        brand, brandProblems(brand, brands), { add: addBrand, update: updateBrand },
+        brandConflict.captureConflict, 'Brand', () => setBrandDraft(null),
+    );
+
+    const handleSaveOverride = (override: PolicyOverride | null = overrideDraft ? overrideOf(overrideDraft) : null) => override && saveRecord<PolicyOverride>(
+        override, policyOverrideProblems(override, brands), { add: addPolicyOverride, update: updatePolicyOverride },
+        overrideConflict.captureConflict, 'Policy override', () => setOverrideDraft(null),
+    );
+
+    const handleDelete = async (remove: () => Promise<void>, noun: string, close: () => void) => {
+        if (isSubmitting) return;
+        setIsSubmitting(true);
+        try {
+            await remove();
+            addToast(`${noun} deleted successfully`, 'success');
+            await fetchData();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to delete ${noun.toLowerCase()}: ${errorMessage}`, 'error');
+        } finally {
+            setIsSubmitting(false);
+            close();
+        }
+    };
+
+    const handleReloadBrand = async () => {
+        const latest = await brandConflict.reloadLatest();
+        if (latest) {
+            setBrandDraft({ ...latest });
+        } else {
+            addToast('This brand has been deleted by someone else.', 'error');
+            setBrandDraft(null);
+        }
+        await fetchData();
+    };
+
+    const handleOverwriteBrand = async () => {
+        const brand = await brandConflict.overwriteWithMine();
+        if (brand) {
+            setBrandDraft(brand);
+            await handleSaveBrand(brand);
+        }
+    };
+
+    const handleReloadOverride = async () => {
+        const latest = await overrideConflict.reloadLatest();
+        if (latest) {
+            setOverrideDraft(overrideDraftOf(latest));
+        } else {
+            addToast('This policy override has been deleted by someone else.', 'error');
+            setOverrideDraft(null);
+        }
+        await fetchData();
+    };
+
+    const handleOverwriteOverride = async () => {
+        const override = await overrideConflict.overwriteWithMine();
+        if (override) {
+            setOverrideDraft(overrideDraftOf(override));
+            await handleSaveOverride(override);
+        }
+    };
+
+    const handleOverrideChange = <K extends keyof OverrideDraft>(field: K, value: OverrideDraft[K]) => {
+        setOverrideDraft(prev => prev ? { ...prev, [field]: value } : prev);
+    };
+
+    const renameWarning = brandDraft?.id !== undefined && brands.find(b => b.id === brandDraft.id)?.name !== brandDraft.name.trim();
+
+    const areaChoices = [{ value: '', label: 'Any area' }, ...areas.map(area => ({ value: area.locationArea, label: `${area.locationArea} (${area.locationCategory})` }))];
+    const categoryChoices = [{ value: '', label: 'Any area category' }, ...LOCATION_CATEGORIES.map(category => ({ value: category, label: category }))];
+    const vehicleChoices = [{ value: '', label: 'Any vehicle type' }, ...VEHICLE_TYPES.map(type => ({ value: type, label: type }))];
+    const brandChoices = brands.map(brand => ({ value: String(brand.id), label: brand.name }));
+
+    if (isLoading) {
+        return <div className="flex justify-center items-center h-64"><Spinner /></div>;
+    }
+
+    return (
+        <div className="space-y-8">
+            <Card title="Brands">
+                <div className="flex justify-between items-center mb-4">
+                    <p className="text-sm text-gray-600">
+                        Every active brand is offered in every area whose category has a calculation row named
+                        "brand_vehicle type_area category".
+                    </p>
+                    <Button onClick={() => setBrandDraft({ name: '', active: true, driver_bata_exempt: false })}>Add New Brand</Button>
+                </div>
+                <table className="min-w-full bg-white text-sm">
+                    <thead className="bg-gray-200">
+                        <tr>
+                            {['Name', 'Status', 'Driver Bata', 'Actions'].map(header => (
+                                <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {brands.map(brand => (
+                            <tr key={brand.id} className={`border-b hover:bg-gray-50 ${brand.active ? '' : 'text-gray-400'}`}>
+                                <td className="px-4 py-2 font-medium">{brand.name}</td>
+                                <td className="px-4 py-2">{brand.active ? 'Active' : 'Off'}</td>
+                                <td className="px-4 py-2">{brand.driver_bata_exempt ? 'Not charged unless overridden' : 'Charged unless overridden'}</td>
+                                <td className="px-4 py-2">
+                                    <div className="flex space-x-2">
+                                        <button onClick={() => setBrandDraft({ ...brand })} className="text-blue-600 hover:underline">Edit</button>
+                                        <button onClick={() => setBrandToDelete(brand)} className="text-red-600 hover:underline">Delete</button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </Card>
+
+            <Card title="Policy Overrides">
+                <div className="flex justify-between items-center mb-4">
+                    <p className="text-sm text-gray-600">
+                        Exceptions to a brand's driver bata, and surcharges, by area, area category or vehicle type. For
+                        driver bata the most specific override wins; surcharges add up.
+                    </p>
+                    <Button onClick={() => setOverrideDraft({ brand_id: brands[0]?.id ?? 0, kind: 'driver-bata-exempt', amount: '' })} disabled={brands.length === 0}>
+                        Add New Override
+                    </Button>
+                </div>
+                {overrides.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No overrides. Every brand follows its own driver bata setting.</p>
+                ) : (
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="bg-gray-200">
+                            <tr>
+                                {['Brand', 'Where', 'Override', 'Services reached', 'Note', 'Actions'].map(header => (
+                                    <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {overrides.map(override => (
+                                <tr key={override.id} className="border-b hover:bg-gray-50">
+                                    <td className="px-4 py-2 font-medium">{brandName(override.brand_id)}</td>
+                                    <td className="px-4 py-2">{describeScope(override)}</td>
+                                    <td className="px-4 py-2">
+                                        {kindLabels[override.kind]}{override.kind === 'surcharge' ? ` of ${displayRupees(override.amount || 0)}` : ''}
+                                    </td>
+                                    <td className="px-4 py-2">{reach(override)}</td>
+                                    <td className="px-4 py-2 text-gray-600">{override.note}</td>
+                                    <td className="px-4 py-2">
+                                        <div className="flex space-x-2">
+                                            <button onClick={() => setOverrideDraft(overrideDraftOf(override))} className="text-blue-600 hover:underline">Edit</button>
+                                            <button onClick={() => setOverrideToDelete(override)} className="text-red-600 hover:underline">Delete</button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </Card>
+
+            {brandDraft && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg">
+                        <h3 className="text-lg font-bold mb-4">{brandDraft.id ? 'Edit Brand' : 'Add New Brand'}</h3>
+                        <div className="grid grid-cols-1 gap-4">
+                            <Input id="brand_name" label="Name" value={brandDraft.name} onChange={e => setBrandDraft({ ...brandDraft, name: e.target.value })} />
+                            {renameWarning && (
+                                <p className="text-sm text-yellow-700">
+                                    The brand's calculation rows and discount rules are renamed with it. Memos already saved
+                                    keep the old name in their service.
+                                </p>
+                            )}
+                            <Select id="brand_active" label="Status" value={brandDraft.active ? 'active' : 'off'}
+                                onChange={e => setBrandDraft({ ...brandDraft, active: e.target.value === 'active' })}
+                                options={[{ value: 'active', label: 'Active' }, { value: 'off', label: 'Off' }]} />
+                            <Select id="brand_bata" label="Driver Bata" value={brandDraft.driver_bata_exempt ? 'exempt' : 'charged'}
+                                onChange={e => setBrandDraft({ ...brandDraft, driver_bata_exempt: e.target.value === 'exempt' })}
+                                options={[{ value: 'charged', label: 'Charged unless overridden' }, { value: 'exempt', label: 'Not charged unless overridden' }]} />
+                        </div>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setBrandDraft(null)} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button onClick={() => handleSaveBrand()} disabled={isSubmitting}>
+                                {isSubmitting ? <Spinner /> : 'Save'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {overrideDraft && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <h3 className="text-lg font-bold mb-4">{overrideDraft.id ? 'Edit Policy Override' : 'Add Policy Override'}</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <Select id="override_brand" label="Brand" value={String(overrideDraft.brand_id)}
+                                onChange={e => handleOverrideChange('brand_id', Number(e.target.value))} options={brandChoices} />
+                            <Select id="override_kind" label="Override" value={overrideDraft.kind}
+                                onChange={e => handleOverrideChange('kind', e.target.value as PolicyOverrideKind)} options={kindOptions} />
+                            <Select id="override_area" label="Area" value={overrideDraft.area || ''} onChange={e => handleOverrideChange('area', e.target.value)} options={areaChoices} />
+                            <Select id="override_category" label="Area Category" value={overrideDraft.area_category || ''} onChange={e => handleOverrideChange('area_category', e.target.value)} options={categoryChoices} />
+                            <Select id="override_vehicle" label="Vehicle Type" value={overrideDraft.vehicle_type || ''} onChange={e => handleOverrideChange('vehicle_type', e.target.value)} options={vehicleChoices} />
+                            {overrideDraft.kind === 'surcharge' && (
+                                <Input id="override_amount" label="Surcharge (₹)" type="number" value={overrideDraft.amount} onChange={e => handleOverrideChange('amount', e.target.value)} />
+                            )}
+                            <Input id="override_note" label="Note" value={overrideDraft.note || ''} onChange={e => handleOverrideChange('note', e.target.value)} />
+                        </div>
+                        <p className="text-sm text-gray-600 mt-4">
+                            Reaches {reach(overrideOf(overrideDraft))} area and vehicle type combinations of {brandName(overrideDraft.brand_id)}.
+                        </p>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setOverrideDraft(null)} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button onClick={() => handleSaveOverride()} disabled={isSubmitting}>
+                                {isSubmitting ? <Spinner /> : 'Save'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {brandConflict.conflict && (
+                <ConflictDialog
+                    message={brandConflict.conflict.message}
+                    onReload={handleReloadBrand}
+                    onOverwrite={handleOverwriteBrand}
+                    onCancel={brandConflict.dismissConflict}
+                />
+            )}
+
+            {overrideConflict.conflict && (
+                <ConflictDialog
+                    message={overrideConflict.conflict.message}
+                    onReload={handleReloadOverride}
+                    onOverwrite={handleOverwriteOverride}
+                    onCancel={overrideConflict.dismissConflict}
+                />
+            )}
+
+            {(brandToDelete || overrideToDelete) && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+                        <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
+                        <p>
+                            {brandToDelete
+                                ? `Delete the brand ${brandToDelete.name}? Its services leave the catalog; memos already written keep their prices.`
+                                : 'Delete this policy override? The services it reached go back to their brand\'s setting.'}
+                            {' '}It will be moved to the Recycle Bin, where it can be restored.
+                        </p>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => { setBrandToDelete(null); setOverrideToDelete(null); }} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button
+                                onClick={() => brandToDelete
+                                    ? handleDelete(() => deleteBrand(brandToDelete.id!), 'Brand', () => setBrandToDelete(null))
+                                    : handleDelete(() => deletePolicyOverride(overrideToDelete!.id!), 'Policy override', () => setOverrideToDelete(null))}
+                                disabled={isSubmitting}
+                                className="bg-red-600 hover:bg-red-700"
+                            >
+                                {isSubmitting ? <Spinner /> : 'Delete'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BrandsCRUD;
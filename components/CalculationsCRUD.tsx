@@ -1,32 +1,79 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { getCalculations, addCalculationRecord, updateCalculationRecord, deleteCalculationRecord } from '../services/googleScriptMock';
+import { getCalculations, addCalculationRecord, updateCalculationRecord, deleteCalculationRecord, reviseCalculation } from '../services/api';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useRevisionConflict } from '../hooks/useRevisionConflict';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Spinner from './ui/Spinner';
+import ConflictDialog from './ui/ConflictDialog';
 import Input from './ui/Input';
-import { Calculation } from '../types';
+import SpreadsheetImportWizard, { ImportField } from './SpreadsheetImportWizard';
+import TariffMatrix from './TariffMatrix';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
+import { calculationsInForce, describePeriod, versionsOf, withoutBlankDates } from '../utils/rateVersions';
+import { Calculation, Versioned } from '../types';
 
 // FIX: Define a type for string keys of Calculation to ensure type safety.
-type CalculationStringKeys = keyof Omit<Calculation, 'id'>;
+type CalculationStringKeys = keyof Omit<Calculation, 'id' | 'effective_from' | 'effective_to' | keyof Versioned>;
+
+const importFields: ImportField[] = [
+    { field: 'products_type_category', label: 'Type Category', required: true, aliases: ['category'] },
+    { field: 'products_minimum_hours', label: 'Minimum Hours' },
+    { field: 'products_minimum_km', label: 'Minimum Km' },
+    { field: 'products_minimum_charges', label: 'Minimum Charges' },
+    { field: 'products_additional_hours_charges', label: 'Additional Hours Charges' },
+    { field: 'products_running_hours', label: 'Running Hours' },
+    { field: 'products_driver_bata', label: 'Driver Bata', aliases: ['bata'] },
+    { field: 'products_extra_km_rate', label: 'Extra Km Rate' },
+    { field: 'effective_from', label: 'Effective From', aliases: ['from'] },
+    { field: 'effective_to', label: 'Effective To', aliases: ['to'] },
+];
+
+const exportColumns: ExportColumn<Calculation>[] = [
+    { header: 'Type Category', value: record => record.products_type_category },
+    { header: 'Minimum Hours', type: 'number', value: record => record.products_minimum_hours },
+    { header: 'Minimum Km', type: 'number', value: record => record.products_minimum_km },
+    { header: 'Minimum Charges', type: 'currency', value: record => record.products_minimum_charges },
+    { header: 'Additional Hours Charges', type: 'currency', value: record => record.products_additional_hours_charges },
+    { header: 'Running Hours', type: 'number', value: record => record.products_running_hours },
+    { header: 'Driver Bata', type: 'currency', value: record => record.products_driver_bata },
+    { header: 'Extra Km Rate', type: 'currency', value: record => record.products_extra_km_rate || '' },
+    { header: 'Effective From', value: record => record.effective_from || '' },
+    { header: 'Effective To', value: record => record.effective_to || '' },
+];
+
+const today = () => new Date().toISOString().split('T')[0];
 
 const CalculationsCRUD: React.FC = () => {
     const [calculationsData, setCalculationsData] = useState<Calculation[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchTerm, setSearchTerm] = useState('');
+    // The table shows the rates in force on `asOf` unless every version is asked for.
+    const [asOf, setAsOf] = useState(today());
+    const [showAllVersions, setShowAllVersions] = useState(false);
+    const [view, setView] = useState<'list' | 'matrix'>('list');
     const { addToast } = useToast();
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     // Modal states
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [currentRecord, setCurrentRecord] = useState<Partial<Calculation>>({});
+    // Blank to correct the version being edited, or the date new rates start from.
+    const [reviseFrom, setReviseFrom] = useState('');
+    const [historyCategory, setHistoryCategory] = useState<string | null>(null);
+    const { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict } = useRevisionConflict<Partial<Calculation>>(
+        async record => (await getCalculations()).find(r => r.id === record.id),
+    );
     const [recordToDelete, setRecordToDelete] = useState<Calculation | null>(null);
 
     const headers: CalculationStringKeys[] = [
         "products_type_category", "products_minimum_hours", "products_minimum_km", 
         "products_minimum_charges", "products_additional_hours_charges", 
-        "products_running_hours", "products_driver_bata"
+        "products_running_hours", "products_driver_bata", "products_extra_km_rate"
     ];
     
     const fetchData = async () => {
@@ -46,14 +93,21 @@ const CalculationsCRUD: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    useDataChanges(['calculations'], fetchData);
+
     const filteredData = useMemo(() => {
+        const shown = showAllVersions || !asOf ? calculationsData : calculationsInForce(calculationsData, asOf);
         if (!searchTerm) {
-            return calculationsData;
+            return shown;
         }
-        return calculationsData.filter(row =>
+        return shown.filter(row =>
             Object.values(row).some(cell => String(cell).toLowerCase().includes(searchTerm.toLowerCase()))
         );
-    }, [calculationsData, searchTerm]);
+    }, [calculationsData, searchTerm, asOf, showAllVersions]);
+
+    const history = historyCategory ? versionsOf(calculationsData, historyCategory) : [];
+
+    const handleExport = (format: ExportFormat) => exportTable(format, 'Calculation Table', exportColumns, filteredData);
 
     const handleOpenModal = (record: Calculation | null) => {
         if (record) {
@@ -64,32 +118,63 @@ const CalculationsCRUD: React.FC = () => {
             headers.forEach(h => newRecord[h] = '');
             setCurrentRecord(newRecord);
         }
+        setReviseFrom('');
         setIsModalOpen(true);
     };
 
     const handleCloseModal = () => {
         setIsModalOpen(false);
         setCurrentRecord({});
+        setReviseFrom('');
     };
     
-    const handleSave = async () => {
+    const handleSave = async (record: Partial<Calculation> = currentRecord) => {
         if (isSubmitting) return;
         setIsSubmitting(true);
+        let keepOpen = false;
         try {
-            if (currentRecord.id) {
-                await updateCalculationRecord(currentRecord as Calculation);
+            if (record.id && reviseFrom) {
+                await reviseCalculation(record as Calculation, reviseFrom);
+                addToast(`New rates saved from ${reviseFrom}`, 'success');
+            } else if (record.id) {
+                await updateCalculationRecord(withoutBlankDates(record as Calculation));
                 addToast('Record updated successfully', 'success');
             } else {
-                await addCalculationRecord(currentRecord as Omit<Calculation, 'id'>);
+                await addCalculationRecord(withoutBlankDates(record as Omit<Calculation, 'id'>));
                 addToast('Record added successfully', 'success');
             }
             await fetchData();
         } catch (error) {
-            addToast('Failed to save record', 'error');
+            if (captureConflict(error, record)) {
+                keepOpen = true;
+            } else {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to save record: ${errorMessage}`, 'error');
+                keepOpen = true;
+            }
         } finally {
             setIsSubmitting(false);
+            if (!keepOpen) handleCloseModal();
+        }
+    };
+
+    const handleReloadConflict = async () => {
+        const latest = await reloadLatest();
+        if (latest) {
+            setCurrentRecord({ ...latest });
+        } else {
+            addToast('This record has been deleted by someone else.', 'error');
             handleCloseModal();
         }
+        await fetchData();
+    };
+
+    const handleOverwriteConflict = async () => {
+        const record = await overwriteWithMine();
+        if (record) {
+            setCurrentRecord(record);
+            await handleSave(record);
+        }
     };
     
     const openDeleteConfirmation = (record: Calculation) => {
@@ -126,20 +211,42 @@ const CalculationsCRUD: React.FC = () => {
     return (
         <Card title="Manage Calculation Table">
             <div className="flex justify-between items-center mb-4">
-                <Input
-                    id="search"
-                    label=""
-                    placeholder="Search calculation data..."
-                    value={searchTerm}
-                    onChange={e => setSearchTerm(e.target.value)}
-                    className="w-1/3"
-                />
-                <Button onClick={() => handleOpenModal(null)}>Add New Record</Button>
+                <div className="flex items-end space-x-4 w-1/2">
+                    <Input
+                        id="search"
+                        label=""
+                        placeholder="Search calculation data..."
+                        value={searchTerm}
+                        onChange={e => setSearchTerm(e.target.value)}
+                    />
+                    <Input
+                        id="ratesAsOf"
+                        label="Rates in force on"
+                        type="date"
+                        value={asOf}
+                        onChange={e => setAsOf(e.target.value)}
+                        disabled={showAllVersions && view === 'list'}
+                    />
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 whitespace-nowrap pb-2">
+                        <input type="checkbox" checked={showAllVersions} onChange={e => setShowAllVersions(e.target.checked)} />
+                        <span>Show all versions</span>
+                    </label>
+                </div>
+                <div className="flex space-x-2">
+                    <Button onClick={() => setView(view === 'list' ? 'matrix' : 'list')} className="bg-gray-300 text-gray-800 hover:bg-gray-400">
+                        {view === 'list' ? 'Matrix View' : 'List View'}
+                    </Button>
+                    <ExportButtons onExport={handleExport} disabled={isLoading || filteredData.length === 0} />
+                    <Button onClick={() => setIsImportOpen(true)}>Import CSV/Excel</Button>
+                    <Button onClick={() => handleOpenModal(null)}>Add New Record</Button>
+                </div>
             </div>
             {isLoading ? (
                 <div className="flex justify-center items-center h-64">
                     <Spinner />
                 </div>
+            ) : view === 'matrix' ? (
+                <TariffMatrix calculations={calculationsData} asOf={asOf || today()} onSaved={fetchData} />
             ) : (
                 <div className="overflow-x-auto">
                     <table className="min-w-full bg-white text-sm">
@@ -148,6 +255,7 @@ const CalculationsCRUD: React.FC = () => {
                                 {headers.map((header) => (
                                     <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">{header.replace(/_/g, ' ')}</th>
                                 ))}
+                                <th className="px-4 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">In force</th>
                                 <th className="px-4 py-2 text-left font-semibold text-gray-700">Actions</th>
                             </tr>
                         </thead>
@@ -157,9 +265,11 @@ const CalculationsCRUD: React.FC = () => {
                                     {headers.map(header => (
                                         <td key={header} className="px-4 py-2">{row[header]}</td>
                                     ))}
+                                    <td className="px-4 py-2 whitespace-nowrap">{describePeriod(row)}</td>
                                     <td className="px-4 py-2">
                                         <div className="flex space-x-2">
                                             <button onClick={() => handleOpenModal(row)} className="text-blue-600 hover:underline">Edit</button>
+                                            <button onClick={() => setHistoryCategory(row.products_type_category)} className="text-blue-600 hover:underline">History</button>
                                             <button onClick={() => openDeleteConfirmation(row)} className="text-red-600 hover:underline">Delete</button>
                                         </div>
                                     </td>
@@ -182,12 +292,42 @@ const CalculationsCRUD: React.FC = () => {
                                     label={header.replace(/_/g, ' ')}
                                     value={String(currentRecord[header] || '')}
                                     onChange={(e) => handleModalInputChange(header, e.target.value)}
+                                    readOnly={header === 'products_type_category' && !!reviseFrom}
                                 />
                             ))}
+                            {!reviseFrom && (
+                                <>
+                                    <Input id="effective_from" label="effective from" type="date" value={currentRecord.effective_from || ''} onChange={(e) => handleModalInputChange('effective_from', e.target.value)} />
+                                    <Input id="effective_to" label="effective to" type="date" value={currentRecord.effective_to || ''} onChange={(e) => handleModalInputChange('effective_to', e.target.value)} />
+                                </>
+                            )}
                         </div>
+                        {currentRecord.id && (
+                            <div className="mt-4 space-y-2 text-sm">
+                                <label className="flex items-start space-x-3 cursor-pointer">
+                                    <input type="radio" name="calculationSaveMode" checked={!reviseFrom} onChange={() => setReviseFrom('')} className="mt-1" />
+                                    <span>
+                                        <span className="font-medium">Correct this rate</span>
+                                        <span className="block text-gray-500">Changes the rate for its whole period ({describePeriod(currentRecord as Calculation)}), including memos already priced from it.</span>
+                                    </span>
+                                </label>
+                                <label className="flex items-start space-x-3 cursor-pointer">
+                                    <input type="radio" name="calculationSaveMode" checked={!!reviseFrom} onChange={() => setReviseFrom(today())} className="mt-1" />
+                                    <span>
+                                        <span className="font-medium">New rates from a date</span>
+                                        <span className="block text-gray-500">Keeps the current rate up to the day before and saves these rates as a new version.</span>
+                                    </span>
+                                </label>
+                                {reviseFrom && (
+                                    <div className="w-1/3">
+                                        <Input id="reviseFrom" label="New rates start on" type="date" value={reviseFrom} onChange={e => setReviseFrom(e.target.value)} />
+                                    </div>
+                                )}
+                            </div>
+                        )}
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={handleCloseModal} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
-                            <Button onClick={handleSave} disabled={isSubmitting}>
+                            <Button onClick={() => handleSave()} disabled={isSubmitting}>
                                 {isSubmitting ? <Spinner /> : 'Save'}
                             </Button>
                         </div>
@@ -195,11 +335,57 @@ const CalculationsCRUD: React.FC = () => {
                 </div>
             )}
             
+            {historyCategory && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+                        <h3 className="text-lg font-bold mb-1">Rate history: {historyCategory}</h3>
+                        <p className="text-sm text-gray-500 mb-4">Oldest first. Highlighted rates changed from the version before.</p>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full bg-white text-sm">
+                                <thead className="bg-gray-200">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left font-semibold text-gray-700">From</th>
+                                        <th className="px-4 py-2 text-left font-semibold text-gray-700">To</th>
+                                        {headers.slice(1).map(header => (
+                                            <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">{header.replace(/^products_/, '').replace(/_/g, ' ')}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {history.map((version, index) => (
+                                        <tr key={version.id} className="border-b">
+                                            <td className="px-4 py-2 whitespace-nowrap">{version.effective_from || '—'}</td>
+                                            <td className="px-4 py-2 whitespace-nowrap">{version.effective_to || '—'}</td>
+                                            {headers.slice(1).map(header => {
+                                                const changed = index > 0 && (history[index - 1][header] || '') !== (version[header] || '');
+                                                return <td key={header} className={`px-4 py-2 ${changed ? 'bg-yellow-100 font-semibold' : ''}`}>{version[header]}</td>;
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex justify-end mt-6">
+                            <Button onClick={() => setHistoryCategory(null)} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Close</Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {conflict && (
+                <ConflictDialog
+                    message={conflict.message}
+                    onReload={handleReloadConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onCancel={dismissConflict}
+                />
+            )}
+
              {isDeleteConfirmOpen && (
                  <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
                     <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
                         <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
-                        <p>Are you sure you want to delete this record? This action cannot be undone.</p>
+                        <p>Are you sure you want to delete this record? It will be moved to the Recycle Bin, where it can be restored.</p>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={closeDeleteConfirmation} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
                             <Button onClick={handleDelete} disabled={isSubmitting} className="bg-red-600 hover:bg-red-700">
@@ -210,6 +396,15 @@ const CalculationsCRUD: React.FC = () => {
                 </div>
             )}
 
+            {isImportOpen && (
+                <SpreadsheetImportWizard
+                    entity="calculations"
+                    title="Import Calculation Table"
+                    fields={importFields}
+                    onClose={() => setIsImportOpen(false)}
+                    onImported={fetchData}
+                />
+            )}
         </Card>
     );
 };
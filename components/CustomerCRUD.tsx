@@ -1,11 +1,32 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { getCustomers, addCustomer, updateCustomer, deleteCustomer } from '../services/googleScriptMock';
-import { Customer } from '../types';
+import { getCustomers, addCustomer, updateCustomer, deleteCustomer, getCustomerUsage, getCustomerLinkReview } from '../services/api';
+import { Customer, CustomerUsage } from '../types';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useRevisionConflict } from '../hooks/useRevisionConflict';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Spinner from './ui/Spinner';
+import ConflictDialog from './ui/ConflictDialog';
 import Input from './ui/Input';
+import Select from './ui/Select';
+import SpreadsheetImportWizard, { ImportField } from './SpreadsheetImportWizard';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
+import { customerOptions } from '../utils/customerOptions';
+import CustomerLinkReview from './CustomerLinkReview';
+
+const importFields: ImportField[] = [
+    { field: 'customers_name', label: 'Customer Name', required: true, aliases: ['name', 'customer'] },
+    { field: 'customers_address1', label: 'Address 1', aliases: ['address', 'address line 1'] },
+    { field: 'customers_address2', label: 'Address 2', aliases: ['address line 2', 'city'] },
+];
+
+const exportColumns: ExportColumn<Customer>[] = [
+    { header: 'Customer Name', value: customer => customer.customers_name },
+    { header: 'Address 1', value: customer => customer.customers_address1 },
+    { header: 'Address 2', value: customer => customer.customers_address2 },
+];
 
 const CustomerCRUD: React.FC = () => {
     const [customers, setCustomers] = useState<Customer[]>([]);
@@ -17,14 +38,24 @@ const CustomerCRUD: React.FC = () => {
     // Modal states
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [currentRecord, setCurrentRecord] = useState<Partial<Customer>>({});
+    const { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict } = useRevisionConflict<Partial<Customer>>(
+        async record => (await getCustomers()).find(r => r.id === record.id),
+    );
     const [recordToDelete, setRecordToDelete] = useState<Customer | null>(null);
+    // Documents that must be moved to another customer before the one being deleted can go.
+    const [deleteUsage, setDeleteUsage] = useState<CustomerUsage | null>(null);
+    const [reassignTo, setReassignTo] = useState('');
+    const [isLinkReviewOpen, setIsLinkReviewOpen] = useState(false);
+    const [unlinkedNames, setUnlinkedNames] = useState(0);
 
     const fetchData = async () => {
         setIsLoading(true);
         try {
-            const data = await getCustomers();
+            const [data, review] = await Promise.all([getCustomers(), getCustomerLinkReview()]);
             setCustomers(data);
+            setUnlinkedNames(review.length);
         } catch (error) {
             addToast('Failed to fetch customers.', 'error');
             console.error(error);
@@ -38,6 +69,8 @@ const CustomerCRUD: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    useDataChanges(['customers', 'memos', 'invoices'], fetchData);
+
     const filteredData = useMemo(() => {
         if (!searchTerm) {
             return customers;
@@ -49,6 +82,8 @@ const CustomerCRUD: React.FC = () => {
         );
     }, [customers, searchTerm]);
 
+    const handleExport = (format: ExportFormat) => exportTable(format, 'Customers', exportColumns, filteredData);
+
     const handleOpenModal = (customer: Customer | null) => {
         if (customer) {
             setCurrentRecord({ ...customer });
@@ -63,40 +98,72 @@ const CustomerCRUD: React.FC = () => {
         setCurrentRecord({});
     };
     
-    const handleSave = async () => {
+    const handleSave = async (record: Partial<Customer> = currentRecord) => {
         if (isSubmitting) return;
-        if (!currentRecord.customers_name?.trim() || !currentRecord.customers_address1?.trim() || !currentRecord.customers_address2?.trim()) {
+        if (!record.customers_name?.trim() || !record.customers_address1?.trim() || !record.customers_address2?.trim()) {
             addToast("All fields are required and cannot be empty.", "error");
             return;
         }
 
         setIsSubmitting(true);
+        let keepOpen = false;
         try {
-            if (currentRecord.id) {
-                await updateCustomer(currentRecord as Customer);
+            if (record.id) {
+                await updateCustomer(record as Customer);
                 addToast('Customer updated successfully', 'success');
             } else {
-                await addCustomer(currentRecord as Omit<Customer, 'id'>);
+                await addCustomer(record as Omit<Customer, 'id'>);
                 addToast('Customer added successfully', 'success');
             }
             await fetchData();
         } catch (error) {
-            addToast('Failed to save customer', 'error');
-            console.error(error);
+            if (captureConflict(error, record)) {
+                keepOpen = true;
+            } else {
+                addToast('Failed to save customer', 'error');
+                console.error(error);
+            }
         } finally {
             setIsSubmitting(false);
+            if (!keepOpen) handleCloseModal();
+        }
+    };
+
+    const handleReloadConflict = async () => {
+        const latest = await reloadLatest();
+        if (latest) {
+            setCurrentRecord({ ...latest });
+        } else {
+            addToast('This customer has been deleted by someone else.', 'error');
             handleCloseModal();
         }
+        await fetchData();
+    };
+
+    const handleOverwriteConflict = async () => {
+        const record = await overwriteWithMine();
+        if (record) {
+            setCurrentRecord(record);
+            await handleSave(record);
+        }
     };
     
-    const openDeleteConfirmation = (customer: Customer) => {
+    const openDeleteConfirmation = async (customer: Customer) => {
+        try {
+            setDeleteUsage(await getCustomerUsage(customer.id!));
+        } catch (error) {
+            addToast('Failed to check where this customer is used.', 'error');
+            return;
+        }
         setRecordToDelete(customer);
+        setReassignTo('');
         setIsDeleteConfirmOpen(true);
     };
 
     const closeDeleteConfirmation = () => {
         setIsDeleteConfirmOpen(false);
         setRecordToDelete(null);
+        setDeleteUsage(null);
     };
 
     const handleDelete = async () => {
@@ -104,11 +171,15 @@ const CustomerCRUD: React.FC = () => {
             if(isSubmitting) return;
             setIsSubmitting(true);
             try {
-                await deleteCustomer(recordToDelete.id);
+                await deleteCustomer(recordToDelete.id, reassignTo ? Number(reassignTo) : undefined);
                 addToast('Customer deleted successfully', 'success');
                 await fetchData();
             } catch (error) {
-                addToast('Failed to delete customer', 'error');
+                if (error instanceof Error && error.name === 'CustomerInUseError') {
+                    addToast(error.message, 'error');
+                } else {
+                    addToast('Failed to delete customer', 'error');
+                }
                 console.error(error);
             } finally {
                 setIsSubmitting(false);
@@ -134,8 +205,18 @@ const CustomerCRUD: React.FC = () => {
                     onChange={e => setSearchTerm(e.target.value)}
                     className="w-1/3"
                 />
-                <Button onClick={() => handleOpenModal(null)}>Add New Customer</Button>
+                <div className="flex space-x-2">
+                    <ExportButtons onExport={handleExport} disabled={isLoading || filteredData.length === 0} />
+                    <Button onClick={() => setIsLinkReviewOpen(true)}>Review Links{unlinkedNames > 0 ? ` (${unlinkedNames})` : ''}</Button>
+                    <Button onClick={() => setIsImportOpen(true)}>Import CSV/Excel</Button>
+                    <Button onClick={() => handleOpenModal(null)}>Add New Customer</Button>
+                </div>
             </div>
+            {unlinkedNames > 0 && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-300 rounded-lg p-3 mb-4">
+                    {unlinkedNames} customer names on memos or invoices are not linked to a customer. Use "Review Links" to match them.
+                </p>
+            )}
             {isLoading ? (
                 <div className="flex justify-center items-center h-64"><Spinner /></div>
             ) : (
@@ -193,7 +274,7 @@ const CustomerCRUD: React.FC = () => {
                         </div>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={handleCloseModal} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
-                            <Button onClick={handleSave} disabled={isSubmitting}>
+                            <Button onClick={() => handleSave()} disabled={isSubmitting}>
                                 {isSubmitting ? <Spinner /> : 'Save'}
                             </Button>
                         </div>
@@ -201,20 +282,66 @@ const CustomerCRUD: React.FC = () => {
                 </div>
             )}
 
+            {conflict && (
+                <ConflictDialog
+                    message={conflict.message}
+                    onReload={handleReloadConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onCancel={dismissConflict}
+                />
+            )}
+
             {isDeleteConfirmOpen && (
                  <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
                     <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
                         <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
-                        <p>Are you sure you want to delete this customer? This action cannot be undone.</p>
+                        <p>Are you sure you want to delete this customer? It will be moved to the Recycle Bin, where it can be restored.</p>
+                        {deleteUsage && deleteUsage.memos + deleteUsage.invoices > 0 && (
+                            <div className="mt-4 space-y-3">
+                                <p className="text-sm text-red-600">
+                                    {recordToDelete?.customers_name} has {deleteUsage.memos} memos and {deleteUsage.invoices} invoices
+                                    {deleteUsage.openInvoices > 0 && `, ${deleteUsage.openInvoices} of them not yet paid`}.
+                                    Move them to another customer to delete it. Issued documents keep the name printed on them.
+                                </p>
+                                <Select
+                                    id="reassignCustomer"
+                                    label="Move them to"
+                                    value={reassignTo}
+                                    onChange={e => setReassignTo(e.target.value)}
+                                    options={[
+                                        { value: '', label: '— Choose a customer —' },
+                                        ...customerOptions(customers.filter(customer => customer.id !== recordToDelete?.id)),
+                                    ]}
+                                />
+                            </div>
+                        )}
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={closeDeleteConfirmation} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
-                            <Button onClick={handleDelete} disabled={isSubmitting} className="bg-red-600 hover:bg-red-700">
+                            <Button onClick={handleDelete} disabled={isSubmitting || (!!deleteUsage && deleteUsage.memos + deleteUsage.invoices > 0 && !reassignTo)} className="bg-red-600 hover:bg-red-700">
                                 {isSubmitting ? <Spinner /> : 'Delete'}
                             </Button>
                         </div>
                     </div>
                 </div>
             )}
+
+            {isLinkReviewOpen && (
+                <CustomerLinkReview
+                    customers={customers}
+                    onClose={() => setIsLinkReviewOpen(false)}
+                    onLinked={fetchData}
+                />
+            )}
+
+            {isImportOpen && (
+                <SpreadsheetImportWizard
+                    entity="customers"
+                    title="Import Customers"
+                    fields={importFields}
+                    onClose={() => setIsImportOpen(false)}
+                    onImported={fetchData}
+                />
+            )}
         </Card>
     );
 };
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { getCustomerLinkReview, linkCustomerDocuments } from '../services/api';
+import { Customer, CustomerLinkReviewItem } from '../types';
+import { useToast } from '../hooks/useToast';
+import { customerOptions } from '../utils/customerOptions';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+
+interface CustomerLinkReviewProps {
+    customers: Customer[];
+    onClose: () => void;
+    // Called after documents were linked, so the screen can refresh its count.
+    onLinked: () => void;
+}
+
+const reasonLabels: Record<CustomerLinkReviewItem['reason'], string> = {
+    unlinked: 'One customer has this name',
+    ambiguous: 'Several customers have this name',
+    unmatched: 'No customer has this name',
+    deleted: 'The linked customer was deleted',
+};
+
+const MAX_LISTED_NUMBERS = 5;
+
+const listNumbers = (numbers: string[]) => numbers.length <= MAX_LISTED_NUMBERS
+    ? numbers.join(', ')
+    : `${numbers.slice(0, MAX_LISTED_NUMBERS).join(', ')} and ${numbers.length - MAX_LISTED_NUMBERS} more`;
+
+const itemKey = (item: CustomerLinkReviewItem) => `${item.reason}|${item.customer_name}`;
+
+const CustomerLinkReview: React.FC<CustomerLinkReviewProps> = ({ customers, onClose, onLinked }) => {
+    const [items, setItems] = useState<CustomerLinkReviewItem[]>([]);
+    // The customer chosen for each name, by item key.
+    const [choices, setChoices] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [linkingKey, setLinkingKey] = useState<string | null>(null);
+    const { addToast } = useToast();
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getCustomerLinkReview();
+            setItems(data);
+            // A name that matches exactly one customer is preselected.
+            setChoices(Object.fromEntries(data.map(item => [itemKey(item), item.candidates.length === 1 ? String(item.candidates[0].id) : ''])));
+        } catch (error) {
+            addToast('Failed to load the documents to review.', 'error');
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleLink = async (item: CustomerLinkReviewItem) => {
+        const customerId = Number(choices[itemKey(item)]);
+        if (!customerId) return;
+        setLinkingKey(itemKey(item));
+        try {
+            const linked = await linkCustomerDocuments(item.customer_name, customerId);
+            addToast(`Linked ${linked} documents for "${item.customer_name}".`, 'success');
+            onLinked();
+            await fetchData();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to link documents: ${errorMessage}`, 'error');
+        } finally {
+            setLinkingKey(null);
+        }
+    };
+
+    // Matching customers are offered first, then everyone else.
+    const optionsFor = (item: CustomerLinkReviewItem) => {
+        const candidateIds = new Set(item.candidates.map(candidate => String(candidate.id)));
+        const options = customerOptions(customers);
+        return [
+            ...options.filter(option => candidateIds.has(option.value)),
+            ...options.filter(option => !candidateIds.has(option.value)),
+        ];
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center text-gray-800">
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-5xl">
+                <h3 className="text-lg font-bold mb-2">Review Customer Links</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                    These memos and invoices carry a customer name that is not linked to a customer record. Choose the
+                    customer each name belongs to. Issued documents keep the name and address printed on them.
+                </p>
+                {isLoading ? (
+                    <div className="flex justify-center items-center h-32"><Spinner /></div>
+                ) : items.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">Every memo and invoice is linked to a customer.</p>
+                ) : (
+                    <div className="max-h-[60vh] overflow-y-auto">
+                        <table className="min-w-full bg-white text-sm">
+                            <thead className="bg-gray-200 sticky top-0">
+                                <tr>
+                                    {['Name on documents', 'Why', 'Memos', 'Invoices', 'Customer', ''].map(header => (
+                                        <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {items.map(item => (
+                                    <tr key={itemKey(item)} className="border-b align-top">
+                                        <td className="px-4 py-2 font-medium">{item.customer_name}</td>
+                                        <td className={`px-4 py-2 ${item.reason === 'unlinked' ? '' : 'text-yellow-700'}`}>{reasonLabels[item.reason]}</td>
+                                        <td className="px-4 py-2">{listNumbers(item.memo_nos)}</td>
+                                        <td className="px-4 py-2">{listNumbers(item.invoice_nos)}</td>
+                                        <td className="px-4 py-2">
+                                            <select
+                                                value={choices[itemKey(item)] || ''}
+                                                onChange={e => setChoices(prev => ({ ...prev, [itemKey(item)]: e.target.value }))}
+                                                className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                                            >
+                                                <option value="">— Choose a customer —</option>
+                                                {optionsFor(item).map(option => (
+                                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <Button onClick={() => handleLink(item)} disabled={!choices[itemKey(item)] || linkingKey !== null}>
+                                                {linkingKey === itemKey(item) ? <Spinner /> : 'Link'}
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <div className="flex justify-end mt-6">
+                    <Button onClick={onClose}>Close</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CustomerLinkReview;
@@ -0,0 +1,425 @@
+import React, { useState, useEffect } from 'react';
+import { getDiscountRules, addDiscountRule, updateDiscountRule, deleteDiscountRule, getCustomers, getBrands, getViewAllServicesData, searchMemoByMemoNo } from '../services/api';
+import { Brand, Customer, DiscountRule, MemoData } from '../types';
+import { VEHICLE_TYPES, LOCATION_CATEGORIES } from '../constants';
+import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useRevisionConflict } from '../hooks/useRevisionConflict';
+import { customerOptions } from '../utils/customerOptions';
+import { billMemo } from '../utils/billing';
+import { describeDiscount, discountContextOf, discountOf, discountRuleProblems, findDiscountRule, ruleChecks, sortDiscountRules } from '../utils/discounts';
+import { displayRupees, formatQuantity, formatRupees, parseQuantity, parseRupees } from '../utils/money';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import ConflictDialog from './ui/ConflictDialog';
+import Input from './ui/Input';
+import Select from './ui/Select';
+
+// The rule as typed into the form: amounts in rupees, numbers as text.
+interface RuleDraft {
+    id?: number;
+    revision?: number;
+    name: string;
+    priority: string;
+    active: boolean;
+    customer_id: string;
+    customer_name_contains: string;
+    brand: string;
+    vehicle_type: string;
+    area_category: string;
+    valid_from: string;
+    valid_to: string;
+    minimum_amount: string;
+    kind: DiscountRule['kind'];
+    value: string;
+}
+
+const emptyDraft = (priority: number): RuleDraft => ({
+    name: '',
+    priority: String(priority),
+    active: true,
+    customer_id: '',
+    customer_name_contains: '',
+    brand: '',
+    vehicle_type: '',
+    area_category: '',
+    valid_from: '',
+    valid_to: '',
+    minimum_amount: '',
+    kind: 'percent',
+    value: '',
+});
+
+const draftOf = (rule: DiscountRule): RuleDraft => ({
+    id: rule.id,
+    revision: rule.revision,
+    name: rule.name,
+    priority: String(rule.priority),
+    active: rule.active,
+    customer_id: rule.customer_id !== undefined ? String(rule.customer_id) : '',
+    customer_name_contains: rule.customer_name_contains || '',
+    brand: rule.brand || '',
+    vehicle_type: rule.vehicle_type || '',
+    area_category: rule.area_category || '',
+    valid_from: rule.valid_from || '',
+    valid_to: rule.valid_to || '',
+    minimum_amount: rule.minimum_amount ? formatRupees(rule.minimum_amount) : '',
+    kind: rule.kind,
+    value: rule.kind === 'percent' ? formatQuantity(rule.value) : formatRupees(rule.value),
+});
+
+// Conditions left blank are left off the rule, so that they match every memo.
+const ruleOf = (draft: RuleDraft): DiscountRule => {
+    const rule: DiscountRule = {
+        name: draft.name.trim(),
+        priority: parseQuantity(draft.priority),
+        active: draft.active,
+        kind: draft.kind,
+        value: draft.kind === 'percent' ? parseQuantity(draft.value) : parseRupees(draft.value),
+    };
+    if (draft.id !== undefined) rule.id = draft.id;
+    if (draft.revision !== undefined) rule.revision = draft.revision;
+    if (draft.customer_id) rule.customer_id = Number(draft.customer_id);
+    if (draft.customer_name_contains.trim()) rule.customer_name_contains = draft.customer_name_contains.trim();
+    if (draft.brand) rule.brand = draft.brand;
+    if (draft.vehicle_type) rule.vehicle_type = draft.vehicle_type;
+    if (draft.area_category) rule.area_category = draft.area_category;
+    if (draft.valid_from) rule.valid_from = draft.valid_from;
+    if (draft.valid_to) rule.valid_to = draft.valid_to;
+    if (parseRupees(draft.minimum_amount)) rule.minimum_amount = parseRupees(draft.minimum_amount);
+    return rule;
+};
+
+const anyOption = (label: string) => ({ value: '', label });
+
+const kindOptions = [
+    { value: 'percent', label: 'Percentage of the discountable amount' },
+    { value: 'flat', label: 'Flat amount (₹)' },
+];
+
+const DiscountRulesCRUD: React.FC = () => {
+    const [rules, setRules] = useState<DiscountRule[]>([]);
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [services, setServices] = useState<string[][]>([]);
+    const [brandsData, setBrandsData] = useState<Brand[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { addToast } = useToast();
+
+    const [draft, setDraft] = useState<RuleDraft | null>(null);
+    const [ruleToDelete, setRuleToDelete] = useState<DiscountRule | null>(null);
+    const { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict } = useRevisionConflict<DiscountRule>(
+        async rule => (await getDiscountRules()).find(r => r.id === rule.id),
+    );
+
+    // The memo the rule in the form is tried against.
+    const [testMemoNo, setTestMemoNo] = useState('');
+    const [testMemo, setTestMemo] = useState<MemoData | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const [rulesData, customersData, servicesData, brandList] = await Promise.all([getDiscountRules(), getCustomers(), getViewAllServicesData(), getBrands()]);
+            setRules(sortDiscountRules(rulesData));
+            setCustomers(customersData);
+            setServices(servicesData);
+            setBrandsData(brandList);
+        } catch (error) {
+            addToast('Failed to fetch discount rules.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useDataChanges(['discountRules', 'customers', 'areas', 'calculations', 'brands', 'policyOverrides'], fetchData);
+
+    const customerName = (customerId?: number) =>
+        customers.find(customer => customer.id === customerId)?.customers_name || `Customer #${customerId}`;
+
+    const brands = brandsData.map(brand => brand.name);
+
+    const describeConditions = (rule: DiscountRule): string => {
+        const conditions = [
+            rule.customer_id !== undefined ? customerName(rule.customer_id) : '',
+            rule.customer_name_contains ? `customer name contains "${rule.customer_name_contains}"` : '',
+            rule.brand || '',
+            rule.vehicle_type || '',
+            rule.area_category || '',
+            rule.valid_from || rule.valid_to ? `${rule.valid_from || '…'} to ${rule.valid_to || '…'}` : '',
+            rule.minimum_amount ? `from ${displayRupees(rule.minimum_amount)}` : '',
+        ].filter(Boolean);
+        return conditions.length > 0 ? conditions.join(', ') : 'Every memo';
+    };
+
+    const handleOpenModal = (rule: DiscountRule | null) => {
+        const nextPriority = rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + 10 : 10;
+        setDraft(rule ? draftOf(rule) : emptyDraft(nextPriority));
+    };
+
+    const handleCloseModal = () => {
+        setDraft(null);
+        setTestMemo(null);
+        setTestMemoNo('');
+    };
+
+    const handleDraftChange = <K extends keyof RuleDraft>(field: K, value: RuleDraft[K]) => {
+        setDraft(prev => prev ? { ...prev, [field]: value } : prev);
+    };
+
+    const handleSave = async (rule: DiscountRule | null = draft ? ruleOf(draft) : null) => {
+        if (!rule || isSubmitting) return;
+        const problems = discountRuleProblems(rule);
+        if (problems.length > 0) {
+            addToast(problems.join(' '), 'error');
+            return;
+        }
+        setIsSubmitting(true);
+        let keepOpen = false;
+        try {
+            if (rule.id) {
+                await updateDiscountRule(rule);
+                addToast('Discount rule updated successfully', 'success');
+            } else {
+                await addDiscountRule(rule);
+                addToast('Discount rule added successfully', 'success');
+            }
+            await fetchData();
+        } catch (error) {
+            if (captureConflict(error, rule)) {
+                keepOpen = true;
+            } else {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to save discount rule: ${errorMessage}`, 'error');
+                keepOpen = true;
+            }
+        } finally {
+            setIsSubmitting(false);
+            if (!keepOpen) handleCloseModal();
+        }
+    };
+
+    const handleReloadConflict = async () => {
+        const latest = await reloadLatest();
+        if (latest) {
+            setDraft(draftOf(latest));
+        } else {
+            addToast('This discount rule has been deleted by someone else.', 'error');
+            handleCloseModal();
+        }
+        await fetchData();
+    };
+
+    const handleOverwriteConflict = async () => {
+        const rule = await overwriteWithMine();
+        if (rule) {
+            setDraft(draftOf(rule));
+            await handleSave(rule);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!ruleToDelete?.id || isSubmitting) return;
+        setIsSubmitting(true);
+        try {
+            await deleteDiscountRule(ruleToDelete.id);
+            addToast('Discount rule deleted successfully', 'success');
+            await fetchData();
+        } catch (error) {
+            addToast('Failed to delete discount rule', 'error');
+        } finally {
+            setIsSubmitting(false);
+            setRuleToDelete(null);
+        }
+    };
+
+    const handleTest = async () => {
+        if (!testMemoNo.trim()) return;
+        setIsTesting(true);
+        try {
+            const memo = await searchMemoByMemoNo(testMemoNo.trim());
+            setTestMemo(memo);
+            if (!memo) addToast(`Memo ${testMemoNo.trim()} not found.`, 'error');
+        } catch (error) {
+            addToast('Failed to load the memo.', 'error');
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    // How the rule in the form would treat the memo being tested, and which of the saved
+    // rules the memo form would actually apply.
+    const renderTestResult = () => {
+        if (!draft || !testMemo) return null;
+        const rule = ruleOf(draft);
+        const { discountableAmount } = billMemo({ ...testMemo, trips_discount_percentage: 0, trips_discount_flat: 0 });
+        const context = discountContextOf(testMemo, services, discountableAmount);
+        const checks = ruleChecks(rule, context);
+        const matches = checks.every(check => check.passed);
+        const winner = findDiscountRule([...rules.filter(r => r.id !== rule.id), rule], context);
+        return (
+            <div className="mt-3 text-sm">
+                <p className="mb-2">
+                    Memo {testMemo.trips_memo_no} for {testMemo.customers_name}, dated {testMemo.trip_operated_date1}:{' '}
+                    {displayRupees(discountableAmount)} can be discounted.
+                </p>
+                {checks.length === 0 ? (
+                    <p className="text-gray-600">The rule has no conditions, so it matches every memo.</p>
+                ) : (
+                    <table className="w-full mb-2">
+                        <tbody>
+                            {checks.map(check => (
+                                <tr key={check.condition} className="border-b">
+                                    <td className={`py-1 pr-4 font-semibold whitespace-nowrap ${check.passed ? 'text-green-700' : 'text-red-700'}`}>
+                                        {check.passed ? '✓' : '✗'} {check.condition}
+                                    </td>
+                                    <td className="py-1 text-gray-600">{check.detail}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                <p className="font-semibold">
+                    {matches
+                        ? `The rule matches and would take ${displayRupees(discountOf(rule, discountableAmount))} off.`
+                        : 'The rule does not match this memo.'}
+                </p>
+                <p className="text-gray-600">
+                    {!winner
+                        ? 'No rule would apply, so the memo would get no discount.'
+                        : winner === rule
+                            ? 'It is the first matching rule, so it is the one that would apply.'
+                            : `The memo would get "${winner.name}" (priority ${formatQuantity(winner.priority)}), ${describeDiscount(winner)}.`}
+                </p>
+            </div>
+        );
+    };
+
+    const customerChoices = [anyOption('Any customer'), ...customerOptions(customers)];
+    const brandChoices = [anyOption('Any brand'), ...brands.map(brand => ({ value: brand, label: brand }))];
+    const vehicleChoices = [anyOption('Any vehicle type'), ...VEHICLE_TYPES.map(type => ({ value: type, label: type }))];
+    const areaChoices = [anyOption('Any area category'), ...LOCATION_CATEGORIES.map(category => ({ value: category, label: category }))];
+
+    return (
+        <Card title="Discount Rules">
+            <div className="flex justify-between items-center mb-4">
+                <p className="text-sm text-gray-600">
+                    A new memo gets the first active rule that matches it, in priority order (lowest first). Only the
+                    packages, extra hours, extra km, fixed amount and km are discounted.
+                </p>
+                <Button onClick={() => handleOpenModal(null)}>Add New Rule</Button>
+            </div>
+            {isLoading ? (
+                <div className="flex justify-center items-center h-64">
+                    <Spinner />
+                </div>
+            ) : rules.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No discount rules. Memos get no discount unless one is entered by hand.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="bg-gray-200">
+                            <tr>
+                                {['Priority', 'Name', 'Applies to', 'Discount', 'Status', 'Actions'].map(header => (
+                                    <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rules.map(rule => (
+                                <tr key={rule.id} className={`border-b hover:bg-gray-50 ${rule.active ? '' : 'text-gray-400'}`}>
+                                    <td className="px-4 py-2">{formatQuantity(rule.priority)}</td>
+                                    <td className="px-4 py-2 font-medium">{rule.name}</td>
+                                    <td className="px-4 py-2">{describeConditions(rule)}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap">{describeDiscount(rule)}</td>
+                                    <td className="px-4 py-2">{rule.active ? 'Active' : 'Off'}</td>
+                                    <td className="px-4 py-2">
+                                        <div className="flex space-x-2">
+                                            <button onClick={() => handleOpenModal(rule)} className="text-blue-600 hover:underline">Edit</button>
+                                            <button onClick={() => setRuleToDelete(rule)} className="text-red-600 hover:underline">Delete</button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {draft && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                        <h3 className="text-lg font-bold mb-4">{draft.id ? 'Edit Discount Rule' : 'Add Discount Rule'}</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                            <Input id="name" label="Name" value={draft.name} onChange={e => handleDraftChange('name', e.target.value)} />
+                            <Input id="priority" label="Priority (lowest first)" type="number" value={draft.priority} onChange={e => handleDraftChange('priority', e.target.value)} />
+                            <Select id="active" label="Status" value={draft.active ? 'active' : 'off'} onChange={e => handleDraftChange('active', e.target.value === 'active')}
+                                options={[{ value: 'active', label: 'Active' }, { value: 'off', label: 'Off' }]} />
+                            <Select id="customer_id" label="Customer" value={draft.customer_id} onChange={e => handleDraftChange('customer_id', e.target.value)} options={customerChoices} />
+                            <Input id="customer_name_contains" label="Customer name contains" value={draft.customer_name_contains} onChange={e => handleDraftChange('customer_name_contains', e.target.value)} />
+                            <Select id="brand" label="Brand" value={draft.brand} onChange={e => handleDraftChange('brand', e.target.value)}
+                                options={draft.brand && !brands.includes(draft.brand) ? [...brandChoices, { value: draft.brand, label: draft.brand }] : brandChoices} />
+                            <Select id="vehicle_type" label="Vehicle Type" value={draft.vehicle_type} onChange={e => handleDraftChange('vehicle_type', e.target.value)} options={vehicleChoices} />
+                            <Select id="area_category" label="Area Category" value={draft.area_category} onChange={e => handleDraftChange('area_category', e.target.value)} options={areaChoices} />
+                            <Input id="valid_from" label="From (memo date)" type="date" value={draft.valid_from} onChange={e => handleDraftChange('valid_from', e.target.value)} />
+                            <Input id="valid_to" label="To (memo date)" type="date" value={draft.valid_to} onChange={e => handleDraftChange('valid_to', e.target.value)} />
+                            <Input id="minimum_amount" label="Minimum discountable amount (₹)" type="number" value={draft.minimum_amount} onChange={e => handleDraftChange('minimum_amount', e.target.value)} />
+                            <Select id="kind" label="Discount" value={draft.kind} onChange={e => handleDraftChange('kind', e.target.value as DiscountRule['kind'])} options={kindOptions} />
+                            <Input id="value" label={draft.kind === 'percent' ? 'Percentage' : 'Amount (₹)'} type="number" value={draft.value} onChange={e => handleDraftChange('value', e.target.value)} />
+                        </div>
+
+                        <div className="mt-6 border-t pt-4">
+                            <h4 className="font-semibold mb-2">Test this rule against a memo</h4>
+                            <div className="flex items-end space-x-2">
+                                <Input id="test_memo_no" label="Memo No" value={testMemoNo} onChange={e => setTestMemoNo(e.target.value)} />
+                                <Button onClick={handleTest} disabled={isTesting || !testMemoNo.trim()}>
+                                    {isTesting ? <Spinner /> : 'Test'}
+                                </Button>
+                            </div>
+                            {renderTestResult()}
+                        </div>
+
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={handleCloseModal} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button onClick={() => handleSave()} disabled={isSubmitting}>
+                                {isSubmitting ? <Spinner /> : 'Save'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {conflict && (
+                <ConflictDialog
+                    message={conflict.message}
+                    onReload={handleReloadConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onCancel={dismissConflict}
+                />
+            )}
+
+            {ruleToDelete && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+                        <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
+                        <p>Delete the rule "{ruleToDelete.name}"? Memos that already have its discount keep it. The rule will be moved to the Recycle Bin, where it can be restored.</p>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setRuleToDelete(null)} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button onClick={handleDelete} disabled={isSubmitting} className="bg-red-600 hover:bg-red-700">
+                                {isSubmitting ? <Spinner /> : 'Delete'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default DiscountRulesCRUD;
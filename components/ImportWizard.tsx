@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { previewImport, importDb } from '../services/api';
+import { ImportPreview, ImportStrategy, BackupMetadata } from '../types';
+import { useToast } from '../hooks/useToast';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+
+interface ImportWizardProps {
+    data: any;
+    fileName: string;
+    onClose: () => void;
+}
+
+const storeLabels: Record<string, string> = {
+    memos: 'Memos',
+    invoices: 'Invoices',
+    customers: 'Customers',
+    areas: 'Areas',
+    calculations: 'Calculations',
+    lookup: 'Lookup',
+    voidedInvoiceNumbers: 'Voided invoice numbers',
+    discountRules: 'Discount rules',
+    brands: 'Brands',
+    settings: 'Settings',
+    policyOverrides: 'Policy overrides',
+};
+
+const strategies: { value: ImportStrategy; label: string; description: string }[] = [
+    {
+        value: 'merge-keep-local',
+        label: 'Merge, keep local on conflict',
+        description: 'Adds new records and applies newer revisions from the file. Conflicting records keep the local copy. Nothing is removed.',
+    },
+    {
+        value: 'merge-prefer-file',
+        label: 'Merge, prefer file on conflict',
+        description: 'Adds new records and applies every changed or conflicting record from the file. Nothing is removed.',
+    },
+    {
+        value: 'replace',
+        label: 'Replace everything',
+        description: 'Makes the local data an exact copy of the file. Local-only records are removed.',
+    },
+];
+
+const MAX_LISTED_FAILURES = 50;
+
+const describeSource = (metadata: BackupMetadata): string => {
+    if (metadata.formatVersion < 2) {
+        return 'Saved by an older version of the app, without file details or a content check.';
+    }
+    const savedAt = metadata.exportedAt ? new Date(metadata.exportedAt).toLocaleString() : 'an unknown time';
+    const details = [
+        `Saved ${savedAt}`,
+        metadata.exportedBy ? `by ${metadata.exportedBy}` : '',
+        metadata.appVersion ? `with app version ${metadata.appVersion}` : '',
+        metadata.schemaVersion ? `(database schema ${metadata.schemaVersion})` : '',
+    ];
+    return details.filter(Boolean).join(' ') + '.';
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ data, fileName, onClose }) => {
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [strategy, setStrategy] = useState<ImportStrategy>('merge-keep-local');
+    const [isImporting, setIsImporting] = useState(false);
+    const { addToast } = useToast();
+
+    useEffect(() => {
+        const loadPreview = async () => {
+            try {
+                setPreview(await previewImport(data));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to read database file: ${errorMessage}`, 'error');
+                onClose();
+            }
+        };
+        loadPreview();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [data]);
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        try {
+            await importDb(data, strategy);
+            // Open screens in every tab refresh themselves from the import's change event.
+            addToast('Database loaded successfully!', 'success');
+            onClose();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to load database: ${errorMessage}`, 'error');
+            setIsImporting(false);
+        }
+    };
+
+    const isInvalid = !!preview && (preview.fileProblems.length > 0 || preview.failures.length > 0);
+
+    const headers = ['Store', 'New', 'Changed', 'Unchanged', 'Conflicting', 'Only Local'];
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center text-gray-800">
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-3xl">
+                <h3 className="text-lg font-bold mb-1">Load Database</h3>
+                <p className="text-sm text-gray-500">{fileName}</p>
+                {preview && <p className="text-sm text-gray-500 mb-4">{describeSource(preview.metadata)}</p>}
+                {!preview ? (
+                    <div className="flex justify-center items-center h-32"><Spinner /></div>
+                ) : isInvalid ? (
+                    <div className="max-h-[50vh] overflow-y-auto">
+                        <p className="text-red-600 font-semibold mb-2">This file cannot be imported.</p>
+                        {preview.fileProblems.map(problem => (
+                            <p key={problem} className="text-sm text-red-600 mb-2">{problem}</p>
+                        ))}
+                        {preview.failures.length > 0 && (
+                            <table className="min-w-full bg-white text-sm">
+                                <thead className="bg-gray-200">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left font-semibold text-gray-700">Store</th>
+                                        <th className="px-4 py-2 text-left font-semibold text-gray-700">Record</th>
+                                        <th className="px-4 py-2 text-left font-semibold text-gray-700">Problems</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                                        <tr key={`${failure.store}-${failure.index}`} className="border-b align-top">
+                                            <td className="px-4 py-2">{storeLabels[failure.store] || failure.store}</td>
+                                            <td className="px-4 py-2">{failure.key ?? `#${failure.index + 1}`}</td>
+                                            <td className="px-4 py-2">{failure.problems.join('; ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        {preview.failures.length > MAX_LISTED_FAILURES && (
+                            <p className="text-sm text-gray-500 mt-2">…and {preview.failures.length - MAX_LISTED_FAILURES} more invalid records.</p>
+                        )}
+                    </div>
+                ) : (
+                    <>
+                        <table className="min-w-full bg-white text-sm mb-6">
+                            <thead className="bg-gray-200">
+                                <tr>
+                                    {headers.map(header => (
+                                        <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {preview.stores.map(summary => (
+                                    <tr key={summary.store} className="border-b">
+                                        <td className="px-4 py-2 font-medium">{storeLabels[summary.store] || summary.store}</td>
+                                        <td className="px-4 py-2">{summary.added}</td>
+                                        <td className="px-4 py-2">{summary.changed}</td>
+                                        <td className="px-4 py-2">{summary.unchanged}</td>
+                                        <td className={`px-4 py-2 ${summary.conflicting > 0 ? 'text-red-600 font-semibold' : ''}`}>{summary.conflicting}</td>
+                                        <td className={`px-4 py-2 ${strategy === 'replace' && summary.localOnly > 0 ? 'text-red-600 font-semibold' : ''}`}>{summary.localOnly}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="space-y-3">
+                            {strategies.map(option => (
+                                <label key={option.value} className="flex items-start space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name="importStrategy"
+                                        value={option.value}
+                                        checked={strategy === option.value}
+                                        onChange={() => setStrategy(option.value)}
+                                        className="mt-1"
+                                    />
+                                    <span>
+                                        <span className="font-medium">{option.label}</span>
+                                        <span className="block text-sm text-gray-500">{option.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </>
+                )}
+                <div className="flex justify-end mt-6 space-x-3">
+                    <Button onClick={onClose} disabled={isImporting}>Cancel</Button>
+                    <Button onClick={handleImport} disabled={!preview || isInvalid || isImporting}>
+                        {isImporting ? <Spinner /> : 'Import'}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportWizard;
@@ -1,22 +1,51 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { getMemos, deleteMemo, getInvoices } from '../services/googleScriptMock';
-import { MemoData } from '../types';
+import React, { useState, useEffect } from 'react';
+import { queryMemos, getCustomers, deleteMemo, getInvoiceNumbersForMemos } from '../services/api';
+import { MemoData, MemoQuery, Customer } from '../types';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Spinner from './ui/Spinner';
 import Input from './ui/Input';
+import Select from './ui/Select';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
+import { customerOptions } from '../utils/customerOptions';
+import { displayRupees, paiseToRupees } from '../utils/money';
+import { readAllPages } from '../utils/paging';
 
 interface MemoCRUDProps {
     onEditMemo: (memoNo: string) => void;
     onDownloadMemo: (memoNo: string) => void;
 }
 
+const PAGE_SIZE = 50;
+
+const emptyFilters: MemoQuery = { search: '', fromDate: '', toDate: '' };
+
+const exportColumns = (invoiceNos: Map<string, string>): ExportColumn<MemoData>[] => [
+    { header: 'Memo No', value: memo => memo.trips_memo_no },
+    { header: 'Date', type: 'date', value: memo => memo.trip_operated_date1 },
+    { header: 'Customer Name', value: memo => memo.customers_name },
+    { header: 'Vehicle No', value: memo => memo.trips_vehicle_no },
+    { header: 'Vehicle Type', value: memo => memo.trips_vehicle_type },
+    { header: 'Total Km', type: 'number', value: memo => memo.trips_totalKm },
+    { header: 'Total Amount', type: 'currency', value: memo => paiseToRupees(memo.trips_total_amt) },
+    { header: 'Advance', type: 'currency', value: memo => paiseToRupees(memo.trips_less_advance) },
+    { header: 'Balance', type: 'currency', value: memo => paiseToRupees(memo.trips_balance) },
+    { header: 'Invoice No', value: memo => invoiceNos.get(memo.trips_memo_no) || '' },
+];
+
 const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
     const [memos, setMemos] = useState<MemoData[]>([]);
     const [invoiceMap, setInvoiceMap] = useState<Map<string, string>>(new Map());
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
-    const [searchTerm, setSearchTerm] = useState('');
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [filterInputs, setFilterInputs] = useState<MemoQuery>(emptyFilters);
+    const [filters, setFilters] = useState<MemoQuery>(emptyFilters);
+    const [customers, setCustomers] = useState<Customer[]>([]);
     const { addToast } = useToast();
 
     // Delete confirmation modal state
@@ -24,20 +53,19 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
     const [memoToDelete, setMemoToDelete] = useState<MemoData | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
 
+    const loadPage = async (cursor: string | null, limit = PAGE_SIZE) => {
+        const page = await queryMemos({ ...filters, limit, cursor });
+        const invoiceNos = await getInvoiceNumbersForMemos(page.items.map(memo => memo.trips_memo_no));
+        return { page, invoiceNos };
+    };
+
     const fetchData = async () => {
         setIsLoading(true);
         try {
-            const [memoData, invoiceData] = await Promise.all([getMemos(), getInvoices()]);
-            
-            const newInvoiceMap = new Map<string, string>();
-            invoiceData.forEach(invoice => {
-                invoice.memo_nos.forEach(memoNo => {
-                    newInvoiceMap.set(memoNo, invoice.invoice_no);
-                });
-            });
-            setInvoiceMap(newInvoiceMap);
-            
-            setMemos(memoData.sort((a, b) => b.trips_memo_no.localeCompare(a.trips_memo_no)));
+            const { page, invoiceNos } = await loadPage(null);
+            setInvoiceMap(new Map(Object.entries(invoiceNos)));
+            setMemos(page.items);
+            setNextCursor(page.nextCursor);
         } catch (error) {
             addToast('Failed to fetch memo and invoice data.', 'error');
         } finally {
@@ -45,20 +73,59 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
         }
     };
 
+    // Reloads as many memos as are shown, without the spinner, so a change elsewhere does
+    // not take the list back to its first page.
+    const refresh = async () => {
+        try {
+            const { page, invoiceNos } = await loadPage(null, Math.max(PAGE_SIZE, memos.length));
+            setInvoiceMap(new Map(Object.entries(invoiceNos)));
+            setMemos(page.items);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            addToast('Failed to refresh memos.', 'error');
+        }
+    };
+
+    const handleLoadMore = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        setIsLoadingMore(true);
+        try {
+            const { page, invoiceNos } = await loadPage(nextCursor);
+            setInvoiceMap(prev => new Map([...prev, ...Object.entries(invoiceNos)]));
+            setMemos(prev => [...prev, ...page.items]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            addToast('Failed to load more memos.', 'error');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
     useEffect(() => {
         fetchData();
         // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [filters]);
+
+    useEffect(() => {
+        getCustomers().then(setCustomers).catch(() => addToast('Failed to fetch customers.', 'error'));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    const filteredData = useMemo(() => {
-        if (!searchTerm) {
-            return memos;
+    useDataChanges(['memos', 'invoices'], refresh);
+
+    // Exports every memo matching the filters, not only the pages loaded.
+    const handleExport = async (format: ExportFormat) => {
+        setIsExporting(true);
+        try {
+            const allMemos = await readAllPages(cursor => queryMemos({ ...filters, cursor }));
+            const allInvoiceNos = new Map(Object.entries(await getInvoiceNumbersForMemos(allMemos.map(memo => memo.trips_memo_no))));
+            exportTable(format, 'Memos', exportColumns(allInvoiceNos), allMemos);
+        } catch (error) {
+            addToast('Failed to export memos.', 'error');
+        } finally {
+            setIsExporting(false);
         }
-        return memos.filter(memo =>
-            memo.trips_memo_no.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            memo.customers_name.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-    }, [memos, searchTerm]);
+    };
 
     const openDeleteConfirmation = (memo: MemoData) => {
         setMemoToDelete(memo);
@@ -76,9 +143,10 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
             try {
                 await deleteMemo(memoToDelete.trips_memo_no);
                 addToast('Memo deleted successfully', 'success');
-                await fetchData();
+                await refresh();
             } catch (error) {
-                addToast('Failed to delete memo', 'error');
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to delete memo: ${errorMessage}`, 'error');
             } finally {
                 setIsSubmitting(false);
                 closeDeleteConfirmation();
@@ -90,16 +158,42 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
 
     return (
         <Card title="Manage Memos">
-            <div className="flex justify-between items-center mb-4">
+            <form
+                className="flex flex-wrap items-end gap-4 mb-4"
+                onSubmit={(e) => { e.preventDefault(); setFilters({ ...filterInputs }); }}
+            >
                 <Input
                     id="search"
-                    label=""
+                    label="Search"
                     placeholder="Search by Memo No or Customer..."
-                    value={searchTerm}
-                    onChange={e => setSearchTerm(e.target.value)}
-                    className="w-1/3"
+                    value={filterInputs.search || ''}
+                    onChange={e => setFilterInputs(prev => ({ ...prev, search: e.target.value }))}
+                />
+                <Select
+                    id="filterCustomer"
+                    label="Customer"
+                    value={filterInputs.customerId ?? ''}
+                    onChange={e => setFilterInputs(prev => ({ ...prev, customerId: e.target.value ? Number(e.target.value) : undefined }))}
+                    options={[{ value: '', label: 'All customers' }, ...customerOptions(customers)]}
+                />
+                <Input
+                    id="filterFromDate"
+                    label="From"
+                    type="date"
+                    value={filterInputs.fromDate || ''}
+                    onChange={e => setFilterInputs(prev => ({ ...prev, fromDate: e.target.value }))}
                 />
-            </div>
+                <Input
+                    id="filterToDate"
+                    label="To"
+                    type="date"
+                    value={filterInputs.toDate || ''}
+                    onChange={e => setFilterInputs(prev => ({ ...prev, toDate: e.target.value }))}
+                />
+                <Button type="submit">Apply Filters</Button>
+                <Button type="button" onClick={() => { setFilterInputs(emptyFilters); setFilters(emptyFilters); }} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Clear</Button>
+                <ExportButtons onExport={handleExport} disabled={isLoading || isExporting || memos.length === 0} />
+            </form>
             {isLoading ? (
                 <div className="flex justify-center items-center h-64">
                     <Spinner />
@@ -115,7 +209,7 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
                             </tr>
                         </thead>
                         <tbody>
-                            {filteredData.map((memo) => {
+                            {memos.map((memo) => {
                                 const invoiceNo = invoiceMap.get(memo.trips_memo_no);
                                 const isInvoiced = !!invoiceNo;
 
@@ -125,7 +219,7 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
                                     <td className="px-4 py-2">{memo.trip_operated_date1}</td>
                                     <td className="px-4 py-2">{memo.customers_name}</td>
                                     <td className="px-4 py-2">{memo.trips_vehicle_no}</td>
-                                    <td className="px-4 py-2 text-right">{parseFloat(memo.trips_balance).toLocaleString('en-IN', { style: 'currency', currency: 'INR' })}</td>
+                                    <td className="px-4 py-2 text-right">{displayRupees(memo.trips_balance)}</td>
                                     <td className="px-4 py-2">
                                         {isInvoiced ? (
                                             <span className="px-2 py-1 text-xs font-semibold text-green-800 bg-green-100 rounded-full">
@@ -167,6 +261,13 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
                             )})}
                         </tbody>
                     </table>
+                    {nextCursor && (
+                        <div className="flex justify-center py-4">
+                            <Button onClick={handleLoadMore} disabled={isLoadingMore}>
+                                {isLoadingMore ? <Spinner /> : 'Load More'}
+                            </Button>
+                        </div>
+                    )}
                 </div>
             )}
             
@@ -174,7 +275,7 @@ const MemoCRUD: React.FC<MemoCRUDProps> = ({ onEditMemo, onDownloadMemo }) => {
                  <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
                     <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
                         <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
-                        <p>Are you sure you want to delete memo <strong>{memoToDelete.trips_memo_no}</strong> for <strong>{memoToDelete.customers_name}</strong>? This action cannot be undone.</p>
+                        <p>Are you sure you want to delete memo <strong>{memoToDelete.trips_memo_no}</strong> for <strong>{memoToDelete.customers_name}</strong>? It will be moved to the Recycle Bin, where it can be restored.</p>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={closeDeleteConfirmation} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
                             <Button onClick={handleDelete} className="bg-red-600 hover:bg-red-700" disabled={isSubmitting}>
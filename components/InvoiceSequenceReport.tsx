@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { getInvoiceSequenceReport } from '../services/api';
+import { InvoiceSequenceGap, InvoiceSequenceReport as SequenceReport } from '../types';
+import { useToast } from '../hooks/useToast';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
+
+interface InvoiceSequenceReportProps {
+    onClose: () => void;
+}
+
+type GapRow = InvoiceSequenceGap & { series: string };
+
+const gapLabels: Record<InvoiceSequenceGap['status'], string> = {
+    cancelled: 'Cancelled',
+    deleted: 'Deleted',
+    discarded: 'Discarded by an import or rollback',
+    missing: 'Missing, no record',
+};
+
+const exportColumns: ExportColumn<GapRow>[] = [
+    { header: 'Series', value: gap => gap.series },
+    { header: 'Invoice No', value: gap => gap.invoice_no },
+    { header: 'Status', value: gap => gapLabels[gap.status] },
+    { header: 'Invoice Date', type: 'date', value: gap => gap.voided?.invoice_date || '' },
+    { header: 'Customer Name', value: gap => gap.voided?.customer_name || '' },
+    { header: 'Voided At', value: gap => gap.voided ? new Date(gap.voided.voided_at).toLocaleString() : '' },
+    { header: 'Voided By', value: gap => gap.voided?.voided_by || '' },
+];
+
+const InvoiceSequenceReport: React.FC<InvoiceSequenceReportProps> = ({ onClose }) => {
+    const [reports, setReports] = useState<SequenceReport[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { addToast } = useToast();
+
+    useEffect(() => {
+        const fetchData = async () => {
+            setIsLoading(true);
+            try {
+                setReports(await getInvoiceSequenceReport());
+            } catch (error) {
+                addToast('Failed to build the sequence gap report.', 'error');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchData();
+    }, [addToast]);
+
+    const gapRows: GapRow[] = reports.flatMap(report => report.gaps.map(gap => ({ ...gap, series: report.series })));
+    const handleExport = (format: ExportFormat) => exportTable(format, 'Invoice Sequence Gaps', exportColumns, gapRows);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center text-gray-800">
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl">
+                <h3 className="text-lg font-bold mb-2">Invoice Sequence Gap Report</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                    Every invoice number not in use, per numbering series. Numbers in an older format are not checked.
+                </p>
+                {isLoading ? (
+                    <div className="flex justify-center items-center h-32"><Spinner /></div>
+                ) : reports.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No invoices have been numbered in the current format yet.</p>
+                ) : (
+                    <div className="space-y-6 max-h-[60vh] overflow-y-auto pr-2">
+                        {reports.map(report => (
+                            <div key={report.series}>
+                                <h4 className="font-semibold text-gray-700">
+                                    {report.series}: {report.first} to {report.last}, {report.issued} numbers issued,{' '}
+                                    <span className={report.gaps.length > 0 ? 'text-red-600' : 'text-green-700'}>
+                                        {report.gaps.length === 0 ? 'no gaps' : `${report.gaps.length} not in use`}
+                                    </span>
+                                </h4>
+                                {report.gaps.length > 0 && (
+                                    <table className="min-w-full bg-white text-sm mt-2">
+                                        <thead className="bg-gray-200">
+                                            <tr>
+                                                {['Invoice No', 'Status', 'Invoice Date', 'Customer', 'Voided'].map(header => (
+                                                    <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {report.gaps.map(gap => (
+                                                <tr key={gap.invoice_no} className="border-b">
+                                                    <td className="px-4 py-2 font-medium">{gap.invoice_no}</td>
+                                                    <td className={`px-4 py-2 ${gap.status === 'missing' ? 'text-red-600 font-semibold' : ''}`}>{gapLabels[gap.status]}</td>
+                                                    <td className="px-4 py-2">{gap.voided?.invoice_date}</td>
+                                                    <td className="px-4 py-2">{gap.voided?.customer_name}</td>
+                                                    <td className="px-4 py-2">
+                                                        {gap.voided && `${new Date(gap.voided.voided_at).toLocaleString()} by ${gap.voided.voided_by}`}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="flex justify-end mt-6 space-x-3">
+                    <ExportButtons onExport={handleExport} disabled={isLoading || gapRows.length === 0} />
+                    <Button onClick={onClose}>Close</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InvoiceSequenceReport;
@@ -1,11 +1,18 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { getInvoices, deleteInvoice } from '../services/googleScriptMock';
-import { Invoice, InvoiceStatus } from '../types';
+import React, { useState, useEffect } from 'react';
+import { queryInvoices, getCustomers, deleteInvoice } from '../services/api';
+import { Invoice, InvoiceQuery, InvoiceStatus, Customer } from '../types';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Spinner from './ui/Spinner';
 import Input from './ui/Input';
+import Select from './ui/Select';
+import ExportButtons from './ui/ExportButtons';
+import InvoiceSequenceReport from './InvoiceSequenceReport';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
+import { customerOptions } from '../utils/customerOptions';
+import { readAllPages } from '../utils/paging';
 
 interface InvoiceCRUDProps {
     onEditInvoice: (invoiceId: number) => void;
@@ -13,15 +20,31 @@ interface InvoiceCRUDProps {
     onDownloadInvoice: (invoiceId: number) => void;
 }
 
+const PAGE_SIZE = 50;
+
+const emptyFilters: InvoiceQuery = { search: '', fromDate: '', toDate: '' };
+
 const getStatusStyles = (status: InvoiceStatus) => {
     switch (status) {
         case 'Paid': return 'bg-green-100 text-green-800 border-green-300';
         case 'Finalized': return 'bg-blue-100 text-blue-800 border-blue-300';
         case 'Draft': return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+        case 'Cancelled': return 'bg-red-100 text-red-800 border-red-300';
         default: return 'bg-gray-100 text-gray-800 border-gray-300';
     }
 };
 
+const exportColumns: ExportColumn<Invoice>[] = [
+    { header: 'Invoice No', value: invoice => invoice.invoice_no },
+    { header: 'Invoice Date', type: 'date', value: invoice => invoice.invoice_date },
+    { header: 'Customer Name', value: invoice => invoice.customer_name },
+    { header: 'Status', value: invoice => invoice.status },
+    { header: 'Memo Nos', value: invoice => invoice.memo_nos.join(', ') },
+    { header: 'Total Amount', type: 'currency', value: invoice => invoice.total_amount },
+    { header: 'Amount Paid', type: 'currency', value: invoice => invoice.amount_paid },
+    { header: 'Balance', type: 'currency', value: invoice => invoice.balance },
+];
+
 const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" /></svg>;
 const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
 const DownloadIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>;
@@ -29,20 +52,30 @@ const DownloadIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-
 
 const InvoiceCRUD: React.FC<InvoiceCRUDProps> = ({ onEditInvoice, onCreateInvoice, onDownloadInvoice }) => {
     const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
-    const [searchTerm, setSearchTerm] = useState('');
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [filterInputs, setFilterInputs] = useState<InvoiceQuery>(emptyFilters);
+    const [filters, setFilters] = useState<InvoiceQuery>(emptyFilters);
+    const [customers, setCustomers] = useState<Customer[]>([]);
     const { addToast } = useToast();
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     // Modal state
     const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
     const [invoiceToDelete, setInvoiceToDelete] = useState<Invoice | null>(null);
+    const [isSequenceReportOpen, setIsSequenceReportOpen] = useState(false);
+
+    const loadPage = (cursor: string | null, limit = PAGE_SIZE) =>
+        queryInvoices({ ...filters, limit, cursor });
 
     const fetchData = async () => {
         setIsLoading(true);
         try {
-            const data = await getInvoices();
-            setInvoices(data.sort((a, b) => b.invoice_no.localeCompare(a.invoice_no)));
+            const page = await loadPage(null);
+            setInvoices(page.items);
+            setNextCursor(page.nextCursor);
         } catch (error) {
             addToast('Failed to fetch invoices.', 'error');
         } finally {
@@ -50,20 +83,55 @@ const InvoiceCRUD: React.FC<InvoiceCRUDProps> = ({ onEditInvoice, onCreateInvoic
         }
     };
 
+    // Reloads as many invoices as are shown, without the spinner, so a change elsewhere
+    // does not take the list back to its first page.
+    const refresh = async () => {
+        try {
+            const page = await loadPage(null, Math.max(PAGE_SIZE, invoices.length));
+            setInvoices(page.items);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            addToast('Failed to refresh invoices.', 'error');
+        }
+    };
+
+    const handleLoadMore = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        setIsLoadingMore(true);
+        try {
+            const page = await loadPage(nextCursor);
+            setInvoices(prev => [...prev, ...page.items]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            addToast('Failed to load more invoices.', 'error');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
     useEffect(() => {
         fetchData();
         // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [filters]);
+
+    useEffect(() => {
+        getCustomers().then(setCustomers).catch(() => addToast('Failed to fetch customers.', 'error'));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    const filteredData = useMemo(() => {
-        if (!searchTerm) {
-            return invoices;
+    useDataChanges(['invoices'], refresh);
+
+    // Exports every invoice matching the filters, not only the pages loaded.
+    const handleExport = async (format: ExportFormat) => {
+        setIsExporting(true);
+        try {
+            exportTable(format, 'Invoices', exportColumns, await readAllPages(cursor => queryInvoices({ ...filters, cursor })));
+        } catch (error) {
+            addToast('Failed to export invoices.', 'error');
+        } finally {
+            setIsExporting(false);
         }
-        return invoices.filter(invoice =>
-            invoice.invoice_no.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            invoice.customer_name.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-    }, [invoices, searchTerm]);
+    };
 
     const openDeleteConfirmation = (invoice: Invoice) => {
         setInvoiceToDelete(invoice);
@@ -81,7 +149,7 @@ const InvoiceCRUD: React.FC<InvoiceCRUDProps> = ({ onEditInvoice, onCreateInvoic
             try {
                 await deleteInvoice(invoiceToDelete.id);
                 addToast('Invoice deleted successfully', 'success');
-                await fetchData();
+                await refresh();
             } catch (error) {
                 addToast('Failed to delete invoice', 'error');
             } finally {
@@ -93,24 +161,54 @@ const InvoiceCRUD: React.FC<InvoiceCRUDProps> = ({ onEditInvoice, onCreateInvoic
 
     return (
         <Card title="Manage Invoices">
-            <div className="flex justify-between items-center mb-6">
-                <div className="w-full md:w-1/3">
+            <div className="flex justify-between items-end mb-6 gap-4">
+                <form
+                    className="flex flex-wrap items-end gap-4"
+                    onSubmit={(e) => { e.preventDefault(); setFilters({ ...filterInputs }); }}
+                >
                     <Input
                         id="searchInvoices"
-                        label=""
+                        label="Search"
                         placeholder="Search by Invoice No or Customer..."
-                        value={searchTerm}
-                        onChange={e => setSearchTerm(e.target.value)}
+                        value={filterInputs.search || ''}
+                        onChange={e => setFilterInputs(prev => ({ ...prev, search: e.target.value }))}
+                    />
+                    <Select
+                        id="filterInvoiceCustomer"
+                        label="Customer"
+                        value={filterInputs.customerId ?? ''}
+                        onChange={e => setFilterInputs(prev => ({ ...prev, customerId: e.target.value ? Number(e.target.value) : undefined }))}
+                        options={[{ value: '', label: 'All customers' }, ...customerOptions(customers)]}
                     />
+                    <Input
+                        id="filterInvoiceFromDate"
+                        label="From"
+                        type="date"
+                        value={filterInputs.fromDate || ''}
+                        onChange={e => setFilterInputs(prev => ({ ...prev, fromDate: e.target.value }))}
+                    />
+                    <Input
+                        id="filterInvoiceToDate"
+                        label="To"
+                        type="date"
+                        value={filterInputs.toDate || ''}
+                        onChange={e => setFilterInputs(prev => ({ ...prev, toDate: e.target.value }))}
+                    />
+                    <Button type="submit">Apply Filters</Button>
+                    <Button type="button" onClick={() => { setFilterInputs(emptyFilters); setFilters(emptyFilters); }} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Clear</Button>
+                </form>
+                <div className="flex space-x-2">
+                    <ExportButtons onExport={handleExport} disabled={isLoading || isExporting || invoices.length === 0} />
+                    <Button onClick={() => setIsSequenceReportOpen(true)}>Sequence Gap Report</Button>
+                    <Button onClick={onCreateInvoice}>Create New Invoice</Button>
                 </div>
-                <Button onClick={onCreateInvoice}>Create New Invoice</Button>
             </div>
             {isLoading ? (
                 <div className="flex justify-center items-center h-64"><Spinner /></div>
             ) : (
                 <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
-                    {filteredData.length > 0 ? (
-                        filteredData.map((invoice) => (
+                    {invoices.length > 0 ? (
+                        invoices.map((invoice) => (
                            <div key={invoice.id} className="bg-white rounded-lg shadow-md border border-gray-200 hover:shadow-lg transition-shadow duration-300 p-4">
                                 <div className="flex justify-between items-start">
                                     <div>
@@ -158,13 +256,20 @@ const InvoiceCRUD: React.FC<InvoiceCRUDProps> = ({ onEditInvoice, onCreateInvoic
                             <p className="text-gray-500 mt-2">Create a new invoice to get started.</p>
                         </div>
                     )}
+                    {nextCursor && (
+                        <div className="flex justify-center py-4">
+                            <Button onClick={handleLoadMore} disabled={isLoadingMore}>
+                                {isLoadingMore ? <Spinner /> : 'Load More'}
+                            </Button>
+                        </div>
+                    )}
                 </div>
             )}
             {isDeleteConfirmOpen && (
                  <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
                     <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
                         <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
-                        <p>Are you sure you want to delete invoice <strong>{invoiceToDelete?.invoice_no}</strong>? This action cannot be undone.</p>
+                        <p>Are you sure you want to delete invoice <strong>{invoiceToDelete?.invoice_no}</strong>? It will be moved to the Recycle Bin, where it can be restored. Its number is not reused and shows as deleted in the sequence gap report.</p>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={closeDeleteConfirmation} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
                             <Button onClick={handleDelete} className="bg-red-600 hover:bg-red-700" disabled={isSubmitting}>
@@ -174,6 +279,7 @@ const InvoiceCRUD: React.FC<InvoiceCRUDProps> = ({ onEditInvoice, onCreateInvoic
                     </div>
                 </div>
             )}
+            {isSequenceReportOpen && <InvoiceSequenceReport onClose={() => setIsSequenceReportOpen(false)} />}
         </Card>
     );
 };
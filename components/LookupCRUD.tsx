@@ -1,12 +1,31 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { getLookupData, addLookupRecord, updateLookupRecord, deleteLookupRecord } from '../services/googleScriptMock';
+import { getLookupData, addLookupRecord, updateLookupRecord, deleteLookupRecord } from '../services/api';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useRevisionConflict } from '../hooks/useRevisionConflict';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Spinner from './ui/Spinner';
+import ConflictDialog from './ui/ConflictDialog';
 import Input from './ui/Input';
+import SpreadsheetImportWizard, { ImportField } from './SpreadsheetImportWizard';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
 import { Lookup } from '../types';
 
+const importFields: ImportField[] = [
+    { field: 'driver_name', label: 'Driver Name', required: true, aliases: ['driver', 'name'] },
+    { field: 'license_number', label: 'License Number', aliases: ['licence number', 'license', 'licence', 'dl number'] },
+    { field: 'phone', label: 'Phone', aliases: ['mobile', 'phone number', 'contact'] },
+];
+
+// Licence and phone numbers stay text so leading zeros and spacing survive.
+const exportColumns: ExportColumn<Lookup>[] = [
+    { header: 'Driver Name', value: record => record.driver_name },
+    { header: 'License Number', value: record => record.license_number },
+    { header: 'Phone', value: record => record.phone },
+];
+
 const LookupCRUD: React.FC = () => {
     const [lookupData, setLookupData] = useState<Lookup[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -17,7 +36,11 @@ const LookupCRUD: React.FC = () => {
     // Modal states
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [currentRecord, setCurrentRecord] = useState<Partial<Lookup>>({});
+    const { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict } = useRevisionConflict<Partial<Lookup>>(
+        async record => (await getLookupData()).find(r => r.id === record.id),
+    );
     const [recordToDelete, setRecordToDelete] = useState<Lookup | null>(null);
 
     const headers: (keyof Lookup)[] = ["driver_name", "license_number", "phone"];
@@ -39,6 +62,8 @@ const LookupCRUD: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    useDataChanges(['lookup'], fetchData);
+
     const filteredData = useMemo(() => {
         if (!searchTerm) {
             return lookupData;
@@ -48,6 +73,8 @@ const LookupCRUD: React.FC = () => {
         );
     }, [lookupData, searchTerm]);
 
+    const handleExport = (format: ExportFormat) => exportTable(format, 'Drivers', exportColumns, filteredData);
+
     const handleOpenModal = (record: Lookup | null) => {
         if (record) {
             setCurrentRecord({ ...record });
@@ -62,24 +89,48 @@ const LookupCRUD: React.FC = () => {
         setCurrentRecord({});
     };
     
-    const handleSave = async () => {
+    const handleSave = async (record: Partial<Lookup> = currentRecord) => {
         if (isSubmitting) return;
         setIsSubmitting(true);
+        let keepOpen = false;
         try {
-            if (currentRecord.id) {
-                await updateLookupRecord(currentRecord as Lookup);
+            if (record.id) {
+                await updateLookupRecord(record as Lookup);
                 addToast('Lookup record updated successfully', 'success');
             } else {
-                await addLookupRecord(currentRecord as Omit<Lookup, 'id'>);
+                await addLookupRecord(record as Omit<Lookup, 'id'>);
                 addToast('Lookup record added successfully', 'success');
             }
             fetchData(); // Refresh data
         } catch (error) {
-            addToast('Failed to save lookup record', 'error');
+            if (captureConflict(error, record)) {
+                keepOpen = true;
+            } else {
+                addToast('Failed to save lookup record', 'error');
+            }
         } finally {
             setIsSubmitting(false);
+            if (!keepOpen) handleCloseModal();
+        }
+    };
+
+    const handleReloadConflict = async () => {
+        const latest = await reloadLatest();
+        if (latest) {
+            setCurrentRecord({ ...latest });
+        } else {
+            addToast('This lookup record has been deleted by someone else.', 'error');
             handleCloseModal();
         }
+        await fetchData();
+    };
+
+    const handleOverwriteConflict = async () => {
+        const record = await overwriteWithMine();
+        if (record) {
+            setCurrentRecord(record);
+            await handleSave(record);
+        }
     };
     
     const openDeleteConfirmation = (record: Lookup) => {
@@ -124,7 +175,11 @@ const LookupCRUD: React.FC = () => {
                     onChange={e => setSearchTerm(e.target.value)}
                     className="w-1/3"
                 />
-                <Button onClick={() => handleOpenModal(null)}>Add New Record</Button>
+                <div className="flex space-x-2">
+                    <ExportButtons onExport={handleExport} disabled={isLoading || filteredData.length === 0} />
+                    <Button onClick={() => setIsImportOpen(true)}>Import CSV/Excel</Button>
+                    <Button onClick={() => handleOpenModal(null)}>Add New Record</Button>
+                </div>
             </div>
             {isLoading ? (
                 <div className="flex justify-center items-center h-64">
@@ -177,7 +232,7 @@ const LookupCRUD: React.FC = () => {
                         </div>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={handleCloseModal} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
-                            <Button onClick={handleSave} disabled={isSubmitting}>
+                            <Button onClick={() => handleSave()} disabled={isSubmitting}>
                                 {isSubmitting ? <Spinner/> : 'Save'}
                             </Button>
                         </div>
@@ -185,11 +240,20 @@ const LookupCRUD: React.FC = () => {
                 </div>
             )}
             
+            {conflict && (
+                <ConflictDialog
+                    message={conflict.message}
+                    onReload={handleReloadConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onCancel={dismissConflict}
+                />
+            )}
+
              {isDeleteConfirmOpen && (
                  <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
                     <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
                         <h3 className="text-lg font-bold mb-4">Confirm Deletion</h3>
-                        <p>Are you sure you want to delete this record? This action cannot be undone.</p>
+                        <p>Are you sure you want to delete this record? It will be moved to the Recycle Bin, where it can be restored.</p>
                         <div className="flex justify-end mt-6 space-x-3">
                             <Button onClick={closeDeleteConfirmation} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
                             <Button onClick={handleDelete} className="bg-red-600 hover:bg-red-700" disabled={isSubmitting}>
@@ -200,6 +264,15 @@ const LookupCRUD: React.FC = () => {
                 </div>
             )}
 
+            {isImportOpen && (
+                <SpreadsheetImportWizard
+                    entity="lookup"
+                    title="Import Drivers"
+                    fields={importFields}
+                    onClose={() => setIsImportOpen(false)}
+                    onImported={fetchData}
+                />
+            )}
         </Card>
     );
 };
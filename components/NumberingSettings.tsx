@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { getMemoNumbering, saveMemoNumbering, generateNewMemoNumber, getInvoiceNumbering, saveInvoiceNumbering, generateNewInvoiceNumber } from '../services/api';
+import { NumberingScheme } from '../types';
+import { useToast } from '../hooks/useToast';
+import { financialYearOf, formatDocumentNumber } from '../utils/documentNumbers';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import Input from './ui/Input';
+import Select from './ui/Select';
+
+const separatorOptions = [
+    { value: '/', label: 'Slash ( / )' },
+    { value: '-', label: 'Hyphen ( - )' },
+];
+
+const resetOptions = [
+    { value: 'never', label: 'Never — one running sequence' },
+    { value: 'financial-year', label: 'Every financial year (1 April)' },
+];
+
+interface NumberingCardProps {
+    // "Memo" or "Invoice", used in the title and messages.
+    document: string;
+    description: string;
+    load: () => Promise<NumberingScheme>;
+    save: (scheme: NumberingScheme) => Promise<void>;
+    preview: () => Promise<string>;
+}
+
+const NumberingCard: React.FC<NumberingCardProps> = ({ document, description, load, save, preview }) => {
+    const [scheme, setScheme] = useState<NumberingScheme | null>(null);
+    const [nextNumber, setNextNumber] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const { addToast } = useToast();
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const [schemeData, nextNo] = await Promise.all([load(), preview()]);
+            setScheme(schemeData);
+            setNextNumber(nextNo);
+        } catch (error) {
+            addToast(`Failed to fetch ${document.toLowerCase()} numbering settings.`, 'error');
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleChange = <K extends keyof NumberingScheme>(field: K, value: NumberingScheme[K]) => {
+        setScheme(prev => {
+            if (!prev) return prev;
+            const updated = { ...prev, [field]: value };
+            // A yearly reset only makes sense when the year is part of the number.
+            if (field === 'includeFinancialYear' && !value) updated.reset = 'never';
+            return updated;
+        });
+    };
+
+    const handleSave = async () => {
+        if (!scheme || isSaving) return;
+        setIsSaving(true);
+        try {
+            await save(scheme);
+            addToast(`${document} numbering saved`, 'success');
+            setNextNumber(await preview());
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to save ${document.toLowerCase()} numbering: ${errorMessage}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading || !scheme) {
+        return <Card title={`${document} Numbering`}><div className="flex justify-center items-center h-32"><Spinner /></div></Card>;
+    }
+
+    const idPrefix = document.toLowerCase();
+    const example = formatDocumentNumber(scheme, financialYearOf(new Date().toISOString().split('T')[0]), 1);
+
+    return (
+        <Card title={`${document} Numbering`}>
+            <p className="text-sm text-gray-600 mb-4">{description}</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Input id={`${idPrefix}Prefix`} label="Prefix" value={scheme.prefix} onChange={e => handleChange('prefix', e.target.value.trim())} />
+                <Select
+                    id={`${idPrefix}Separator`}
+                    label="Separator"
+                    value={scheme.separator}
+                    onChange={e => handleChange('separator', e.target.value as NumberingScheme['separator'])}
+                    options={separatorOptions}
+                />
+                <Input id={`${idPrefix}PadWidth`} label="Number width (digits)" type="number" min="1" max="10" value={scheme.padWidth} onChange={e => handleChange('padWidth', parseInt(e.target.value, 10) || 0)} />
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={scheme.includeFinancialYear}
+                        onChange={e => handleChange('includeFinancialYear', e.target.checked)}
+                    />
+                    <span>Include the financial year (e.g. 2025-26)</span>
+                </label>
+                <Select
+                    id={`${idPrefix}Reset`}
+                    label="Restart numbering"
+                    value={scheme.reset}
+                    onChange={e => handleChange('reset', e.target.value as NumberingScheme['reset'])}
+                    options={scheme.includeFinancialYear ? resetOptions : resetOptions.slice(0, 1)}
+                />
+            </div>
+            <div className="flex justify-between items-center mt-6">
+                <p className="text-sm text-gray-600">
+                    Format: <span className="font-mono font-semibold">{example}</span>
+                    {' · '}Next {document.toLowerCase()} with the saved settings: <span className="font-mono font-semibold">{nextNumber}</span>
+                </p>
+                <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? <Spinner /> : 'Save Numbering'}
+                </Button>
+            </div>
+        </Card>
+    );
+};
+
+const NumberingSettings: React.FC = () => (
+    <div className="space-y-6">
+        <NumberingCard
+            document="Memo"
+            description="A new memo gets its number when it is first saved, from a counter shared by every open tab. The financial year is taken from the memo's date. Changing the format starts a new sequence, continuing after any memos already numbered that way."
+            load={getMemoNumbering}
+            save={saveMemoNumbering}
+            preview={generateNewMemoNumber}
+        />
+        <NumberingCard
+            document="Invoice"
+            description="A new invoice gets its number when it is first saved, and the financial year is taken from the invoice date. Numbers of deleted or cancelled invoices are never handed out again; they are listed in the sequence gap report on the invoice list."
+            load={getInvoiceNumbering}
+            save={saveInvoiceNumbering}
+            preview={generateNewInvoiceNumber}
+        />
+    </div>
+);
+
+export default NumberingSettings;
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { getRecycleBin, restoreFromRecycleBin, purgeFromRecycleBin } from '../services/api';
+import { RecycleBinEntry } from '../types';
+import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+
+const entityLabels: Record<string, string> = {
+    memos: 'Memo',
+    invoices: 'Invoice',
+    customers: 'Customer',
+    areas: 'Area',
+    calculations: 'Calculation',
+    lookup: 'Lookup',
+    discountRules: 'Discount rule',
+    brands: 'Brand',
+    policyOverrides: 'Policy override',
+};
+
+// A short human description of what was deleted, so the bin can be scanned without
+// opening each record.
+const summarize = (entry: RecycleBinEntry): string => {
+    const r = entry.record || {};
+    switch (entry.entity) {
+        case 'memos': return `${r.trips_memo_no} — ${r.customers_name} (${r.trip_operated_date1})`;
+        case 'invoices': return `${r.invoice_no} — ${r.customer_name} (${(r.memo_nos || []).length} memos)`;
+        case 'customers': return r.customers_name;
+        case 'areas': return `${r.locationArea} (${r.locationCategory})`;
+        case 'calculations': return r.products_type_category;
+        case 'lookup': return `${r.driver_name} — ${r.license_number}`;
+        case 'discountRules': return r.name;
+        case 'brands': return r.name;
+        case 'policyOverrides': return r.note || `${r.kind} (brand #${r.brand_id})`;
+        default: return String(entry.key);
+    }
+};
+
+const RecycleBin: React.FC = () => {
+    const [entries, setEntries] = useState<RecycleBinEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [entryToPurge, setEntryToPurge] = useState<RecycleBinEntry | null>(null);
+    const { addToast } = useToast();
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            setEntries(await getRecycleBin());
+        } catch (error) {
+            addToast('Failed to fetch the recycle bin.', 'error');
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useDataChanges(['memos', 'invoices', 'customers', 'areas', 'calculations', 'lookup', 'discountRules', 'brands', 'policyOverrides'], fetchData);
+
+    const handleRestore = async (entry: RecycleBinEntry) => {
+        if (busyId !== null) return;
+        setBusyId(entry.id!);
+        try {
+            await restoreFromRecycleBin(entry.id!);
+            addToast(`${entityLabels[entry.entity] || entry.entity} restored successfully`, 'success');
+            await fetchData();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(errorMessage, 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async () => {
+        if (!entryToPurge || busyId !== null) return;
+        setBusyId(entryToPurge.id!);
+        try {
+            await purgeFromRecycleBin(entryToPurge.id!);
+            addToast('Deleted permanently', 'success');
+            await fetchData();
+        } catch (error) {
+            addToast('Failed to delete permanently', 'error');
+        } finally {
+            setBusyId(null);
+            setEntryToPurge(null);
+        }
+    };
+
+    const headers = ["Type", "Record", "Deleted At", "Deleted By", "Actions"];
+
+    return (
+        <Card title="Recycle Bin">
+            {isLoading ? (
+                <div className="flex justify-center items-center h-64"><Spinner /></div>
+            ) : (
+                <div className="overflow-x-auto max-h-[70vh]">
+                    <table className="min-w-full bg-white text-sm">
+                        <thead className="bg-gray-200 sticky top-0">
+                            <tr>
+                                {headers.map(header => (
+                                    <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.length === 0 && (
+                                <tr><td colSpan={headers.length} className="p-4 text-center text-gray-500">The recycle bin is empty.</td></tr>
+                            )}
+                            {entries.map(entry => (
+                                <tr key={entry.id} className="border-b hover:bg-gray-50">
+                                    <td className="px-4 py-2">{entityLabels[entry.entity] || entry.entity}</td>
+                                    <td className="px-4 py-2 font-medium">{summarize(entry)}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap">{new Date(entry.deleted_at).toLocaleString('en-IN')}</td>
+                                    <td className="px-4 py-2">{entry.deleted_by}</td>
+                                    <td className="px-4 py-2">
+                                        <div className="flex space-x-4">
+                                            <button onClick={() => handleRestore(entry)} disabled={busyId !== null} className="text-blue-600 hover:underline disabled:text-gray-400">Restore</button>
+                                            <button onClick={() => setEntryToPurge(entry)} disabled={busyId !== null} className="text-red-600 hover:underline disabled:text-gray-400">Delete Permanently</button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {entryToPurge && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+                        <h3 className="text-lg font-bold mb-4">Delete Permanently</h3>
+                        <p>Permanently delete <strong>{summarize(entryToPurge)}</strong>? This action cannot be undone.</p>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setEntryToPurge(null)} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button onClick={handlePurge} disabled={busyId !== null} className="bg-red-600 hover:bg-red-700">
+                                {busyId !== null ? <Spinner /> : 'Delete'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default RecycleBin;
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import {
+    getSnapshots,
+    takeSnapshot,
+    deleteSnapshot,
+    previewSnapshotRollback,
+    rollbackToSnapshot,
+    getSnapshotRetention,
+    saveSnapshotRetention,
+} from '../services/api';
+import { ImportPreview, SnapshotReason, SnapshotRetention, SnapshotSummary } from '../types';
+import { useToast } from '../hooks/useToast';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import Input from './ui/Input';
+
+const reasonLabels: Record<SnapshotReason, string> = {
+    'scheduled': 'Daily',
+    'manual': 'Manual',
+    'before-import': 'Before import',
+    'before-rollback': 'Before rollback',
+    'before-bulk-edit': 'Before bulk edit',
+};
+
+const storeLabels: Record<string, string> = {
+    memos: 'Memos',
+    invoices: 'Invoices',
+    customers: 'Customers',
+    areas: 'Areas',
+    calculations: 'Calculations',
+    lookup: 'Lookup',
+    voidedInvoiceNumbers: 'Voided invoice numbers',
+    discountRules: 'Discount rules',
+    brands: 'Brands',
+    settings: 'Settings',
+    policyOverrides: 'Policy overrides',
+};
+
+const describeCounts = (counts: Record<string, number>): string =>
+    Object.entries(counts).map(([store, count]) => `${count} ${(storeLabels[store] || store).toLowerCase()}`).join(', ');
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('en-IN');
+
+const Snapshots: React.FC = () => {
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+    const [retention, setRetention] = useState<SnapshotRetention | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [previewing, setPreviewing] = useState<{ snapshot: SnapshotSummary; preview: ImportPreview | null } | null>(null);
+    const [snapshotToRollBack, setSnapshotToRollBack] = useState<SnapshotSummary | null>(null);
+    const { addToast } = useToast();
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const [snapshotData, retentionData] = await Promise.all([getSnapshots(), getSnapshotRetention()]);
+            setSnapshots(snapshotData);
+            setRetention(retentionData);
+        } catch (error) {
+            addToast('Failed to fetch snapshots.', 'error');
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleTakeSnapshot = async () => {
+        if (isBusy) return;
+        setIsBusy(true);
+        try {
+            await takeSnapshot('manual');
+            addToast('Snapshot taken', 'success');
+            await fetchData();
+        } catch (error) {
+            addToast('Failed to take a snapshot', 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handlePreview = async (snapshot: SnapshotSummary) => {
+        setPreviewing({ snapshot, preview: null });
+        try {
+            const preview = await previewSnapshotRollback(snapshot.id!);
+            setPreviewing({ snapshot, preview });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(errorMessage, 'error');
+            setPreviewing(null);
+        }
+    };
+
+    const handleRollback = async () => {
+        if (!snapshotToRollBack || isBusy) return;
+        setIsBusy(true);
+        try {
+            await rollbackToSnapshot(snapshotToRollBack.id!);
+            addToast(`Rolled back to the snapshot of ${formatTime(snapshotToRollBack.taken_at)}`, 'success');
+            setPreviewing(null);
+            await fetchData();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Rollback failed: ${errorMessage}`, 'error');
+        } finally {
+            setIsBusy(false);
+            setSnapshotToRollBack(null);
+        }
+    };
+
+    const handleDelete = async (snapshot: SnapshotSummary) => {
+        if (isBusy) return;
+        setIsBusy(true);
+        try {
+            await deleteSnapshot(snapshot.id!);
+            addToast('Snapshot deleted', 'success');
+            await fetchData();
+        } catch (error) {
+            addToast('Failed to delete snapshot', 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRetentionChange = (field: keyof SnapshotRetention, value: string) => {
+        setRetention(prev => prev && ({ ...prev, [field]: parseInt(value, 10) || 0 }));
+    };
+
+    const handleSaveRetention = async () => {
+        if (!retention || isBusy) return;
+        setIsBusy(true);
+        try {
+            await saveSnapshotRetention(retention);
+            addToast('Retention settings saved', 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to save retention settings: ${errorMessage}`, 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const headers = ["Taken At", "Reason", "Taken By", "Contents", "Actions"];
+    const previewHeaders = ["Store", "Brought Back", "Reverted", "Unchanged", "Removed"];
+
+    return (
+        <div className="space-y-6">
+            <Card title="Snapshots">
+                <div className="flex justify-between items-center mb-4">
+                    <p className="text-sm text-gray-600">
+                        A snapshot of all data is taken every day and before every import or rollback.
+                    </p>
+                    <Button onClick={handleTakeSnapshot} disabled={isBusy}>Take Snapshot Now</Button>
+                </div>
+                {isLoading ? (
+                    <div className="flex justify-center items-center h-64"><Spinner /></div>
+                ) : (
+                    <div className="overflow-x-auto max-h-[60vh]">
+                        <table className="min-w-full bg-white text-sm">
+                            <thead className="bg-gray-200 sticky top-0">
+                                <tr>
+                                    {headers.map(header => (
+                                        <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {snapshots.length === 0 && (
+                                    <tr><td colSpan={headers.length} className="p-4 text-center text-gray-500">No snapshots yet.</td></tr>
+                                )}
+                                {snapshots.map(snapshot => (
+                                    <tr key={snapshot.id} className="border-b hover:bg-gray-50">
+                                        <td className="px-4 py-2 whitespace-nowrap">{formatTime(snapshot.taken_at)}</td>
+                                        <td className="px-4 py-2">{reasonLabels[snapshot.reason] || snapshot.reason}</td>
+                                        <td className="px-4 py-2">{snapshot.taken_by}</td>
+                                        <td className="px-4 py-2 text-gray-600">{describeCounts(snapshot.counts)}</td>
+                                        <td className="px-4 py-2">
+                                            <div className="flex space-x-4">
+                                                <button onClick={() => handlePreview(snapshot)} disabled={isBusy} className="text-blue-600 hover:underline disabled:text-gray-400">Preview</button>
+                                                <button onClick={() => setSnapshotToRollBack(snapshot)} disabled={isBusy} className="text-blue-600 hover:underline disabled:text-gray-400">Roll Back</button>
+                                                <button onClick={() => handleDelete(snapshot)} disabled={isBusy} className="text-red-600 hover:underline disabled:text-gray-400">Delete</button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </Card>
+
+            {retention && (
+                <Card title="Retention">
+                    <p className="text-sm text-gray-600 mb-4">
+                        Older snapshots are thinned out whenever a new one is taken. The newest snapshot is always kept.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <Input id="keepAllHours" label="Keep every snapshot for (hours)" type="number" min="0" value={retention.keepAllHours} onChange={e => handleRetentionChange('keepAllHours', e.target.value)} />
+                        <Input id="dailyDays" label="Then one per day for (days)" type="number" min="0" value={retention.dailyDays} onChange={e => handleRetentionChange('dailyDays', e.target.value)} />
+                        <Input id="weeklyWeeks" label="Then one per week for (weeks)" type="number" min="0" value={retention.weeklyWeeks} onChange={e => handleRetentionChange('weeklyWeeks', e.target.value)} />
+                    </div>
+                    <div className="flex justify-end mt-4">
+                        <Button onClick={handleSaveRetention} disabled={isBusy}>Save Retention</Button>
+                    </div>
+                </Card>
+            )}
+
+            {previewing && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-3xl">
+                        <h3 className="text-lg font-bold mb-1">Snapshot of {formatTime(previewing.snapshot.taken_at)}</h3>
+                        <p className="text-sm text-gray-500 mb-4">What rolling back to this snapshot would change in the current data.</p>
+                        {!previewing.preview ? (
+                            <div className="flex justify-center items-center h-32"><Spinner /></div>
+                        ) : (
+                            <table className="min-w-full bg-white text-sm">
+                                <thead className="bg-gray-200">
+                                    <tr>
+                                        {previewHeaders.map(header => (
+                                            <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {previewing.preview.stores.map(summary => (
+                                        <tr key={summary.store} className="border-b">
+                                            <td className="px-4 py-2 font-medium">{storeLabels[summary.store] || summary.store}</td>
+                                            <td className="px-4 py-2">{summary.added}</td>
+                                            <td className="px-4 py-2">{summary.changed + summary.conflicting}</td>
+                                            <td className="px-4 py-2">{summary.unchanged}</td>
+                                            <td className={`px-4 py-2 ${summary.localOnly > 0 ? 'text-red-600 font-semibold' : ''}`}>{summary.localOnly}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setPreviewing(null)}>Close</Button>
+                            <Button onClick={() => setSnapshotToRollBack(previewing.snapshot)} disabled={!previewing.preview || isBusy}>Roll Back</Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {snapshotToRollBack && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+                        <h3 className="text-lg font-bold mb-4">Confirm Rollback</h3>
+                        <p>
+                            Replace all current data with the snapshot of <strong>{formatTime(snapshotToRollBack.taken_at)}</strong>?
+                            A snapshot of the current data is taken first, so the rollback can itself be undone.
+                        </p>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setSnapshotToRollBack(null)}>Cancel</Button>
+                            <Button onClick={handleRollback} disabled={isBusy}>
+                                {isBusy ? <Spinner /> : 'Roll Back'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Snapshots;
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { importMasterData } from '../services/api';
+import { MasterDataEntity, MasterDataImportRow, MasterDataImportReport, DuplicateHandling } from '../types';
+import { useToast } from '../hooks/useToast';
+import { parseCsv } from '../utils/csv';
+import { readXlsx } from '../utils/xlsx';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+
+export interface ImportField {
+    field: string;
+    label: string;
+    required?: boolean;
+    // Other column headings that mean this field, compared case-insensitively.
+    aliases?: string[];
+}
+
+interface SpreadsheetImportWizardProps {
+    entity: MasterDataEntity;
+    title: string;
+    fields: ImportField[];
+    onClose: () => void;
+    // Called after rows were written, so the screen can reload its list.
+    onImported: () => void;
+}
+
+interface SheetData {
+    fileName: string;
+    headers: string[];
+    // Data rows with their row number in the file; blank rows are left out.
+    rows: { row: number; cells: string[] }[];
+}
+
+type Step = 'file' | 'map' | 'preview' | 'done';
+
+const NOT_MAPPED = -1;
+const MAX_LISTED_ROWS = 200;
+
+const statusLabels: Record<string, string> = {
+    new: 'New',
+    duplicate: 'Duplicate',
+    invalid: 'Invalid',
+};
+
+const actionLabels: Record<string, string> = {
+    add: 'Add',
+    update: 'Update',
+    skip: 'Skip',
+};
+
+const normalizeHeading = (value: string) => value.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+
+const readSheet = async (file: File): Promise<SheetData> => {
+    const table = /\.xlsx$/i.test(file.name)
+        ? await readXlsx(await file.arrayBuffer())
+        : parseCsv(await file.text());
+    const headerIndex = table.findIndex(row => row.some(cell => cell.trim() !== ''));
+    if (headerIndex === NOT_MAPPED) {
+        throw new Error("The file is empty.");
+    }
+    const rows = table
+        .map((cells, index) => ({ row: index + 1, cells }))
+        .slice(headerIndex + 1)
+        .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+    return { fileName: file.name, headers: table[headerIndex].map(header => header.trim()), rows };
+};
+
+// Matches each field to the column whose heading is its name, its label or an alias.
+const guessMapping = (fields: ImportField[], headers: string[]): Record<string, number> => {
+    const normalized = headers.map(normalizeHeading);
+    const mapping: Record<string, number> = {};
+    fields.forEach(({ field, label, aliases = [] }) => {
+        const names = [field, label, ...aliases].map(normalizeHeading);
+        mapping[field] = normalized.findIndex(heading => names.includes(heading));
+    });
+    return mapping;
+};
+
+const SpreadsheetImportWizard: React.FC<SpreadsheetImportWizardProps> = ({ entity, title, fields, onClose, onImported }) => {
+    const [step, setStep] = useState<Step>('file');
+    const [sheet, setSheet] = useState<SheetData | null>(null);
+    const [mapping, setMapping] = useState<Record<string, number>>({});
+    const [duplicates, setDuplicates] = useState<DuplicateHandling>('skip');
+    const [report, setReport] = useState<MasterDataImportReport | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const { addToast } = useToast();
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        setIsWorking(true);
+        try {
+            const data = await readSheet(file);
+            setSheet(data);
+            setMapping(guessMapping(fields, data.headers));
+            setStep('map');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to read ${file.name}: ${errorMessage}`, 'error');
+        } finally {
+            setIsWorking(false);
+            event.target.value = '';
+        }
+    };
+
+    // Unmapped fields are left out, so updates keep the stored value for them.
+    const mappedRows = (): MasterDataImportRow[] => (sheet?.rows || []).map(({ row, cells }) => {
+        const record: Record<string, string> = {};
+        fields.forEach(({ field }) => {
+            if (mapping[field] !== NOT_MAPPED) record[field] = cells[mapping[field]] ?? '';
+        });
+        return { row, record };
+    });
+
+    const runImport = async (dryRun: boolean, handling: DuplicateHandling = duplicates) => {
+        setIsWorking(true);
+        try {
+            const result = await importMasterData(entity, mappedRows(), { duplicates: handling, dryRun });
+            setReport(result);
+            setStep(dryRun ? 'preview' : 'done');
+            if (!dryRun) {
+                addToast(`Imported ${result.added} new and ${result.updated} updated records.`, 'success');
+                onImported();
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Import failed: ${errorMessage}`, 'error');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleDuplicatesChange = (handling: DuplicateHandling) => {
+        setDuplicates(handling);
+        runImport(true, handling);
+    };
+
+    const missingRequired = fields.filter(({ field, required }) => required && mapping[field] === NOT_MAPPED);
+
+    const renderMapping = () => sheet && (
+        <>
+            <p className="text-sm text-gray-500 mb-4">
+                {sheet.rows.length} data rows in {sheet.fileName}. Choose the column that holds each field.
+            </p>
+            <div className="grid grid-cols-2 gap-4 max-h-[50vh] overflow-y-auto">
+                {fields.map(({ field, label, required }) => (
+                    <label key={field} className="flex flex-col text-sm">
+                        <span className="mb-1 font-medium text-gray-700">{label}{required && ' *'}</span>
+                        <select
+                            value={mapping[field]}
+                            onChange={e => setMapping(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                        >
+                            <option value={NOT_MAPPED}>— Not in file —</option>
+                            {sheet.headers.map((header, index) => (
+                                <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+            {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600 mt-4">Map a column for: {missingRequired.map(f => f.label).join(', ')}.</p>
+            )}
+        </>
+    );
+
+    const renderReport = (result: MasterDataImportReport) => {
+        const listed = step === 'done' ? result.rows.filter(row => row.status === 'invalid') : result.rows;
+        return (
+            <>
+                <p className="text-sm mb-4">
+                    {result.committed ? 'Imported' : 'Will import'}: <span className="font-semibold">{result.added}</span> new,{' '}
+                    <span className="font-semibold">{result.updated}</span> updated,{' '}
+                    <span className="font-semibold">{result.skipped}</span> duplicates skipped,{' '}
+                    <span className={result.invalid > 0 ? 'font-semibold text-red-600' : 'font-semibold'}>{result.invalid}</span> invalid rows left out.
+                </p>
+                {step === 'preview' && (
+                    <div className="flex space-x-6 text-sm mb-4">
+                        <span className="font-medium">Rows that match an existing record:</span>
+                        {(['skip', 'update'] as DuplicateHandling[]).map(handling => (
+                            <label key={handling} className="flex items-center space-x-2 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="duplicateHandling"
+                                    checked={duplicates === handling}
+                                    onChange={() => handleDuplicatesChange(handling)}
+                                    disabled={isWorking}
+                                />
+                                <span>{handling === 'skip' ? 'Skip them' : 'Update them from the file'}</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+                {listed.length > 0 && (
+                    <div className="max-h-[45vh] overflow-y-auto">
+                        <table className="min-w-full bg-white text-sm">
+                            <thead className="bg-gray-200 sticky top-0">
+                                <tr>
+                                    {['Row', 'Status', 'Action', 'Problems'].map(header => (
+                                        <th key={header} className="px-4 py-2 text-left font-semibold text-gray-700">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {listed.slice(0, MAX_LISTED_ROWS).map(row => (
+                                    <tr key={row.row} className="border-b align-top">
+                                        <td className="px-4 py-2">{row.row}</td>
+                                        <td className={`px-4 py-2 ${row.status === 'invalid' ? 'text-red-600 font-semibold' : row.status === 'duplicate' ? 'text-yellow-700' : ''}`}>
+                                            {statusLabels[row.status]}
+                                        </td>
+                                        <td className="px-4 py-2">{actionLabels[row.action]}</td>
+                                        <td className="px-4 py-2">{row.problems.join('; ')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {listed.length > MAX_LISTED_ROWS && (
+                            <p className="text-sm text-gray-500 mt-2">…and {listed.length - MAX_LISTED_ROWS} more rows.</p>
+                        )}
+                    </div>
+                )}
+            </>
+        );
+    };
+
+    const canCommit = !!report && report.added + report.updated > 0;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center text-gray-800">
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-3xl">
+                <h3 className="text-lg font-bold mb-4">{title}</h3>
+                {step === 'file' && (
+                    <div className="flex flex-col items-center justify-center h-32 space-y-3">
+                        {isWorking ? <Spinner /> : (
+                            <>
+                                <p className="text-sm text-gray-500">Choose a CSV or Excel (.xlsx) file. The first row must hold the column headings.</p>
+                                <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFileChange} />
+                            </>
+                        )}
+                    </div>
+                )}
+                {step === 'map' && renderMapping()}
+                {(step === 'preview' || step === 'done') && report && renderReport(report)}
+                <div className="flex justify-end mt-6 space-x-3">
+                    {step === 'done' ? (
+                        <Button onClick={onClose}>Close</Button>
+                    ) : (
+                        <>
+                            <Button onClick={onClose} disabled={isWorking}>Cancel</Button>
+                            {step === 'map' && (
+                                <Button onClick={() => runImport(true)} disabled={isWorking || missingRequired.length > 0}>
+                                    {isWorking ? <Spinner /> : 'Check Rows'}
+                                </Button>
+                            )}
+                            {step === 'preview' && (
+                                <>
+                                    <Button onClick={() => setStep('map')} disabled={isWorking}>Back</Button>
+                                    <Button onClick={() => runImport(false)} disabled={isWorking || !canCommit}>
+                                        {isWorking ? <Spinner /> : 'Import'}
+                                    </Button>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SpreadsheetImportWizard;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { getBrands, addCalculationRecord, updateCalculationRecord } from '../services/api';
+import { Brand, Calculation } from '../types';
+import { VEHICLE_TYPES } from '../constants';
+import { useToast } from '../hooks/useToast';
+import { RevisionConflictError } from '../services/errors';
+import { calculationsInForce } from '../utils/rateVersions';
+import { calculationKey } from '../utils/servicesCatalog';
+import { buildTariffMatrix, TariffMatrixCell, TariffMatrixField, TariffMatrixStatus, tariffMatrixFields } from '../utils/tariffMatrix';
+import Select from './ui/Select';
+
+interface TariffMatrixProps {
+    calculations: Calculation[];
+    // The date whose rates are shown and edited.
+    asOf: string;
+    onSaved: () => Promise<void>;
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const statusClasses: Record<TariffMatrixStatus, string> = {
+    'ok': '',
+    'no-row': 'bg-gray-100 text-gray-400',
+    'blank': 'bg-red-100 text-red-700',
+    'outlier': 'bg-yellow-100 text-yellow-800',
+};
+
+// A row for a combination that has none, with every rate blank.
+const emptyCalculation = (products_type_category: string): Omit<Calculation, 'id'> => ({
+    products_type_category,
+    products_minimum_hours: '',
+    products_minimum_km: '',
+    products_minimum_charges: '',
+    products_additional_hours_charges: '',
+    products_running_hours: '',
+    products_driver_bata: '',
+    products_extra_km_rate: '',
+});
+
+// A pivot of one brand's calculation rows: area categories down, vehicle types across.
+// Clicking a cell edits it; a combination with no row gets one.
+const TariffMatrix: React.FC<TariffMatrixProps> = ({ calculations, asOf, onSaved }) => {
+    const [brands, setBrands] = useState<Brand[]>([]);
+    const [brand, setBrand] = useState('');
+    const [field, setField] = useState<TariffMatrixField>('products_minimum_charges');
+    const [editing, setEditing] = useState<{ cell: TariffMatrixCell; value: string } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const { addToast } = useToast();
+
+    useEffect(() => {
+        getBrands()
+            .then(brandList => {
+                setBrands(brandList);
+                setBrand(prev => prev || brandList[0]?.name || '');
+            })
+            .catch(() => addToast('Failed to fetch brands.', 'error'));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const matrix = useMemo(
+        () => buildTariffMatrix(calculationsInForce(calculations, asOf), brand, field),
+        [calculations, asOf, brand, field],
+    );
+    const flagged = matrix.flat().filter(cell => cell.status === 'blank' || cell.status === 'outlier').length;
+
+    const handleSaveCell = async () => {
+        if (!editing || isSaving) return;
+        const { cell } = editing;
+        const value = editing.value.trim();
+        if (value === cell.value) {
+            setEditing(null);
+            return;
+        }
+        if (value && !NUMBER_PATTERN.test(value)) {
+            addToast('Enter a number.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            if (cell.calc) {
+                await updateCalculationRecord({ ...cell.calc, [field]: value });
+            } else {
+                const record = emptyCalculation(calculationKey(brand, cell.vehicle_type, cell.area_category));
+                await addCalculationRecord({ ...record, [field]: value });
+            }
+            setEditing(null);
+            await onSaved();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to save ${cell.vehicle_type} in ${cell.area_category}: ${errorMessage}`, 'error');
+            if (error instanceof RevisionConflictError) {
+                setEditing(null);
+                await onSaved();
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const describeCell = (cell: TariffMatrixCell): string =>
+        cell.status === 'no-row' ? `${brand} has no ${cell.vehicle_type} rate for ${cell.area_category}. Enter one to add it.`
+            : cell.status === 'blank' ? 'No rate entered.'
+            : cell.note || '';
+
+    return (
+        <div>
+            <div className="flex items-end space-x-4 mb-4">
+                <Select id="matrixBrand" label="Brand" value={brand} onChange={e => setBrand(e.target.value)}
+                    options={brands.map(item => ({ value: item.name, label: item.name }))} />
+                <Select id="matrixField" label="Field" value={field} onChange={e => setField(e.target.value as TariffMatrixField)}
+                    options={tariffMatrixFields.map(item => ({ value: item.field, label: item.label }))} />
+                <div className="text-sm text-gray-600 pb-2 space-x-3">
+                    <span>{flagged} cells need a look.</span>
+                    <span className="px-2 py-0.5 rounded bg-red-100 text-red-700">No rate</span>
+                    <span className="px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">Lower than an earlier area</span>
+                    <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-400">No row</span>
+                </div>
+            </div>
+            <p className="text-sm text-gray-500 mb-2">
+                Showing the rates in force on {asOf}. Editing a cell corrects that version of the rate; use Edit in the list for new rates from a date.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="min-w-full bg-white text-sm border">
+                    <thead className="bg-gray-200">
+                        <tr>
+                            <th className="px-3 py-2 text-left font-semibold text-gray-700">Area category</th>
+                            {VEHICLE_TYPES.map(vehicleType => (
+                                <th key={vehicleType} className="px-3 py-2 text-right font-semibold text-gray-700 whitespace-nowrap">{vehicleType}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {matrix.map(row => (
+                            <tr key={row[0].area_category} className="border-b">
+                                <td className="px-3 py-2 font-medium whitespace-nowrap">{row[0].area_category}</td>
+                                {row.map(cell => {
+                                    const isEditing = editing?.cell.area_category === cell.area_category && editing.cell.vehicle_type === cell.vehicle_type;
+                                    return (
+                                        <td
+                                            key={cell.vehicle_type}
+                                            title={describeCell(cell)}
+                                            className={`px-3 py-2 text-right border-l cursor-pointer ${statusClasses[cell.status]}`}
+                                            onClick={() => !isEditing && setEditing({ cell, value: cell.value })}
+                                        >
+                                            {isEditing ? (
+                                                <input
+                                                    autoFocus
+                                                    value={editing.value}
+                                                    disabled={isSaving}
+                                                    onChange={e => setEditing({ cell, value: e.target.value })}
+                                                    onBlur={handleSaveCell}
+                                                    onKeyDown={e => {
+                                                        if (e.key === 'Enter') e.currentTarget.blur();
+                                                        if (e.key === 'Escape') setEditing(null);
+                                                    }}
+                                                    className="w-20 px-1 py-0.5 border border-blue-400 rounded text-right"
+                                                />
+                                            ) : (
+                                                cell.value || (cell.status === 'no-row' ? '—' : '0')
+                                            )}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default TariffMatrix;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { getCalculations, getBrands, reviseTariffs } from '../services/api';
+import { Brand, Calculation, TariffRateField, TariffRevision as Revision, TariffRounding } from '../types';
+import { VEHICLE_TYPES, LOCATION_CATEGORIES } from '../constants';
+import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { describePeriod } from '../utils/rateVersions';
+import { previewTariffRevision, revisionDate, tariffRateFields, tariffRevisionProblems } from '../utils/tariffRevision';
+import { parseQuantity, parseRupees } from '../utils/money';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Spinner from './ui/Spinner';
+import Input from './ui/Input';
+import Select from './ui/Select';
+
+// The revision as typed into the form: the change as text, in percent or rupees.
+interface RevisionDraft {
+    brand: string;
+    vehicle_type: string;
+    area_categories: string[];
+    fields: TariffRateField[];
+    kind: Revision['kind'];
+    value: string;
+    step: string;
+    mode: TariffRounding['mode'];
+    effective_from: string;
+}
+
+const emptyDraft = (): RevisionDraft => ({
+    brand: '',
+    vehicle_type: '',
+    area_categories: [],
+    fields: ['products_minimum_charges'],
+    kind: 'percent',
+    value: '',
+    step: '100',
+    mode: 'nearest',
+    effective_from: new Date().toISOString().split('T')[0],
+});
+
+const toRevision = (draft: RevisionDraft): Revision => ({
+    brand: draft.brand || undefined,
+    vehicle_type: draft.vehicle_type || undefined,
+    area_categories: draft.area_categories,
+    fields: draft.fields,
+    kind: draft.kind,
+    value: draft.kind === 'percent' ? parseQuantity(draft.value) : parseRupees(draft.value),
+    rounding: { step: Number(draft.step), mode: draft.mode },
+    effective_from: draft.effective_from || undefined,
+});
+
+const stepOptions = [
+    { value: '1', label: 'To the paisa' },
+    { value: '100', label: 'To ₹1' },
+    { value: '500', label: 'To ₹5' },
+    { value: '1000', label: 'To ₹10' },
+];
+
+const TariffRevision: React.FC = () => {
+    const [calculations, setCalculations] = useState<Calculation[]>([]);
+    const [brands, setBrands] = useState<Brand[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+    const [draft, setDraft] = useState<RevisionDraft>(emptyDraft());
+    const { addToast } = useToast();
+
+    const fetchData = async () => {
+        setIsLoading(true);
+        try {
+            const [calculationsData, brandList] = await Promise.all([getCalculations(), getBrands()]);
+            setCalculations(calculationsData);
+            setBrands(brandList);
+        } catch (error) {
+            addToast('Failed to fetch calculation data.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useDataChanges(['calculations', 'brands'], fetchData);
+
+    const revision = toRevision(draft);
+    const rows = useMemo(() => previewTariffRevision(calculations, revision), [calculations, draft]);
+    const problems = tariffRevisionProblems(revision, rows);
+
+    const handleDraftChange = <K extends keyof RevisionDraft>(field: K, value: RevisionDraft[K]) => {
+        setDraft(prev => ({ ...prev, [field]: value }));
+    };
+
+    const toggle = <T,>(list: T[], item: T): T[] => list.includes(item) ? list.filter(other => other !== item) : [...list, item];
+
+    const handleApply = async () => {
+        if (isSubmitting) return;
+        setIsSubmitting(true);
+        try {
+            const count = await reviseTariffs(revision);
+            addToast(`Revised ${count} calculation rows. A snapshot was taken first.`, 'success');
+            setDraft(prev => ({ ...prev, value: '' }));
+            await fetchData();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addToast(`Failed to revise the rates: ${errorMessage}`, 'error');
+        } finally {
+            setIsSubmitting(false);
+            setIsConfirmOpen(false);
+        }
+    };
+
+    const chosenFields = tariffRateFields.filter(({ field }) => draft.fields.includes(field));
+
+    return (
+        <Card title="Bulk Tariff Revision">
+            <p className="text-sm text-gray-600 mb-4">
+                Changes the chosen rates of every calculation row that matches the filters. With a date, each row keeps its
+                current rates up to the day before and the revised rates start as a new version; without one, the rows are
+                corrected in place. A snapshot of the database is taken before anything is saved.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <Select id="revisionBrand" label="Brand" value={draft.brand} onChange={e => handleDraftChange('brand', e.target.value)}
+                    options={[{ value: '', label: 'Every brand' }, ...brands.map(brand => ({ value: brand.name, label: brand.name }))]} />
+                <Select id="revisionVehicleType" label="Vehicle type" value={draft.vehicle_type} onChange={e => handleDraftChange('vehicle_type', e.target.value)}
+                    options={[{ value: '', label: 'Every vehicle type' }, ...VEHICLE_TYPES.map(type => ({ value: type, label: type }))]} />
+                <Input id="revisionEffectiveFrom" label="New rates start on (blank to correct in place)" type="date" value={draft.effective_from}
+                    onChange={e => handleDraftChange('effective_from', e.target.value)} />
+            </div>
+            <div className="mb-4">
+                <p className="mb-2 font-medium text-sm text-gray-700">Area categories (none ticked means every one)</p>
+                <div className="flex flex-wrap gap-4 text-sm">
+                    {LOCATION_CATEGORIES.map(category => (
+                        <label key={category} className="flex items-center space-x-2">
+                            <input type="checkbox" checked={draft.area_categories.includes(category)}
+                                onChange={() => handleDraftChange('area_categories', toggle(draft.area_categories, category))} />
+                            <span>{category}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+            <div className="mb-4">
+                <p className="mb-2 font-medium text-sm text-gray-700">Rates to change</p>
+                <div className="flex flex-wrap gap-4 text-sm">
+                    {tariffRateFields.map(({ field, label }) => (
+                        <label key={field} className="flex items-center space-x-2">
+                            <input type="checkbox" checked={draft.fields.includes(field)}
+                                onChange={() => handleDraftChange('fields', toggle(draft.fields, field))} />
+                            <span>{label}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+                <Select id="revisionKind" label="Change by" value={draft.kind} onChange={e => handleDraftChange('kind', e.target.value as Revision['kind'])}
+                    options={[{ value: 'percent', label: 'Percentage' }, { value: 'absolute', label: 'Amount (₹)' }]} />
+                <Input id="revisionValue" label={draft.kind === 'percent' ? 'Percent (negative to reduce)' : 'Rupees (negative to reduce)'}
+                    value={draft.value} onChange={e => handleDraftChange('value', e.target.value)} />
+                <Select id="revisionStep" label="Round" value={draft.step} onChange={e => handleDraftChange('step', e.target.value)} options={stepOptions} />
+                <Select id="revisionMode" label="Rounding" value={draft.mode} onChange={e => handleDraftChange('mode', e.target.value as TariffRounding['mode'])}
+                    options={[{ value: 'nearest', label: 'Nearest' }, { value: 'up', label: 'Up' }, { value: 'down', label: 'Down' }]} />
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center items-center h-64">
+                    <Spinner />
+                </div>
+            ) : (
+                <>
+                    <div className="flex justify-between items-center mb-2">
+                        <p className="text-sm text-gray-600">
+                            {rows.length} rows in force on {revisionDate(revision)} match. Changed rates are highlighted.
+                        </p>
+                        <Button onClick={() => setIsConfirmOpen(true)} disabled={problems.length > 0 || isSubmitting}>Apply Revision</Button>
+                    </div>
+                    {problems.length > 0 && draft.value && (
+                        <ul className="mb-2 text-sm text-red-600 list-disc list-inside">
+                            {problems.map(problem => <li key={problem}>{problem}</li>)}
+                        </ul>
+                    )}
+                    <div className="overflow-x-auto max-h-[60vh]">
+                        <table className="min-w-full bg-white text-sm">
+                            <thead className="bg-gray-200 sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-700">Type Category</th>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-700">In force</th>
+                                    {chosenFields.map(({ field, label }) => (
+                                        <th key={field} className="px-4 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">{label}: before → after</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(({ before, after, problems: rowProblems }) => (
+                                    <tr key={before.id} className={`border-b ${rowProblems.length ? 'bg-red-50' : ''}`}>
+                                        <td className="px-4 py-2 whitespace-nowrap">{before.products_type_category}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap">{describePeriod(before)}</td>
+                                        {chosenFields.map(({ field }) => (
+                                            <td key={field} className="px-4 py-2 whitespace-nowrap">
+                                                {before[field] || '—'} → <span className={before[field] !== after[field] ? 'bg-yellow-100 font-semibold' : ''}>{after[field] || '—'}</span>
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+
+            {isConfirmOpen && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+                        <h3 className="text-lg font-bold mb-4">Confirm Revision</h3>
+                        <p>
+                            Revise {rows.length} calculation rows
+                            {revision.effective_from ? ` with new rates from ${revision.effective_from}` : ' in place'}? A snapshot is
+                            taken first, so the revision can be rolled back from the Snapshots page.
+                        </p>
+                        <div className="flex justify-end mt-6 space-x-3">
+                            <Button onClick={() => setIsConfirmOpen(false)} className="bg-gray-300 text-gray-800 hover:bg-gray-400">Cancel</Button>
+                            <Button onClick={handleApply} disabled={isSubmitting}>
+                                {isSubmitting ? <Spinner /> : 'Apply'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default TariffRevision;
@@ -1,25 +1,40 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { getViewAllServicesData } from '../services/googleScriptMock';
+import { getViewAllServicesData } from '../services/api';
 import { useToast } from '../hooks/useToast';
+import { useDataChanges } from '../hooks/useDataChanges';
 import Card from './ui/Card';
 import Spinner from './ui/Spinner';
 import Input from './ui/Input';
+import ExportButtons from './ui/ExportButtons';
+import { exportTable, ExportColumn, ExportFormat } from '../utils/tableExport';
+
+// Each services row is the catalog's string[]; the columns pick cells by position. The
+// table on screen shows the same columns.
+const exportColumns: ExportColumn<string[]>[] = [
+    { header: 'Location Area', value: row => row[0] },
+    { header: 'Location Category', value: row => row[1] },
+    { header: 'Vehicle Type', value: row => row[2] },
+    { header: 'Product Item', value: row => row[3] },
+    { header: 'Min Hours', type: 'number', value: row => row[4] },
+    { header: 'Min KM', type: 'number', value: row => row[5] },
+    { header: 'Min Charges', type: 'currency', value: row => row[6] },
+    { header: 'Add. Hour Charge', type: 'currency', value: row => row[7] },
+    { header: 'Running Hours', type: 'number', value: row => row[8] },
+    { header: 'Driver Bata', type: 'currency', value: row => row[9] },
+    { header: 'Extra KM Rate', type: 'currency', value: row => row[11] },
+];
 
 const ViewServices: React.FC = () => {
     const [services, setServices] = useState<string[][]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchTerm, setSearchTerm] = useState('');
+    const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
     const { addToast } = useToast();
 
-    const headers = [
-        "Location Area", "Location Category", "Vehicle Type", "Product Item",
-        "Min Hours", "Min KM", "Min Charges", "Add. Hour Charge", "Running Hours", "Driver Bata"
-    ];
-
     const fetchData = async () => {
         setIsLoading(true);
         try {
-            const data = await getViewAllServicesData();
+            const data = await getViewAllServicesData(asOf || undefined);
             setServices(data);
         } catch (error) {
             addToast('Failed to fetch services data.', 'error');
@@ -32,7 +47,9 @@ const ViewServices: React.FC = () => {
     useEffect(() => {
         fetchData();
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [asOf]);
+
+    useDataChanges(['areas', 'calculations', 'brands', 'policyOverrides'], fetchData);
 
     const filteredData = useMemo(() => {
         if (!searchTerm) return services;
@@ -41,6 +58,8 @@ const ViewServices: React.FC = () => {
         );
     }, [services, searchTerm]);
 
+    const handleExport = (format: ExportFormat) => exportTable(format, 'Services', exportColumns, filteredData);
+
     return (
         <Card title="View All Services">
             <div className="flex justify-between items-center mb-4">
@@ -52,7 +71,17 @@ const ViewServices: React.FC = () => {
                     onChange={e => setSearchTerm(e.target.value)}
                     className="w-1/3"
                 />
-                 <p className="text-sm text-gray-500">Data is generated from Areas and Calculations.</p>
+                <div className="flex items-center space-x-4">
+                    <p className="text-sm text-gray-500">Data is generated from Areas and the Calculations in force on</p>
+                    <input
+                        type="date"
+                        aria-label="Rates as of"
+                        value={asOf}
+                        onChange={e => setAsOf(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <ExportButtons onExport={handleExport} disabled={isLoading || filteredData.length === 0} />
+                </div>
             </div>
             {isLoading ? (
                 <div className="flex justify-center items-center h-64"><Spinner /></div>
@@ -61,16 +90,16 @@ const ViewServices: React.FC = () => {
                     <table className="min-w-full bg-white text-sm">
                         <thead className="bg-gray-200 sticky top-0">
                             <tr>
-                                {headers.map((header, index) => (
-                                    <th key={index} className="px-4 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">{header}</th>
+                                {exportColumns.map(column => (
+                                    <th key={column.header} className="px-4 py-2 text-left font-semibold text-gray-700 whitespace-nowrap">{column.header}</th>
                                 ))}
                             </tr>
                         </thead>
                         <tbody>
                             {filteredData.map((row, rowIndex) => (
                                 <tr key={rowIndex} className="border-b hover:bg-gray-50">
-                                    {row.map((cell, cellIndex) => (
-                                        <td key={cellIndex} className="px-4 py-2 whitespace-nowrap">{cell}</td>
+                                    {exportColumns.map(column => (
+                                        <td key={column.header} className="px-4 py-2 whitespace-nowrap">{column.value(row)}</td>
                                     ))}
                                 </tr>
                             ))}
@@ -1,20 +1,33 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { MemoData } from '../../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { MemoData, MemoFormValues, Customer, DiscountRule } from '../../types';
 import {
     generateNewMemoNumber,
+    createMemo,
     saveMemoData,
     searchMemoByMemoNo,
     getCustomers,
-    updateCustomerAddresses,
     getViewAllServicesData,
-} from '../../services/googleScriptMock';
+    getDiscountRules,
+} from '../../services/api';
 import { useToast } from '../../hooks/useToast';
+import { useDataChanges, DATABASE_ENTITY } from '../../hooks/useDataChanges';
+import { useRevisionConflict } from '../../hooks/useRevisionConflict';
+import { DataChange } from '../../services/changeFeed';
 import { numberToWords } from '../../utils/numberToWords';
 import Button from '../ui/Button';
 import Spinner from '../ui/Spinner';
 import ComboBox from '../ui/ComboBox';
+import StaleRecordNotice from '../ui/StaleRecordNotice';
+import ConflictDialog from '../ui/ConflictDialog';
+import { customerOptions } from '../../utils/customerOptions';
+import { memoFromForm, memoToForm } from '../../utils/memoValues';
+import { displayRupees, formatQuantity, paiseToRupees } from '../../utils/money';
+import { billMemo, billedMemoFields } from '../../utils/billing';
+import { applyDiscountRules } from '../../utils/discounts';
 
 const initialMemoState: MemoData = {
+    // Revision 0 until the memo is first saved.
+    revision: 0,
     trips_memo_no: '',
     trip_operated_date1: new Date().toISOString().split('T')[0],
     trip_upto_operated_date2: '',
@@ -27,39 +40,46 @@ const initialMemoState: MemoData = {
     trips_closing_time1: '',
     trips_starting_time2: '',
     trips_closing_time2: '',
-    trips_total_hours: '0',
-    trips_startingKm1: '0',
-    trips_closingKm1: '0',
-    trips_startingKm2: '0',
-    trips_closingKm2: '0',
-    trips_totalKm: '0',
+    trips_total_hours: 0,
+    trips_startingKm1: 0,
+    trips_closingKm1: 0,
+    trips_startingKm2: 0,
+    trips_closingKm2: 0,
+    trips_totalKm: 0,
     products_item: '',
-    trips_minimum_hours1: '0',
-    trips_minimum_charges1: '0',
+    trips_minimum_hours1: 0,
+    trips_minimum_km1: 0,
+    trips_minimum_charges1: 0,
     products_item2: '',
-    trips_minimum_hours2: '0',
-    trips_minimum_charges2: '0',
-    trips_extra_hours: '0',
-    trips_for_additional_hour_rate: '0',
-    trips_for_additional_hour_amt: '0',
+    trips_minimum_hours2: 0,
+    trips_minimum_km2: 0,
+    trips_minimum_charges2: 0,
+    trips_running_hours: 0,
+    trips_extra_hours: 0,
+    trips_for_additional_hour_rate: 0,
+    trips_for_additional_hour_amt: 0,
     trips_fixed_amt_desc: 'Fixed Amount',
-    trips_fixed_amt: '0',
-    trips_km: '0',
-    trips_km_rate: '0',
-    trips_Km_amt: '0',
-    trips_discount_percentage: '0',
-    trips_discount: '0',
-    trips_driver_bata_qty: '0',
-    trips_driver_bata_rate: '0',
-    trips_driver_bata_amt: '0',
-    trips_toll_amt: '0',
-    trips_permit_amt: '0',
-    trips_night_hault_amt: '0',
+    trips_fixed_amt: 0,
+    trips_km: 0,
+    trips_km_rate: 0,
+    trips_Km_amt: 0,
+    trips_extra_km: 0,
+    trips_extra_km_rate: 0,
+    trips_extra_km_amt: 0,
+    trips_discount_percentage: 0,
+    trips_discount_flat: 0,
+    trips_discount: 0,
+    trips_driver_bata_qty: 0,
+    trips_driver_bata_rate: 0,
+    trips_driver_bata_amt: 0,
+    trips_toll_amt: 0,
+    trips_permit_amt: 0,
+    trips_night_hault_amt: 0,
     trips_other_charges_desc: 'Other Charges',
-    trips_other_charges_amt: '0',
-    trips_total_amt: '0',
-    trips_less_advance: '0',
-    trips_balance: '0',
+    trips_other_charges_amt: 0,
+    trips_total_amt: 0,
+    trips_less_advance: 0,
+    trips_balance: 0,
     trips_total_amt_in_words: '',
     trips_remark: '',
 };
@@ -72,6 +92,58 @@ interface MemoFormProps {
     onPrinted?: () => void;
 }
 
+const findService = (services: string[][], productItem: string) =>
+    services.find(service => service[3] === productItem);
+
+// The memo fields the first service sets, from its row in the services catalog, or
+// cleared when it has none.
+const serviceFields = (productItem: string, service?: string[]): Partial<MemoFormValues> => {
+    if (!service) {
+        return {
+            products_item: '',
+            trips_vehicle_type: '',
+            trips_minimum_hours1: '0',
+            trips_minimum_km1: '0',
+            trips_minimum_charges1: '0',
+            trips_running_hours: '0',
+            trips_for_additional_hour_rate: '0',
+            trips_extra_km_rate: '0',
+            trips_driver_bata_rate: '0',
+        };
+    }
+    const [ , , , , minHours, minKm, minCharges, addHourCharge, runningHours, driverBata, vehicleType, extraKmRate ] = service;
+    return {
+        products_item: productItem,
+        trips_vehicle_type: vehicleType,
+        trips_minimum_hours1: minHours,
+        trips_minimum_km1: minKm || '0',
+        trips_minimum_charges1: minCharges,
+        trips_running_hours: runningHours || '0',
+        trips_for_additional_hour_rate: addHourCharge,
+        trips_extra_km_rate: extraKmRate || '0',
+        trips_driver_bata_rate: driverBata || '0',
+    };
+};
+
+// The second service only adds its package.
+const service2Fields = (productItem: string, service?: string[]): Partial<MemoFormValues> => {
+    if (!service) {
+        return {
+            products_item2: '',
+            trips_minimum_hours2: '0',
+            trips_minimum_km2: '0',
+            trips_minimum_charges2: '0',
+        };
+    }
+    const [ , , , , minHours, minKm, minCharges ] = service;
+    return {
+        products_item2: productItem,
+        trips_minimum_hours2: minHours,
+        trips_minimum_km2: minKm || '0',
+        trips_minimum_charges2: minCharges,
+    };
+};
+
 const MemoInput = (props: React.InputHTMLAttributes<HTMLInputElement>) => (
     <input {...props} className={`p-1 border border-gray-400 rounded-sm w-full text-sm font-bold read-only:bg-gray-200 disabled:bg-gray-200 ${props.className}`} />
 );
@@ -82,75 +154,39 @@ const MemoTextarea = (props: React.TextareaHTMLAttributes<HTMLTextAreaElement>)
 
 
 const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel, printOnLoad = false, onPrinted = () => {} }) => {
-    const [memoData, setMemoData] = useState<MemoData>(initialMemoState);
+    const [memoData, setMemoData] = useState<MemoFormValues>(() => memoToForm(initialMemoState));
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
-    const [customerNames, setCustomerNames] = useState<string[]>([]);
+    const [customers, setCustomers] = useState<Customer[]>([]);
     const [services, setServices] = useState<string[][]>([]);
+    const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
+    // Whether the discount comes from the discount rules. A new memo starts with the rules;
+    // a saved memo keeps the discount it was saved with until its customer, service or
+    // date changes. Typing a discount by hand turns the rules off for the memo.
+    const [autoDiscount, setAutoDiscount] = useState(!memoToLoad);
+    const [staleChange, setStaleChange] = useState<DataChange | null>(null);
+    const { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict } = useRevisionConflict<MemoData>(
+        record => searchMemoByMemoNo(record.trips_memo_no),
+    );
     const { addToast } = useToast();
 
     const calculateTotals = useCallback(() => {
         setMemoData(prev => {
-            const p = (v: string | number) => parseFloat(String(v)) || 0;
-
-            const calculateHours = (start: string, end: string) => {
-                if (!start || !end) return 0;
-                const [startH, startM] = start.split(':').map(Number);
-                const [endH, endM] = end.split(':').map(Number);
-                if (isNaN(startH) || isNaN(startM) || isNaN(endH) || isNaN(endM)) return 0;
-                let startMinutes = startH * 60 + startM;
-                let endMinutes = endH * 60 + endM;
-                if (endMinutes < startMinutes) endMinutes += 24 * 60;
-                return (endMinutes - startMinutes) / 60;
-            };
-
-            const hours1 = calculateHours(prev.trips_starting_time1, prev.trips_closing_time1);
-            const hours2 = calculateHours(prev.trips_starting_time2, prev.trips_closing_time2);
-            const totalHours = parseFloat((hours1 + hours2).toFixed(2));
-            const driverBataQty = Math.ceil(totalHours);
-
-            const totalKm = (p(prev.trips_closingKm1) - p(prev.trips_startingKm1)) + (p(prev.trips_closingKm2) - p(prev.trips_startingKm2));
-
-            const extraHours = Math.max(0, totalHours - p(prev.trips_minimum_hours1) - p(prev.trips_minimum_hours2));
-            const extraHourAmt = extraHours * p(prev.trips_for_additional_hour_rate);
-
-            const kmAmt = totalKm * p(prev.trips_km_rate);
-            const driverBataAmt = driverBataQty * p(prev.trips_driver_bata_rate);
-
-            const discountableAmount = p(prev.trips_minimum_charges1) +
-                                   p(prev.trips_minimum_charges2) +
-                                   extraHourAmt +
-                                   p(prev.trips_fixed_amt) +
-                                   kmAmt;
-
-            const nonDiscountableAmount = driverBataAmt +
-                                      p(prev.trips_toll_amt) +
-                                      p(prev.trips_permit_amt) +
-                                      p(prev.trips_night_hault_amt) +
-                                      p(prev.trips_other_charges_amt);
-
-            const discountAmt = discountableAmount * (p(prev.trips_discount_percentage) / 100);
-            
-            const totalAmt = discountableAmount + nonDiscountableAmount - discountAmt;
-            const balance = totalAmt - p(prev.trips_less_advance);
-
+            const memo = autoDiscount ? applyDiscountRules(memoFromForm(prev), discountRules, services) : memoFromForm(prev);
+            const bill = billMemo(memo);
+            const billed = billedMemoFields(bill);
+            const values = memoToForm({ ...memo, ...billed });
+            const calculated: string[] = Object.keys(billed);
+            if (autoDiscount) calculated.push('trips_discount_percentage', 'trips_discount_flat', 'discount_rule_id', 'discount_rule_name');
+            // Only the calculated fields are rewritten, so the fields being typed into keep
+            // exactly what was typed.
             return {
                 ...prev,
-                trips_total_hours: String(totalHours),
-                trips_driver_bata_qty: String(driverBataQty),
-                trips_totalKm: String(totalKm),
-                trips_km: String(totalKm),
-                trips_extra_hours: String(extraHours.toFixed(2)),
-                trips_for_additional_hour_amt: String(extraHourAmt.toFixed(0)),
-                trips_Km_amt: String(kmAmt.toFixed(2)),
-                trips_driver_bata_amt: String(driverBataAmt.toFixed(2)),
-                trips_discount: String(discountAmt.toFixed(2)),
-                trips_total_amt: String(totalAmt.toFixed(2)),
-                trips_balance: String(balance.toFixed(2)),
-                trips_total_amt_in_words: numberToWords(Math.round(totalAmt)),
+                ...Object.fromEntries(calculated.map(field => [field, values[field as keyof MemoFormValues]])),
+                trips_total_amt_in_words: numberToWords(Math.round(paiseToRupees(bill.total))),
             };
         });
-    }, []);
+    }, [discountRules, services, autoDiscount]);
 
     useEffect(() => {
         calculateTotals();
@@ -160,9 +196,12 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
         memoData.trips_closingKm1, memoData.trips_startingKm2, memoData.trips_closingKm2,
         memoData.trips_minimum_hours1, memoData.trips_minimum_hours2, memoData.trips_minimum_charges1, 
         memoData.trips_minimum_charges2, memoData.trips_for_additional_hour_rate, memoData.trips_km_rate,
+        memoData.trips_minimum_km1, memoData.trips_minimum_km2, memoData.trips_running_hours, memoData.trips_extra_km_rate,
         memoData.trips_driver_bata_rate, memoData.trips_fixed_amt,
         memoData.trips_toll_amt, memoData.trips_permit_amt, memoData.trips_night_hault_amt,
-        memoData.trips_other_charges_amt, memoData.trips_discount_percentage, memoData.trips_less_advance,
+        memoData.trips_other_charges_amt, memoData.trips_discount_percentage, memoData.trips_discount_flat,
+        memoData.trips_less_advance, memoData.customer_id, memoData.products_item, memoData.trips_vehicle_type,
+        memoData.trip_operated_date1,
     ]);
 
 
@@ -170,23 +209,24 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
         const loadInitialData = async () => {
             setIsLoading(true);
             try {
-                const customerData = await getCustomers();
-                setCustomerNames(customerData.map(c => c.customers_name));
-
-                const servicesData = await getViewAllServicesData();
-                setServices(servicesData);
+                setCustomers(await getCustomers());
+                setDiscountRules(await getDiscountRules());
 
+                // Services are priced at the rates in force on the day the trip operated.
                 if (memoToLoad) {
                     const data = await searchMemoByMemoNo(memoToLoad);
                     if (data) {
-                        setMemoData(data);
+                        setServices(await getViewAllServicesData(data.trip_operated_date1));
+                        setMemoData(memoToForm(data));
                     } else {
                         addToast(`Memo ${memoToLoad} not found.`, 'error');
                         onCancel();
                     }
                 } else {
-                    const memoNo = await generateNewMemoNumber();
-                    setMemoData(prev => ({ ...initialMemoState, trips_memo_no: memoNo, trip_operated_date1: new Date().toISOString().split('T')[0] }));
+                    const operatedDate = new Date().toISOString().split('T')[0];
+                    setServices(await getViewAllServicesData(operatedDate));
+                    const memoNo = await generateNewMemoNumber(operatedDate);
+                    setMemoData(memoToForm({ ...initialMemoState, trips_memo_no: memoNo, trip_operated_date1: operatedDate }));
                 }
             } catch (error) {
                 addToast('Failed to load initial data.', 'error');
@@ -220,115 +260,217 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
         }
     }, [isLoading, printOnLoad, onPrinted]);
     
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-        const { name, value } = e.target;
-        setMemoData(prev => ({ ...prev, [name]: value }));
+    // A new memo shows the number it would get; the number is only taken when it is
+    // saved, so keep the preview current as the date changes and other tabs save memos.
+    const refreshMemoNumber = async (operatedDate: string) => {
+        try {
+            const memoNo = await generateNewMemoNumber(operatedDate);
+            setMemoData(prev => prev.trip_operated_date1 === operatedDate ? { ...prev, trips_memo_no: memoNo } : prev);
+        } catch (error) {
+            console.error(error);
+        }
     };
 
-    const handleCustomerNameChange = async (name: string) => {
-        const newDiscount = name.toLowerCase().includes('transport') ? '10' : '0';
+    // Set when the date is typed, so that the services chosen are priced again at the rates
+    // in force on the new date. A memo loaded with a different date keeps its rates, and so
+    // does a service with no rate on the new date; the form warns about it instead.
+    const repriceOnDateChange = useRef(false);
 
-        let newAddress = { customers_address1: '', customers_address2: '' };
+    const refreshServices = async (operatedDate: string, reprice: boolean) => {
         try {
-            const addresses = await updateCustomerAddresses(name);
-            if (addresses.length > 0) {
-                newAddress = {
-                    customers_address1: addresses[0].address1,
-                    customers_address2: addresses[0].address2,
+            const servicesOnDate = await getViewAllServicesData(operatedDate || undefined);
+            setServices(servicesOnDate);
+            if (!reprice) return;
+            setMemoData(prev => {
+                if (prev.trip_operated_date1 !== operatedDate) return prev;
+                const service = findService(servicesOnDate, prev.products_item);
+                const service2 = findService(servicesOnDate, prev.products_item2);
+                return {
+                    ...prev,
+                    ...(service ? serviceFields(prev.products_item, service) : {}),
+                    ...(service2 ? service2Fields(prev.products_item2, service2) : {}),
                 };
+            });
+        } catch (error) {
+            console.error(error);
+        }
+    };
+
+    useEffect(() => {
+        if (!isLoading) {
+            refreshServices(memoData.trip_operated_date1, repriceOnDateChange.current);
+            repriceOnDateChange.current = false;
+            if (!memoToLoad) refreshMemoNumber(memoData.trip_operated_date1);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [memoData.trip_operated_date1]);
+
+    // Warn when another tab saves or deletes the memo open here.
+    useDataChanges(['memos'], change => {
+        if (!memoToLoad) {
+            refreshMemoNumber(memoData.trip_operated_date1);
+        } else if (change.entity === DATABASE_ENTITY || change.key === memoData.trips_memo_no) {
+            setStaleChange(change);
+        }
+    });
+
+    const reloadMemo = async () => {
+        try {
+            const data = await searchMemoByMemoNo(memoData.trips_memo_no);
+            if (data) {
+                setMemoData(memoToForm(data));
+                setAutoDiscount(false);
+                setStaleChange(null);
+            } else {
+                addToast(`Memo ${memoData.trips_memo_no} no longer exists.`, 'error');
             }
         } catch (error) {
-           console.error("Failed to fetch customer addresses", error);
+            addToast('Failed to reload memo.', 'error');
         }
+    };
 
+    const renderStaleNotice = () => {
+        if (!staleChange) return null;
+        const dismiss = () => setStaleChange(null);
+        const memoNo = memoData.trips_memo_no;
+        if (staleChange.entity === DATABASE_ENTITY) {
+            return <StaleRecordNotice message="The database was replaced by an import in another tab. Saving now will overwrite the imported memo." actionLabel="Reload memo" onAction={reloadMemo} onDismiss={dismiss} />;
+        }
+        if (staleChange.action === 'delete') {
+            return <StaleRecordNotice message={`Memo ${memoNo} was deleted in another tab. Saving now will re-create it.`} onDismiss={dismiss} />;
+        }
+        return <StaleRecordNotice message={`Memo ${memoNo} was changed in another tab. Saving now will overwrite those changes.`} actionLabel="Reload memo" onAction={reloadMemo} onDismiss={dismiss} />;
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        if (name === 'trips_discount_percentage' || name === 'trips_discount_flat') {
+            setAutoDiscount(false);
+            setMemoData(prev => ({ ...prev, [name]: value, discount_rule_id: undefined, discount_rule_name: undefined }));
+            return;
+        }
+        if (name === 'trip_operated_date1') {
+            setAutoDiscount(true);
+            repriceOnDateChange.current = true;
+        }
+        setMemoData(prev => ({ ...prev, [name]: value }));
+    };
+
+    // The memo is printed from this form, so it shows the customer name it was issued
+    // with, even after a rename or when it is not linked to a stored customer.
+    const customerChoices = () => {
+        const value = memoData.customer_id !== undefined ? String(memoData.customer_id) : '';
+        const options = customerOptions(customers).map(option =>
+            option.value === value ? { ...option, label: memoData.customers_name } : option);
+        return memoData.customers_name && !options.some(option => option.value === value)
+            ? [{ value, label: memoData.customers_name }, ...options]
+            : options;
+    };
+
+    const handleCustomerChange = (customerId: string) => {
+        const customer = customers.find(c => String(c.id) === customerId);
+        setAutoDiscount(true);
         setMemoData(prev => ({
             ...prev,
-            customers_name: name,
-            trips_discount_percentage: newDiscount,
-            ...newAddress
+            customer_id: customer?.id,
+            customers_name: customer?.customers_name || '',
+            customers_address1: customer?.customers_address1 || '',
+            customers_address2: customer?.customers_address2 || '',
         }));
     };
     
     const handleServiceChange = (productItem: string) => {
-        const selectedService = services.find(service => service[3] === productItem);
-
-        if (selectedService) {
-            const [ , , , , minHours, , minCharges, addHourCharge, , driverBata, vehicleType ] = selectedService;
-
-            setMemoData(prev => ({
-                ...prev,
-                products_item: productItem,
-                trips_vehicle_type: vehicleType,
-                trips_minimum_hours1: minHours,
-                trips_minimum_charges1: minCharges,
-                trips_for_additional_hour_rate: addHourCharge,
-                trips_driver_bata_rate: driverBata || '0',
-            }));
-        } else {
-             setMemoData(prev => ({
-                ...prev,
-                products_item: '',
-                trips_vehicle_type: '',
-                trips_minimum_hours1: '0',
-                trips_minimum_charges1: '0',
-                trips_for_additional_hour_rate: '0',
-                trips_driver_bata_rate: '0',
-            }));
-        }
+        setAutoDiscount(true);
+        setMemoData(prev => ({ ...prev, ...serviceFields(productItem, findService(services, productItem)) }));
     };
 
     const handleServiceChange2 = (productItem: string) => {
-        const selectedService = services.find(service => service[3] === productItem);
-
-        if (selectedService) {
-            const [ , , , , minHours, , minCharges ] = selectedService;
-
-            setMemoData(prev => ({
-                ...prev,
-                products_item2: productItem,
-                trips_minimum_hours2: minHours,
-                trips_minimum_charges2: minCharges,
-            }));
-        } else {
-             setMemoData(prev => ({
-                ...prev,
-                products_item2: '',
-                trips_minimum_hours2: '0',
-                trips_minimum_charges2: '0',
-            }));
-        }
+        setMemoData(prev => ({ ...prev, ...service2Fields(productItem, findService(services, productItem)) }));
     };
 
-    const handleSave = async () => {
+    const handleSave = async (memo: MemoData = memoFromForm(memoData)) => {
         setIsSaving(true);
         try {
-            const response = await saveMemoData(memoData);
+            if (!memoToLoad) {
+                const memoNo = await createMemo(memo);
+                addToast(`Memo ${memoNo} saved successfully!`, 'success');
+                onSaveSuccess();
+                return;
+            }
+            const response = await saveMemoData(memo);
             if (response.startsWith('SUCCESS')) {
                 addToast('Memo saved successfully!', 'success');
+                setStaleChange(null);
                 onSaveSuccess();
             } else {
                 throw new Error(response);
             }
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            addToast(`Failed to save memo: ${errorMessage}`, 'error');
+            if (!captureConflict(error, memo)) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to save memo: ${errorMessage}`, 'error');
+            }
         } finally {
             setIsSaving(false);
         }
     };
 
+    const handleReloadConflict = async () => {
+        const latest = await reloadLatest();
+        if (latest) {
+            setMemoData(memoToForm(latest));
+            setAutoDiscount(false);
+            setStaleChange(null);
+        } else {
+            addToast(`Memo ${memoData.trips_memo_no} has been deleted by someone else.`, 'error');
+        }
+    };
+
+    const handleOverwriteConflict = async () => {
+        const memo = await overwriteWithMine();
+        if (memo) {
+            setMemoData(memoToForm(memo));
+            await handleSave(memo);
+        }
+    };
+
     if (isLoading) {
         return <div className="flex justify-center items-center h-64"><Spinner /></div>;
     }
     
-    const serviceOptions = services.map((service) => ({
-        value: service[3],
-        label: `${service[0]} (${service[1]}) - ${service[2]}`
-    }));
+    // A chosen service missing from the catalog for the memo's date, e.g. after the date
+    // moved out of its rate's period or its brand was renamed. It stays chosen and listed.
+    const hasNoRateInForce = (productItem: string) => !!productItem && services.length > 0 && !findService(services, productItem);
+    const serviceOptions = [
+        ...services.map((service) => ({
+            value: service[3],
+            label: `${service[0]} (${service[1]}) - ${service[2]}`
+        })),
+        ...[...new Set([memoData.products_item, memoData.products_item2])].filter(hasNoRateInForce)
+            .map(productItem => ({ value: productItem, label: productItem })),
+    ];
+    const renderNoRateWarning = (productItem: string) => hasNoRateInForce(productItem) && (
+        <p className="text-xs text-yellow-700 mt-1 print:hidden">
+            No rate in force on this date for this service. Its rates were kept; check them or pick another service.
+        </p>
+    );
+
+    const memo = memoFromForm(memoData);
+    const bill = billMemo(memo);
+    const includedKm = formatQuantity(memo.trips_minimum_km1 + memo.trips_minimum_km2);
 
 
     return (
         <form onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+            {renderStaleNotice()}
+            {conflict && (
+                <ConflictDialog
+                    message={conflict.message}
+                    onReload={handleReloadConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onCancel={dismissConflict}
+                />
+            )}
             <div className="bg-white p-4 shadow-lg rounded-lg border border-gray-300">
                 {/* Header */}
                 <div className="flex justify-between items-center border border-gray-400 p-2">
@@ -343,7 +485,7 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                     <div className="w-1/4 space-y-1">
                         <div className="flex items-center">
                             <label className="text-xs font-bold w-28">Memo No:</label>
-                            <MemoInput name="trips_memo_no" value={memoData.trips_memo_no} readOnly />
+                            <MemoInput name="trips_memo_no" value={memoData.trips_memo_no} readOnly title={memoToLoad ? undefined : 'The next free number is assigned when the memo is saved.'} />
                         </div>
                         <div className="flex items-center">
                             <label className="text-xs font-bold w-28">Date:</label>
@@ -366,9 +508,9 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                          <div className="flex items-center">
                             <label className="text-xs font-bold w-32">Customer Name:</label>
                              <ComboBox
-                                value={memoData.customers_name}
-                                onChange={handleCustomerNameChange}
-                                options={customerNames.map(name => ({ value: name, label: name }))}
+                                value={memoData.customer_id !== undefined ? String(memoData.customer_id) : ''}
+                                onChange={handleCustomerChange}
+                                options={customerChoices()}
                                 placeholder="Type or select a customer..."
                             />
                         </div>
@@ -413,6 +555,7 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                                 options={serviceOptions}
                                 placeholder="Type or select a service..."
                             />
+                            {renderNoRateWarning(memoData.products_item)}
                         </div>
                         <div className="col-span-1 p-1 border-r border-gray-400"><MemoInput name="trips_minimum_hours1" value={memoData.trips_minimum_hours1} readOnly/></div>
                         <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput disabled/></div>
@@ -426,6 +569,7 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                                 options={serviceOptions}
                                 placeholder="Type or select a service..."
                             />
+                            {renderNoRateWarning(memoData.products_item2)}
                         </div>
                         <div className="col-span-1 p-1 border-r border-gray-400"><MemoInput name="trips_minimum_hours2" value={memoData.trips_minimum_hours2} readOnly/></div>
                         <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput disabled/></div>
@@ -436,6 +580,18 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                         <div className="col-span-1 p-1 border-r border-gray-400"><MemoInput name="trips_extra_hours" value={memoData.trips_extra_hours} readOnly/></div>
                         <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput name="trips_for_additional_hour_rate" type="number" value={memoData.trips_for_additional_hour_rate} onChange={handleChange}/></div>
                         <div className="col-span-3 p-1"><MemoInput name="trips_for_additional_hour_amt" value={memoData.trips_for_additional_hour_amt} readOnly/></div>
+                    </div>
+                     <div className="grid grid-cols-12 items-center border-b border-gray-400">
+                        <div className="col-span-6 p-1 border-r border-gray-400"><MemoInput value="Running Hours (allowed before extra hours)" readOnly/></div>
+                        <div className="col-span-1 p-1 border-r border-gray-400"><MemoInput name="trips_running_hours" value={memoData.trips_running_hours} readOnly/></div>
+                        <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput disabled/></div>
+                        <div className="col-span-3 p-1"><MemoInput disabled/></div>
+                    </div>
+                     <div className="grid grid-cols-12 items-center border-b border-gray-400">
+                        <div className="col-span-6 p-1 border-r border-gray-400"><MemoInput value={`Extra KM (over ${includedKm} km in the package)`} readOnly/></div>
+                        <div className="col-span-1 p-1 border-r border-gray-400"><MemoInput name="trips_extra_km" value={memoData.trips_extra_km} readOnly/></div>
+                        <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput name="trips_extra_km_rate" type="number" value={memoData.trips_extra_km_rate} onChange={handleChange}/></div>
+                        <div className="col-span-3 p-1"><MemoInput name="trips_extra_km_amt" value={memoData.trips_extra_km_amt} readOnly/></div>
                     </div>
                      <div className="grid grid-cols-12 items-center border-b border-gray-400">
                         <div className="col-span-6 p-1 border-r border-gray-400"><MemoInput name="trips_fixed_amt_desc" value={memoData.trips_fixed_amt_desc} onChange={handleChange}/></div>
@@ -450,9 +606,14 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                         <div className="col-span-3 p-1"><MemoInput name="trips_Km_amt" value={memoData.trips_Km_amt} readOnly/></div>
                     </div>
                      <div className="grid grid-cols-12 items-center border-b border-gray-400">
-                        <div className="col-span-6 p-1 border-r border-gray-400"><MemoInput value="Discount (%)" readOnly/></div>
+                        <div className="col-span-6 p-1 border-r border-gray-400 flex items-center space-x-1">
+                            <MemoInput value={memoData.discount_rule_name ? `Discount (%, then flat) — ${memoData.discount_rule_name}` : 'Discount (%, then flat)'} readOnly/>
+                            {!autoDiscount && (
+                                <button type="button" onClick={() => setAutoDiscount(true)} className="text-xs text-blue-600 hover:underline whitespace-nowrap print-hide">Use discount rules</button>
+                            )}
+                        </div>
                         <div className="col-span-1 p-1 border-r border-gray-400"><MemoInput name="trips_discount_percentage" type="number" value={memoData.trips_discount_percentage} onChange={handleChange}/></div>
-                        <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput disabled/></div>
+                        <div className="col-span-2 p-1 border-r border-gray-400"><MemoInput name="trips_discount_flat" type="number" value={memoData.trips_discount_flat} onChange={handleChange} title="A flat amount taken off after the percentage"/></div>
                         <div className="col-span-3 p-1"><MemoInput name="trips_discount" value={memoData.trips_discount} readOnly/></div>
                     </div>
                      <div className="grid grid-cols-12 items-center border-b border-gray-400">
@@ -522,6 +683,33 @@ const MemoForm: React.FC<MemoFormProps> = ({ memoToLoad, onSaveSuccess, onCancel
                  </div>
 
             </div>
+            <details className="mt-4 bg-white p-4 rounded-lg border border-gray-300 text-sm print-hide">
+                <summary className="font-bold cursor-pointer">How the total was calculated</summary>
+                <table className="w-full mt-2">
+                    <tbody>
+                        {bill.lines.filter(line => line.amount !== 0 || (line.kind === 'runningHours' && line.quantity)).map(line => (
+                            <tr key={line.kind} className="border-b align-top">
+                                <td className="py-1 pr-4 font-semibold whitespace-nowrap">{line.label}</td>
+                                <td className="py-1 pr-4 text-gray-600">{line.explanation}</td>
+                                <td className="py-1 text-right whitespace-nowrap">{displayRupees(line.amount)}</td>
+                            </tr>
+                        ))}
+                        <tr className="border-b align-top">
+                            <td className="py-1 pr-4 font-semibold">Discount</td>
+                            <td className="py-1 pr-4 text-gray-600">
+                                {memo.discount_rule_name ? `From the rule "${memo.discount_rule_name}": ` : autoDiscount ? 'No discount rule matches this memo. ' : 'Entered by hand. '}
+                                {bill.discountExplanation}
+                            </td>
+                            <td className="py-1 text-right whitespace-nowrap">-{displayRupees(bill.discount)}</td>
+                        </tr>
+                        <tr className="font-bold">
+                            <td className="py-1 pr-4">Total</td>
+                            <td className="py-1 pr-4 text-gray-600 font-normal">Less an advance of {displayRupees(bill.advance)}, the balance is {displayRupees(bill.balance)}.</td>
+                            <td className="py-1 text-right whitespace-nowrap">{displayRupees(bill.total)}</td>
+                        </tr>
+                    </tbody>
+                </table>
+            </details>
              <div className="flex justify-end space-x-4 mt-6 print-hide">
                 <Button type="button" onClick={() => window.print()} className="bg-green-600 hover:bg-green-700">Print</Button>
                 <Button type="button" onClick={onCancel} className="bg-gray-500 hover:bg-gray-600">Cancel</Button>
@@ -1,13 +1,22 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Invoice, MemoData, Customer, InvoiceStatus } from '../../types';
-import { getCustomers, getUninvoicedMemosForCustomer, addInvoice, updateInvoice, generateNewInvoiceNumber, getInvoiceById, getMemos } from '../../services/googleScriptMock';
+import { getCustomers, getUninvoicedMemosForCustomer, addInvoice, updateInvoice, generateNewInvoiceNumber, getInvoiceById, getMemos } from '../../services/api';
+import { InvoiceConflictError } from '../../services/errors';
 import { useToast } from '../../hooks/useToast';
+import { useDataChanges, DATABASE_ENTITY } from '../../hooks/useDataChanges';
+import { useRevisionConflict } from '../../hooks/useRevisionConflict';
+import { DataChange } from '../../services/changeFeed';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import Spinner from '../ui/Spinner';
 import Input from '../ui/Input';
 import ComboBox from '../ui/ComboBox';
 import Select from '../ui/Select';
+import StaleRecordNotice from '../ui/StaleRecordNotice';
+import { customerOptions } from '../../utils/customerOptions';
+import { displayRupees, paiseToRupees, rupeesToPaise } from '../../utils/money';
+import { calculateInvoiceTotals } from '../../utils/billing';
+import ConflictDialog from '../ui/ConflictDialog';
 
 const initialInvoiceState: Omit<Invoice, 'id'> = {
     invoice_no: '',
@@ -29,28 +38,28 @@ interface InvoiceFormProps {
 }
 
 const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSuccess, onCancel, printOnLoad = false, onPrinted = () => {} }) => {
-    const [invoice, setInvoice] = useState<Partial<Invoice & { customer_address1?: string; customer_address2?: string }>>(initialInvoiceState);
+    const [invoice, setInvoice] = useState<Partial<Invoice>>(initialInvoiceState);
     const [availableMemos, setAvailableMemos] = useState<MemoData[]>([]);
     const [allMemos, setAllMemos] = useState<Map<string, MemoData>>(new Map());
     const [customers, setCustomers] = useState<Customer[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
+    const [staleChange, setStaleChange] = useState<DataChange | null>(null);
+    // Cancelled invoices are kept for the record and can no longer be edited.
+    const [isCancelled, setIsCancelled] = useState(false);
+    const { conflict, captureConflict, overwriteWithMine, dismissConflict } = useRevisionConflict<typeof invoice>(
+        record => getInvoiceById(record.id!),
+    );
     const { addToast } = useToast();
 
     const calculateTotals = useCallback(() => {
-        const total = invoice.memo_nos?.reduce((sum, memoNo) => {
-            const memo = allMemos.get(memoNo);
-            // The invoice total is the sum of the balances from the selected memos.
-            return sum + (parseFloat(memo?.trips_balance || '0'));
-        }, 0) || 0;
-        
-        const amountPaid = invoice.amount_paid || 0;
-        const balance = total - amountPaid;
+        const memos = (invoice.memo_nos || []).map(memoNo => allMemos.get(memoNo)).filter((memo): memo is MemoData => !!memo);
+        const { total, balance } = calculateInvoiceTotals(memos, rupeesToPaise(invoice.amount_paid || 0));
 
         setInvoice(prev => ({
             ...prev,
-            total_amount: total,
-            balance: balance,
+            total_amount: paiseToRupees(total),
+            balance: paiseToRupees(balance),
         }));
     }, [invoice.memo_nos, invoice.amount_paid, allMemos]);
 
@@ -58,6 +67,10 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
         calculateTotals();
     }, [calculateTotals]);
 
+    // Invoices not yet linked to a customer record offer no memos until they are linked.
+    const memosAvailableFor = (customerId: number | undefined): Promise<MemoData[]> =>
+        customerId === undefined ? Promise.resolve([]) : getUninvoicedMemosForCustomer(customerId);
+
     useEffect(() => {
         const loadInitialData = async () => {
             setIsLoading(true);
@@ -72,20 +85,21 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
                 if (invoiceIdToLoad) {
                     const loadedInvoice = await getInvoiceById(invoiceIdToLoad);
                     if (loadedInvoice) {
-                        const customer = customersData.find(c => c.customers_name === loadedInvoice.customer_name);
+                        // Invoices saved before addresses were kept on them show the customer's current one.
+                        const customer = customersData.find(c => c.id === loadedInvoice.customer_id);
                         setInvoice({
                             ...loadedInvoice,
-                            customer_address1: customer?.customers_address1 || '',
-                            customer_address2: customer?.customers_address2 || ''
+                            customer_address1: loadedInvoice.customer_address1 ?? customer?.customers_address1 ?? '',
+                            customer_address2: loadedInvoice.customer_address2 ?? customer?.customers_address2 ?? '',
                         });
-                        const uninvoicedMemos = await getUninvoicedMemosForCustomer(loadedInvoice.customer_name);
-                        setAvailableMemos(uninvoicedMemos);
+                        setIsCancelled(loadedInvoice.status === 'Cancelled');
+                        setAvailableMemos(await memosAvailableFor(loadedInvoice.customer_id));
                     } else {
                         addToast(`Invoice not found.`, 'error');
                         onCancel();
                     }
                 } else {
-                    const newInvoiceNo = await generateNewInvoiceNumber();
+                    const newInvoiceNo = await generateNewInvoiceNumber(initialInvoiceState.invoice_date);
                     setInvoice(prev => ({ ...initialInvoiceState, invoice_no: newInvoiceNo }));
                 }
             } catch (error) {
@@ -119,25 +133,33 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
         }
     }, [isLoading, printOnLoad, onPrinted]);
 
-    const handleCustomerChange = async (customerName: string) => {
+    // New invoices are numbered per financial year, so the previewed number follows the date.
+    const handleDateChange = async (invoiceDate: string) => {
+        setInvoice(prev => ({ ...prev, invoice_date: invoiceDate }));
+        if (invoice.id || !invoiceDate) return;
+        try {
+            const invoiceNo = await generateNewInvoiceNumber(invoiceDate);
+            setInvoice(prev => prev.id || prev.invoice_date !== invoiceDate ? prev : { ...prev, invoice_no: invoiceNo });
+        } catch (error) {
+            addToast('Failed to preview the invoice number.', 'error');
+        }
+    };
+
+    const handleCustomerChange = async (customerId: string) => {
         if (invoice.id) return;
         
-        const selectedCustomer = customers.find(c => c.customers_name === customerName);
+        const selectedCustomer = customers.find(c => String(c.id) === customerId);
     
         setInvoice(prev => ({
             ...prev,
-            customer_name: customerName,
+            customer_id: selectedCustomer?.id,
+            customer_name: selectedCustomer?.customers_name || '',
             memo_nos: [],
             customer_address1: selectedCustomer?.customers_address1 || '',
             customer_address2: selectedCustomer?.customers_address2 || '',
         }));
     
-        if (customerName) {
-            const memos = await getUninvoicedMemosForCustomer(customerName);
-            setAvailableMemos(memos);
-        } else {
-            setAvailableMemos([]);
-        }
+        setAvailableMemos(await memosAvailableFor(selectedCustomer?.id));
     };
     
     const handleMemoSelection = (memoNo: string, isSelected: boolean) => {
@@ -150,28 +172,91 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
         });
     };
 
-    const handleSave = async () => {
-        if (!invoice.customer_name || !invoice.invoice_date || (invoice.memo_nos || []).length === 0) {
+    // Warn when another tab saves or deletes the invoice open here.
+    useDataChanges(['invoices'], change => {
+        if (change.entity === DATABASE_ENTITY || (invoice.id && change.key === invoice.id)) {
+            setStaleChange(change);
+        }
+    });
+
+    const reloadInvoice = async () => {
+        if (!invoice.id) return;
+        try {
+            const loadedInvoice = await getInvoiceById(invoice.id);
+            if (!loadedInvoice) {
+                addToast(`Invoice ${invoice.invoice_no} no longer exists.`, 'error');
+                return;
+            }
+            const [memosData, uninvoicedMemos] = await Promise.all([getMemos(), memosAvailableFor(loadedInvoice.customer_id)]);
+            const memosMap = new Map<string, MemoData>();
+            memosData.forEach(memo => memosMap.set(memo.trips_memo_no, memo));
+            setAllMemos(memosMap);
+            setAvailableMemos(uninvoicedMemos);
+            setInvoice(prev => ({ ...prev, ...loadedInvoice }));
+            setIsCancelled(loadedInvoice.status === 'Cancelled');
+            setStaleChange(null);
+        } catch (error) {
+            addToast('Failed to reload invoice.', 'error');
+        }
+    };
+
+    const renderStaleNotice = () => {
+        if (!staleChange) return null;
+        const dismiss = () => setStaleChange(null);
+        if (staleChange.entity === DATABASE_ENTITY) {
+            return <StaleRecordNotice message="The database was replaced by an import in another tab. Saving now will overwrite the imported invoice." actionLabel="Reload invoice" onAction={invoice.id ? reloadInvoice : undefined} onDismiss={dismiss} />;
+        }
+        if (staleChange.action === 'delete') {
+            return <StaleRecordNotice message={`Invoice ${invoice.invoice_no} was deleted in another tab. Saving now will re-create it.`} onDismiss={dismiss} />;
+        }
+        return <StaleRecordNotice message={`Invoice ${invoice.invoice_no} was changed in another tab. Saving now will overwrite those changes.`} actionLabel="Reload invoice" onAction={reloadInvoice} onDismiss={dismiss} />;
+    };
+
+    const handleSave = async (record: typeof invoice = invoice) => {
+        if (!record.customer_name || !record.invoice_date || (record.memo_nos || []).length === 0) {
             addToast('Please select a customer, date, and at least one memo.', 'error');
             return;
         }
         setIsSaving(true);
         try {
-            if (invoice.id) {
-                await updateInvoice(invoice as Invoice);
+            if (record.id) {
+                await updateInvoice(record as Invoice);
                 addToast('Invoice updated successfully!', 'success');
             } else {
-                await addInvoice(invoice as Omit<Invoice, 'id'>);
-                addToast('Invoice created successfully!', 'success');
+                const id = await addInvoice(record as Omit<Invoice, 'id'>);
+                const saved = await getInvoiceById(id);
+                addToast(`Invoice ${saved?.invoice_no || ''} created successfully!`, 'success');
             }
             onSaveSuccess();
         } catch (error) {
-             addToast('Failed to save invoice.', 'error');
+            if (error instanceof Error && error.name === 'InvoiceConflictError') {
+                // Someone else billed or removed a selected memo: show which, drop them and refresh the list.
+                addToast(error.message, 'error');
+                const conflicting = error instanceof InvoiceConflictError ? error.memoNos : [];
+                setInvoice(prev => ({ ...prev, memo_nos: (prev.memo_nos || []).filter(m => !conflicting.includes(m)) }));
+                setAvailableMemos(await memosAvailableFor(record.customer_id));
+            } else if (!captureConflict(error, record)) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                addToast(`Failed to save invoice: ${errorMessage}`, 'error');
+            }
         } finally {
             setIsSaving(false);
         }
     };
 
+    const handleReloadConflict = async () => {
+        dismissConflict();
+        await reloadInvoice();
+    };
+
+    const handleOverwriteConflict = async () => {
+        const record = await overwriteWithMine();
+        if (record) {
+            setInvoice(record);
+            await handleSave(record);
+        }
+    };
+
     if (isLoading) return <div className="flex justify-center items-center h-64"><Spinner /></div>;
 
     const displayMemos = [...availableMemos];
@@ -193,18 +278,30 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
     return (
         <>
             <div className="print-hide">
+                {renderStaleNotice()}
+                {conflict && (
+                    <ConflictDialog
+                        message={conflict.message}
+                        onReload={handleReloadConflict}
+                        onOverwrite={handleOverwriteConflict}
+                        onCancel={dismissConflict}
+                    />
+                )}
                 <Card title={invoice.id ? `Edit Invoice ${invoice.invoice_no}` : 'Create New Invoice'}>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                        <Input id="invoice_no" label="Invoice No" value={invoice.invoice_no || ''} readOnly />
-                        <Input id="invoice_date" label="Invoice Date" type="date" value={invoice.invoice_date || ''} onChange={(e) => setInvoice(p => ({...p, invoice_date: e.target.value}))}/>
+                        <Input id="invoice_no" label="Invoice No" value={invoice.invoice_no || ''} readOnly title={invoice.id ? undefined : "The next free number; it is assigned when the invoice is saved."} />
+                        <Input id="invoice_date" label="Invoice Date" type="date" value={invoice.invoice_date || ''} onChange={(e) => handleDateChange(e.target.value)}/>
                         <div>
                             <label className="mb-2 font-medium text-sm text-gray-700">Customer</label>
                             <ComboBox
-                                value={invoice.customer_name || ''}
+                                value={invoice.customer_id !== undefined ? String(invoice.customer_id) : ''}
                                 onChange={handleCustomerChange}
-                                options={customers.map(c => ({ value: c.customers_name, label: c.customers_name }))}
+                                options={customerOptions(customers)}
                                 placeholder="Select a customer..."
                             />
+                            {invoice.customer_name && invoice.customer_id === undefined && (
+                                <p className="text-xs text-red-600 mt-1">Billed to "{invoice.customer_name}", which is not linked to a customer. Link it with "Review Links" on the Customers screen.</p>
+                            )}
                         </div>
                     </div>
 
@@ -239,7 +336,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
                                             <td className="p-3">{memo.trips_vehicle_no}</td>
                                             <td className="p-3 text-center">{memo.trips_total_hours}</td>
                                             <td className="p-3 text-center">{memo.trips_totalKm}</td>
-                                            <td className="p-3 text-right">{parseFloat(memo.trips_total_amt).toLocaleString('en-IN', { style: 'currency', currency: 'INR' })}</td>
+                                            <td className="p-3 text-right">{displayRupees(memo.trips_total_amt)}</td>
                                         </tr>
                                     )) : (
                                         <tr><td colSpan={7} className="p-4 text-center text-gray-500">No available memos for this customer.</td></tr>
@@ -260,8 +357,12 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
                                     { value: 'Draft', label: 'Draft'},
                                     { value: 'Finalized', label: 'Finalized'},
                                     { value: 'Paid', label: 'Paid'},
+                                    { value: 'Cancelled', label: 'Cancelled'},
                                 ]}
                             />
+                            {invoice.status === 'Cancelled' && !isCancelled && (
+                                <p className="text-xs text-red-600 mt-2">Saving cancels the invoice for good: its number stays on record as cancelled and its memos can be billed again.</p>
+                            )}
                         </div>
                         <div className="md:col-start-3 grid grid-cols-2 gap-4 text-right items-center bg-gray-50 p-4 rounded-lg">
                             <span className="font-semibold">Total Amount:</span>
@@ -278,7 +379,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
                     <div className="flex justify-end space-x-4 mt-8">
                         <Button type="button" onClick={() => window.print()} className="bg-green-600 hover:bg-green-700" disabled={!invoice.id} title={!invoice.id ? "Save the invoice first to download" : "Download as PDF"}>Download PDF</Button>
                         <Button type="button" onClick={onCancel} className="bg-gray-500 hover:bg-gray-600">Cancel</Button>
-                        <Button onClick={handleSave} disabled={isSaving}>
+                        <Button onClick={() => handleSave()} disabled={isSaving || isCancelled} title={isCancelled ? "Cancelled invoices cannot be changed" : undefined}>
                             {isSaving ? <Spinner /> : 'Save Invoice'}
                         </Button>
                     </div>
@@ -336,7 +437,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ invoiceIdToLoad, onSaveSucces
                                         <td className="p-2">{memo.trips_vehicle_no}</td>
                                         <td className="p-2 text-center">{memo.trips_total_hours}</td>
                                         <td className="p-2 text-center">{memo.trips_totalKm}</td>
-                                        <td className="p-2 text-right">{parseFloat(memo.trips_balance).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</td>
+                                        <td className="p-2 text-right">{paiseToRupees(memo.trips_balance).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</td>
                                     </tr>
                                 ))}
                                 {Array.from({ length: Math.max(0, 10 - selectedMemosDetails.length) }).map((_, index) => (
@@ -1,14 +1,30 @@
-
-import React from 'react';
+import React, { useState } from 'react';
+import { getActingUser, setActingUser } from '../../services/session';
 
 interface HeaderProps {
     title: string;
 }
 
 const Header: React.FC<HeaderProps> = ({ title }) => {
+  const [userName, setUserName] = useState(() => {
+    const current = getActingUser();
+    return current === 'unknown' ? '' : current;
+  });
+
   return (
-    <header className="bg-white shadow-md p-4 z-10">
+    <header className="bg-white shadow-md p-4 z-10 flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-800">{title}</h1>
+        <div className="flex items-center space-x-2 text-sm">
+            <label htmlFor="actingUser" className="font-medium text-gray-600">Working as:</label>
+            <input
+                id="actingUser"
+                value={userName}
+                placeholder="Your name"
+                onChange={e => setUserName(e.target.value)}
+                onBlur={() => setActingUser(userName)}
+                className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+        </div>
     </header>
   );
 };
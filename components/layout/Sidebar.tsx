@@ -1,7 +1,10 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { Page } from '../../types';
 import { useToast } from '../../hooks/useToast';
-import { exportDb, importDb } from '../../services/googleScriptMock';
+import { exportDb } from '../../services/api';
+import ImportWizard from '../ImportWizard';
+import BackupPassphraseDialog from '../BackupPassphraseDialog';
+import { encryptBackup, decryptBackup, isEncryptedBackup, EncryptedBackup } from '../../utils/backupEncryption';
 
 interface SidebarProps {
   currentPage: Page;
@@ -45,21 +48,32 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage }) => {
         { page: Page.VIEW_ALL_SERVICES, label: "View All Services", icon: <AddLocationIcon /> },
         { page: Page.MANAGE_AREAS, label: "Manage Areas", icon: <MapIcon /> },
         { page: Page.MANAGE_CALCULATIONS, label: "Manage Calculations", icon: <CalculatorIcon /> },
+        { page: Page.TARIFF_REVISION, label: "Bulk Tariff Revision", icon: <TrendingUpIcon /> },
+        { page: Page.MANAGE_BRANDS, label: "Brands & Policies", icon: <BadgeIcon /> },
+        { page: Page.DISCOUNT_RULES, label: "Discount Rules", icon: <TagIcon /> },
         { page: Page.MANAGE_LOOKUP, label: "Manage Lookup", icon: <ListIcon /> },
+        { page: Page.AUDIT_LOG, label: "Audit Trail", icon: <HistoryIcon /> },
+        { page: Page.RECYCLE_BIN, label: "Recycle Bin", icon: <TrashIcon /> },
+        { page: Page.SNAPSHOTS, label: "Snapshots", icon: <CameraIcon /> },
+        { page: Page.NUMBERING, label: "Numbering", icon: <HashIcon /> },
     ];
 
     const { addToast } = useToast();
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pendingImport, setPendingImport] = useState<{ data: any; fileName: string } | null>(null);
+    const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+    const [lockedFile, setLockedFile] = useState<{ file: EncryptedBackup; fileName: string } | null>(null);
 
-    const handleSaveDatabase = async () => {
+    const handleSaveDatabase = async (passphrase: string | null) => {
         try {
-            const data = await exportDb();
+            const backup = await exportDb();
+            const data = passphrase ? await encryptBackup(backup, passphrase) : backup;
             const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(
                 JSON.stringify(data, null, 2)
             )}`;
             const link = document.createElement("a");
             link.href = jsonString;
-            link.download = `svs-transport-db-${new Date().toISOString().split('T')[0]}.json`;
+            link.download = `svs-transport-db-${new Date().toISOString().split('T')[0]}${passphrase ? '-encrypted' : ''}.json`;
 
             document.body.appendChild(link);
             link.click();
@@ -69,9 +83,18 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage }) => {
         } catch (error) {
             addToast('Failed to save database.', 'error');
             console.error(error);
+        } finally {
+            setIsSaveDialogOpen(false);
         }
     };
 
+    const handleUnlockFile = async (passphrase: string | null) => {
+        if (!lockedFile || !passphrase) return;
+        const data = await decryptBackup(lockedFile.file, passphrase);
+        setLockedFile(null);
+        setPendingImport({ data, fileName: lockedFile.fileName });
+    };
+
     const handleLoadDatabaseClick = () => {
         fileInputRef.current?.click();
     };
@@ -87,12 +110,13 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage }) => {
                 if (typeof text !== 'string') {
                     throw new Error("Failed to read file");
                 }
+                // Nothing is written until the import is confirmed in the wizard.
                 const data = JSON.parse(text);
-                await importDb(data);
-                addToast('Database loaded successfully! The app will now reload.', 'success');
-                setTimeout(() => {
-                    window.location.reload();
-                }, 2000);
+                if (isEncryptedBackup(data)) {
+                    setLockedFile({ file: data, fileName: file.name });
+                } else {
+                    setPendingImport({ data, fileName: file.name });
+                }
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : "Invalid JSON format.";
                 addToast(`Failed to load database: ${errorMessage}`, 'error');
@@ -126,7 +150,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage }) => {
       </nav>
        <div className="px-2 py-4 border-t border-gray-700 space-y-2">
               <h3 className="px-4 text-xs font-semibold uppercase text-gray-400">Database</h3>
-              <a href="#" onClick={(e) => { e.preventDefault(); handleSaveDatabase(); }} className="flex items-center px-4 py-3 text-gray-200 transition-colors duration-200 transform hover:bg-gray-700 hover:text-white">
+              <a href="#" onClick={(e) => { e.preventDefault(); setIsSaveDialogOpen(true); }} className="flex items-center px-4 py-3 text-gray-200 transition-colors duration-200 transform hover:bg-gray-700 hover:text-white">
                   <SaveIcon />
                   <span className="mx-4 font-medium">Save Database</span>
               </a>
@@ -142,6 +166,28 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage }) => {
                   accept=".json"
               />
           </div>
+      {isSaveDialogOpen && (
+          <BackupPassphraseDialog
+              mode="save"
+              onSubmit={handleSaveDatabase}
+              onCancel={() => setIsSaveDialogOpen(false)}
+          />
+      )}
+      {lockedFile && (
+          <BackupPassphraseDialog
+              mode="load"
+              fileName={lockedFile.fileName}
+              onSubmit={handleUnlockFile}
+              onCancel={() => setLockedFile(null)}
+          />
+      )}
+      {pendingImport && (
+          <ImportWizard
+              data={pendingImport.data}
+              fileName={pendingImport.fileName}
+              onClose={() => setPendingImport(null)}
+          />
+      )}
     </div>
   );
 };
@@ -172,6 +218,27 @@ const CalculatorIcon = () => (
 const ListIcon = () => (
     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 10h16M4 14h16M4 18h16"></path></svg>
 );
+const HistoryIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+);
+const TrashIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path></svg>
+);
+const CameraIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+);
+const BadgeIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z"></path></svg>
+);
+const TagIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"></path></svg>
+);
+const TrendingUpIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6"></path></svg>
+);
+const HashIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14"></path></svg>
+);
 const SaveIcon = () => (
     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"></path></svg>
 );
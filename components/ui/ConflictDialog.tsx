@@ -0,0 +1,31 @@
+import React from 'react';
+import Button from './Button';
+
+interface ConflictDialogProps {
+  message: string;
+  onReload: () => void;
+  onOverwrite: () => void;
+  onCancel: () => void;
+}
+
+// Offered when a save was refused because someone else saved the record first.
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ message, onReload, onOverwrite, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center print-hide">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+        <h3 className="text-lg font-bold mb-4">Save Conflict</h3>
+        <p>{message}</p>
+        <p className="mt-2 text-sm text-gray-600">
+          Reload to discard your changes and see theirs, or overwrite to replace their changes with yours.
+        </p>
+        <div className="flex justify-end mt-6 space-x-3">
+          <Button onClick={onCancel}>Cancel</Button>
+          <Button onClick={onReload}>Reload</Button>
+          <Button onClick={onOverwrite}>Overwrite</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
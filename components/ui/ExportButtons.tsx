@@ -0,0 +1,23 @@
+import React from 'react';
+import { ExportFormat } from '../../utils/tableExport';
+import Button from './Button';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport, disabled }) => {
+  return (
+    <div className="flex space-x-2">
+      <Button type="button" onClick={() => onExport('csv')} disabled={disabled} title="Download the rows shown as CSV">
+        Export CSV
+      </Button>
+      <Button type="button" onClick={() => onExport('xlsx')} disabled={disabled} title="Download the rows shown as an Excel workbook">
+        Export Excel
+      </Button>
+    </div>
+  );
+};
+
+export default ExportButtons;
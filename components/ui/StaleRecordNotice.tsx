@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface StaleRecordNoticeProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+}
+
+// Shown above a form when the record being edited was changed elsewhere.
+const StaleRecordNotice: React.FC<StaleRecordNoticeProps> = ({ message, actionLabel, onAction, onDismiss }) => {
+  return (
+    <div className="mb-4 flex items-center justify-between gap-4 rounded-lg border border-yellow-400 bg-yellow-50 px-4 py-3 text-sm text-yellow-800 print-hide" role="alert">
+      <span>{message}</span>
+      <div className="flex shrink-0 gap-2">
+        {onAction && actionLabel && (
+          <button type="button" onClick={onAction} className="rounded-md bg-yellow-600 px-3 py-1 font-semibold text-white hover:bg-yellow-700">
+            {actionLabel}
+          </button>
+        )}
+        <button type="button" onClick={onDismiss} className="rounded-md border border-yellow-600 px-3 py-1 font-semibold text-yellow-800 hover:bg-yellow-100">
+          Keep my edits
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StaleRecordNotice;
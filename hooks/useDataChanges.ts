@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { DataChange, subscribeToChanges } from '../services/changeFeed';
+
+// The import replaces every store at once and is announced under this entity.
+export const DATABASE_ENTITY = 'database';
+
+interface DataChangeOptions {
+  // Also report changes made by this tab. Whole-database imports are always reported.
+  includeLocal?: boolean;
+}
+
+// Calls `onChange` whenever one of `entities` changes in another tab. The latest
+// `onChange` is always used, so it can safely close over component state.
+export const useDataChanges = (
+  entities: string[],
+  onChange: (change: DataChange) => void,
+  options: DataChangeOptions = {},
+) => {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+  const entityKey = entities.join('|');
+  const includeLocal = !!options.includeLocal;
+
+  useEffect(() => {
+    const watched = entityKey.split('|');
+    return subscribeToChanges((change, isLocal) => {
+      if (change.entity === DATABASE_ENTITY) {
+        handlerRef.current(change);
+        return;
+      }
+      if (isLocal && !includeLocal) return;
+      if (watched.includes(change.entity)) {
+        handlerRef.current(change);
+      }
+    });
+  }, [entityKey, includeLocal]);
+};
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { Versioned } from '../types';
+
+interface RevisionConflict<T> {
+  message: string;
+  record: T;
+}
+
+// Keeps hold of an edit the data layer refused with RevisionConflictError, and yields
+// the record to continue with: the stored version (reload) or the user's edit rebased
+// onto the stored revision so that saving it again wins (overwrite).
+export const useRevisionConflict = <T extends Versioned>(fetchLatest: (record: T) => Promise<T | null | undefined>) => {
+  const [conflict, setConflict] = useState<RevisionConflict<T> | null>(null);
+
+  // Returns true if `error` was a revision conflict and is now awaiting a decision.
+  const captureConflict = (error: unknown, record: T): boolean => {
+    if (error instanceof Error && error.name === 'RevisionConflictError') {
+      setConflict({ message: error.message, record });
+      return true;
+    }
+    return false;
+  };
+
+  // Resolves to null when the record has since been deleted.
+  const reloadLatest = async (): Promise<T | null> => {
+    if (!conflict) return null;
+    const latest = await fetchLatest(conflict.record);
+    setConflict(null);
+    return latest || null;
+  };
+
+  const overwriteWithMine = async (): Promise<T | null> => {
+    if (!conflict) return null;
+    const latest = await fetchLatest(conflict.record);
+    setConflict(null);
+    return { ...conflict.record, revision: latest?.revision ?? 0 };
+  };
+
+  const dismissConflict = () => setConflict(null);
+
+  return { conflict, captureConflict, reloadLatest, overwriteWithMine, dismissConflict };
+};
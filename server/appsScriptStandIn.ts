@@ -0,0 +1,99 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Plugin } from 'vite';
+import type { DataProvider, ProviderRequest, ProviderResponse } from '../services/dataProvider';
+import type { DataChange } from '../services/changeFeed';
+import { errorFields } from '../services/errors';
+
+// --- Local Apps Script stand-in ---
+// Speaks the same `{ action, args }` protocol as the deployed Apps Script web app, so the
+// 'apps-script' provider can be exercised without network access. Data is held in an
+// in-memory IndexedDB (fake-indexeddb) driven by the regular IndexedDB provider, and is
+// reseeded every time the dev server starts.
+//
+// The acting user is the one sent with the call, kept in the call's async context rather
+// than set for the whole server. Calls run one at a time, as the web app's script lock
+// makes them, so the changes announced while a call runs are that call's; they are
+// announced as transactions commit, outside the call's context.
+
+export const STAND_IN_PATH = '/apps-script-stand-in';
+
+interface CallContext {
+    user: string;
+    changes: Omit<DataChange, 'source'>[];
+}
+
+const currentCall = new AsyncLocalStorage<CallContext>();
+let runningCall: CallContext | null = null;
+let lastCall: Promise<unknown> = Promise.resolve();
+let providerPromise: Promise<DataProvider> | null = null;
+
+const loadProvider = (): Promise<DataProvider> => {
+    if (!providerPromise) {
+        providerPromise = (async () => {
+            await import('fake-indexeddb/auto');
+            (await import('../services/session')).setCallUserSource(() => currentCall.getStore()?.user);
+            const { subscribeToChanges } = await import('../services/changeFeed');
+            subscribeToChanges(({ source, ...change }) => runningCall?.changes.push(change));
+            const { indexedDbProvider } = await import('../services/googleScriptMock');
+            return indexedDbProvider;
+        })();
+    }
+    return providerPromise;
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+const send = (res: ServerResponse, payload: ProviderResponse) => {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(payload));
+};
+
+export const handleStandInRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+    }
+
+    const call: CallContext = { user: '', changes: [] };
+    try {
+        const { action, args, user } = JSON.parse(await readBody(req)) as ProviderRequest;
+        const provider = await loadProvider();
+        const handler = provider[action] as ((...params: unknown[]) => Promise<unknown>) | undefined;
+        if (typeof handler !== 'function') {
+            throw new Error(`Unknown action "${action}".`);
+        }
+        call.user = user || '';
+        const run = lastCall.then(async () => {
+            runningCall = call;
+            try {
+                return await currentCall.run(call, () => handler(...(Array.isArray(args) ? args : [])));
+            } finally {
+                runningCall = null;
+            }
+        });
+        lastCall = run.catch(() => undefined);
+        const result = await run;
+        send(res, { ok: true, result: result ?? null, changes: call.changes });
+    } catch (error) {
+        send(res, { ok: false, error: errorFields(error), changes: call.changes });
+    }
+};
+
+export const appsScriptStandIn = (): Plugin => ({
+    name: 'apps-script-stand-in',
+    configureServer(server) {
+        server.middlewares.use(STAND_IN_PATH, (req, res) => { handleStandInRequest(req, res); });
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use(STAND_IN_PATH, (req, res) => { handleStandInRequest(req, res); });
+    },
+});
@@ -0,0 +1,92 @@
+import { DataProvider } from './dataProvider';
+import { indexedDbProvider } from './googleScriptMock';
+import { createAppsScriptProvider } from './appsScriptProvider';
+
+// Chosen once at startup from the DATA_PROVIDER env setting (see vite.config.ts).
+// 'indexeddb' keeps everything in the browser; 'apps-script' talks to APPS_SCRIPT_URL.
+const selectProvider = (): DataProvider => {
+    switch (process.env.DATA_PROVIDER) {
+        case 'apps-script':
+            return createAppsScriptProvider(process.env.APPS_SCRIPT_URL || '');
+        case 'indexeddb':
+        default:
+            return indexedDbProvider;
+    }
+};
+
+const provider = selectProvider();
+
+export const {
+    generateNewMemoNumber,
+    updateCustomerAddresses,
+    getCustomers,
+    addCustomer,
+    updateCustomer,
+    deleteCustomer,
+    getCustomerUsage,
+    getCustomerLinkReview,
+    linkCustomerDocuments,
+    createMemo,
+    saveMemoData,
+    searchMemoByMemoNo,
+    getMemos,
+    deleteMemo,
+    queryMemos,
+    getInvoiceNumbersForMemos,
+    getInvoices,
+    getInvoiceById,
+    addInvoice,
+    updateInvoice,
+    deleteInvoice,
+    generateNewInvoiceNumber,
+    queryInvoices,
+    getUninvoicedMemosForCustomer,
+    getAreas,
+    addArea,
+    updateArea,
+    deleteArea,
+    getCalculations,
+    addCalculationRecord,
+    updateCalculationRecord,
+    deleteCalculationRecord,
+    reviseCalculation,
+    reviseTariffs,
+    getDiscountRules,
+    addDiscountRule,
+    updateDiscountRule,
+    deleteDiscountRule,
+    getBrands,
+    addBrand,
+    updateBrand,
+    deleteBrand,
+    getPolicyOverrides,
+    addPolicyOverride,
+    updatePolicyOverride,
+    deletePolicyOverride,
+    getLookupData,
+    addLookupRecord,
+    updateLookupRecord,
+    deleteLookupRecord,
+    importMasterData,
+    queryAuditLog,
+    getRecycleBin,
+    restoreFromRecycleBin,
+    purgeFromRecycleBin,
+    getMemoNumbering,
+    saveMemoNumbering,
+    getInvoiceNumbering,
+    saveInvoiceNumbering,
+    getInvoiceSequenceReport,
+    getViewAllServicesData,
+    getSnapshots,
+    takeSnapshot,
+    runScheduledSnapshot,
+    deleteSnapshot,
+    previewSnapshotRollback,
+    rollbackToSnapshot,
+    getSnapshotRetention,
+    saveSnapshotRetention,
+    exportDb,
+    previewImport,
+    importDb,
+} = provider;
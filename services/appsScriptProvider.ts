@@ -0,0 +1,115 @@
+import { DataProvider, DataProviderAction, ProviderRequest, ProviderResponse } from './dataProvider';
+import { getActingUser } from './session';
+import { errorFromFields } from './errors';
+import { publishRemoteChanges } from './changeFeed';
+
+// --- Google Apps Script web app provider ---
+// Every provider call becomes one POST to the deployed web app's `/exec` URL with a
+// `{ action, args }` body. The body is sent as text/plain so the browser does not issue
+// a CORS preflight, which Apps Script web apps cannot answer. The reply lists the changes
+// the call made, which are announced to the other tabs as local saves are, and a failure
+// is rethrown as the error class the backend raised.
+
+const send = async (endpoint: string, action: DataProviderAction, args: unknown[]): Promise<unknown> => {
+    const body: ProviderRequest = { action, args, user: getActingUser() };
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Apps Script request "${action}" failed with HTTP ${response.status}.`);
+    }
+
+    const payload = await response.json() as ProviderResponse;
+    publishRemoteChanges(payload.changes || []);
+    if (!payload.ok) {
+        throw errorFromFields(payload.error || { name: 'Error', message: `Apps Script request "${action}" failed.` });
+    }
+    return payload.result;
+};
+
+export const createAppsScriptProvider = (endpoint: string): DataProvider => {
+    if (!endpoint) {
+        throw new Error("APPS_SCRIPT_URL must be set to use the Apps Script data provider.");
+    }
+
+    const call = <A extends DataProviderAction>(action: A) =>
+        ((...args: unknown[]) => send(endpoint, action, args)) as unknown as DataProvider[A];
+
+    return {
+        generateNewMemoNumber: call('generateNewMemoNumber'),
+        updateCustomerAddresses: call('updateCustomerAddresses'),
+        getCustomers: call('getCustomers'),
+        addCustomer: call('addCustomer'),
+        updateCustomer: call('updateCustomer'),
+        deleteCustomer: call('deleteCustomer'),
+        getCustomerUsage: call('getCustomerUsage'),
+        getCustomerLinkReview: call('getCustomerLinkReview'),
+        linkCustomerDocuments: call('linkCustomerDocuments'),
+        createMemo: call('createMemo'),
+        saveMemoData: call('saveMemoData'),
+        searchMemoByMemoNo: call('searchMemoByMemoNo'),
+        getMemos: call('getMemos'),
+        deleteMemo: call('deleteMemo'),
+        queryMemos: call('queryMemos'),
+        getInvoiceNumbersForMemos: call('getInvoiceNumbersForMemos'),
+        getInvoices: call('getInvoices'),
+        getInvoiceById: call('getInvoiceById'),
+        addInvoice: call('addInvoice'),
+        updateInvoice: call('updateInvoice'),
+        deleteInvoice: call('deleteInvoice'),
+        generateNewInvoiceNumber: call('generateNewInvoiceNumber'),
+        queryInvoices: call('queryInvoices'),
+        getUninvoicedMemosForCustomer: call('getUninvoicedMemosForCustomer'),
+        getAreas: call('getAreas'),
+        addArea: call('addArea'),
+        updateArea: call('updateArea'),
+        deleteArea: call('deleteArea'),
+        getCalculations: call('getCalculations'),
+        addCalculationRecord: call('addCalculationRecord'),
+        updateCalculationRecord: call('updateCalculationRecord'),
+        deleteCalculationRecord: call('deleteCalculationRecord'),
+        reviseCalculation: call('reviseCalculation'),
+        reviseTariffs: call('reviseTariffs'),
+        getDiscountRules: call('getDiscountRules'),
+        addDiscountRule: call('addDiscountRule'),
+        updateDiscountRule: call('updateDiscountRule'),
+        deleteDiscountRule: call('deleteDiscountRule'),
+        getBrands: call('getBrands'),
+        addBrand: call('addBrand'),
+        updateBrand: call('updateBrand'),
+        deleteBrand: call('deleteBrand'),
+        getPolicyOverrides: call('getPolicyOverrides'),
+        addPolicyOverride: call('addPolicyOverride'),
+        updatePolicyOverride: call('updatePolicyOverride'),
+        deletePolicyOverride: call('deletePolicyOverride'),
+        getLookupData: call('getLookupData'),
+        addLookupRecord: call('addLookupRecord'),
+        updateLookupRecord: call('updateLookupRecord'),
+        deleteLookupRecord: call('deleteLookupRecord'),
+        importMasterData: call('importMasterData'),
+        queryAuditLog: call('queryAuditLog'),
+        getRecycleBin: call('getRecycleBin'),
+        restoreFromRecycleBin: call('restoreFromRecycleBin'),
+        purgeFromRecycleBin: call('purgeFromRecycleBin'),
+        getMemoNumbering: call('getMemoNumbering'),
+        saveMemoNumbering: call('saveMemoNumbering'),
+        getInvoiceNumbering: call('getInvoiceNumbering'),
+        saveInvoiceNumbering: call('saveInvoiceNumbering'),
+        getInvoiceSequenceReport: call('getInvoiceSequenceReport'),
+        getViewAllServicesData: call('getViewAllServicesData'),
+        getSnapshots: call('getSnapshots'),
+        takeSnapshot: call('takeSnapshot'),
+        runScheduledSnapshot: call('runScheduledSnapshot'),
+        deleteSnapshot: call('deleteSnapshot'),
+        previewSnapshotRollback: call('previewSnapshotRollback'),
+        rollbackToSnapshot: call('rollbackToSnapshot'),
+        getSnapshotRetention: call('getSnapshotRetention'),
+        saveSnapshotRetention: call('saveSnapshotRetention'),
+        exportDb: call('exportDb'),
+        previewImport: call('previewImport'),
+        importDb: call('importDb'),
+    };
+};
@@ -0,0 +1,36 @@
+import { AuditEntry, AuditQuery, PagedResult } from '../types';
+import { runTransaction, readPage } from './db';
+import { getActingUser } from './session';
+import { queueChange } from './changeFeed';
+
+// --- Audit Trail ---
+// Append-only. Entries are written by the mutation helpers in `mutations.ts`, inside
+// the same transaction as the change they describe, so a rolled-back change leaves
+// no entry behind. Each entry is also queued as a cross-tab change notification.
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export const appendAudit = (
+    transaction: IDBTransaction,
+    entry: Omit<AuditEntry, 'id' | 'timestamp' | 'user'>,
+): void => {
+    const record: Omit<AuditEntry, 'id'> = {
+        ...entry,
+        timestamp: new Date().toISOString(),
+        user: getActingUser(),
+    };
+    transaction.objectStore('audit').add(record);
+    queueChange(transaction, { entity: entry.entity, key: entry.key, action: entry.action });
+};
+
+// Newest first, optionally limited to one entity (store name).
+export const queryAuditLog = (query: AuditQuery = {}): Promise<PagedResult<AuditEntry>> =>
+    runTransaction(['audit'], 'readonly', transaction => {
+        const store = transaction.objectStore('audit');
+        const limit = query.limit || DEFAULT_PAGE_SIZE;
+        if (query.entity) {
+            const range = IDBKeyRange.bound([query.entity, ''], [query.entity, '\uffff']);
+            return readPage<AuditEntry>(store.index('by_entity_time'), range, limit, query.cursor);
+        }
+        return readPage<AuditEntry>(store.index('by_timestamp'), null, limit, query.cursor);
+    });
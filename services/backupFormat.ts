@@ -0,0 +1,411 @@
+import { BackupEnvelope, BackupMetadata, BackupRecordFailure } from '../types';
+import { objectStores, StoreName } from './db';
+import { DB_VERSION } from './migrations';
+import { getActingUser } from './session';
+import { InvalidBackupError } from './errors';
+import { MEMO_MONEY_FIELDS, MEMO_QUANTITY_FIELDS, memoFromLegacy } from '../utils/memoValues';
+
+// --- Backup file format ---
+// "Save Database" writes an envelope around the store contents:
+//
+//   { format, formatVersion, appVersion, schemaVersion, exportedAt, exportedBy,
+//     contentHash, stores: { memos: [...], invoices: [...], ... } }
+//
+// `contentHash` is the SHA-256 of the JSON of `stores`, so a truncated or hand-edited
+// file is caught before anything is imported. Every record is also checked against its
+// type in `types.ts`. Older files are upgraded step by step, like schema migrations:
+// version 1 is the bare `{ memos, invoices, ... }` object saved before the envelope,
+// version 2 files predate the register of voided invoice numbers, version 3 files hold
+// memo amounts and quantities as text, version 4 memos lack the extra-km and
+// running-hours fields, version 5 files predate discount rules, and version 6 files
+// predate the brand master, so they are given the brands the catalog used to hardcode.
+// Version 7 calculations have no effective dates, which leaves them in force at all times.
+// Version 8 files predate the settings; importing one leaves the local settings alone.
+
+export const BACKUP_FORMAT = 'sbt-admin-backup';
+export const BACKUP_FORMAT_VERSION = 9;
+
+export interface ValidatedBackup {
+    metadata: BackupMetadata;
+    fileProblems: string[];
+    failures: BackupRecordFailure[];
+    stores: Record<string, any[]>;
+}
+
+const dataStoreNames = Object.keys(objectStores) as StoreName[];
+// Stores a file may leave out. An import only touches the stores the file has.
+const OPTIONAL_STORES: StoreName[] = ['settings'];
+
+const hashStores = async (stores: Record<string, any[]>): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify(stores));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    return `sha256:${hex}`;
+};
+
+export const createBackupEnvelope = async (stores: Record<string, any[]>): Promise<BackupEnvelope> => ({
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: process.env.APP_VERSION || null,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: getActingUser(),
+    contentHash: await hashStores(stores),
+    stores,
+});
+
+// --- Envelope upgrades ---
+
+interface EnvelopeUpgrade {
+    from: number;
+    upgrade: (file: any) => any;
+}
+
+// Memos go through `memoFromLegacy`, which converts text amounts and fills in the fields
+// added since. Anything that is not a memo is left for validation to report.
+const upgradeMemos = (stores: any) => ({
+    ...stores,
+    memos: Array.isArray(stores?.memos)
+        ? stores.memos.map((memo: any) => memo && typeof memo === 'object' ? memoFromLegacy(memo) : memo)
+        : stores?.memos,
+});
+
+const envelopeUpgrades: EnvelopeUpgrade[] = [
+    {
+        from: 1,
+        upgrade: (stores) => ({
+            format: BACKUP_FORMAT,
+            formatVersion: 2,
+            appVersion: null,
+            schemaVersion: null,
+            exportedAt: null,
+            exportedBy: null,
+            contentHash: null,
+            stores,
+        }),
+    },
+    {
+        from: 2,
+        upgrade: (file) => ({
+            ...file,
+            formatVersion: 3,
+            stores: { voidedInvoiceNumbers: [], ...file.stores },
+        }),
+    },
+    {
+        from: 3,
+        upgrade: (file) => ({ ...file, formatVersion: 4, stores: upgradeMemos(file.stores) }),
+    },
+    {
+        from: 4,
+        upgrade: (file) => ({ ...file, formatVersion: 5, stores: upgradeMemos(file.stores) }),
+    },
+    {
+        from: 5,
+        // Files from before discount rules were billed with the memo form's 10% for customers
+        // named "transport", which the database migration turned into this rule.
+        upgrade: (file) => ({
+            ...file,
+            formatVersion: 6,
+            stores: upgradeMemos({
+                discountRules: [{ id: 1, name: '10% for customers named Transport', priority: 10, active: true, customer_name_contains: 'transport', kind: 'percent', value: 10, revision: 1 }],
+                ...file.stores,
+            }),
+        }),
+    },
+    {
+        from: 6,
+        upgrade: (file) => ({
+            ...file,
+            formatVersion: 7,
+            // The brands the services catalog hardcoded when files had none.
+            stores: {
+                brands: [
+                    { id: 1, name: 'Transport', active: true, driver_bata_exempt: false, revision: 1 },
+                    { id: 2, name: 'VIKING', active: true, driver_bata_exempt: true, revision: 1 },
+                ],
+                policyOverrides: [
+                    { id: 1, brand_id: 2, area: 'Chengalpet', kind: 'driver-bata-charged', note: 'VIKING pays driver bata in Chengalpet only.', revision: 1 },
+                ],
+                ...file.stores,
+            },
+        }),
+    },
+    {
+        from: 7,
+        upgrade: (file) => ({ ...file, formatVersion: 8 }),
+    },
+    {
+        from: 8,
+        upgrade: (file) => ({ ...file, formatVersion: 9 }),
+    },
+];
+
+const envelopeVersionOf = (file: any): number =>
+    file && file.format === BACKUP_FORMAT ? Number(file.formatVersion) : 1;
+
+const upgradeEnvelope = (file: any): BackupEnvelope => {
+    let version = envelopeVersionOf(file);
+    if (!Number.isInteger(version) || version < 1) {
+        throw new InvalidBackupError("Unrecognised backup file: the format version is missing or invalid.");
+    }
+    if (version > BACKUP_FORMAT_VERSION) {
+        throw new InvalidBackupError(`This backup was saved by a newer version of the app (format ${version}). Update the app before loading it.`);
+    }
+    let upgraded = file;
+    for (const step of envelopeUpgrades) {
+        if (step.from === version) {
+            upgraded = step.upgrade(upgraded);
+            version = upgraded.formatVersion;
+        }
+    }
+    return upgraded as BackupEnvelope;
+};
+
+// --- Record validation ---
+// One rule per field of each record type. Fields not listed are reported as unexpected.
+// The rules must accept every record the app itself can save, or its own backups and
+// snapshots would not load again.
+
+interface FieldRule {
+    type: 'string' | 'number' | 'boolean' | 'string[]' | 'object';
+    required?: boolean;
+    // For numbers: whole numbers only, as for amounts in paise.
+    integer?: boolean;
+    date?: boolean;
+    oneOf?: string[];
+    // For required text: present, but may be empty, as the form saving it allows.
+    blank?: boolean;
+}
+
+const text: FieldRule = { type: 'string' };
+const requiredText: FieldRule = { type: 'string', required: true };
+const presentText: FieldRule = { type: 'string', required: true, blank: true };
+const requiredId: FieldRule = { type: 'number', required: true };
+
+const versionedFields: Record<string, FieldRule> = {
+    revision: { type: 'number' },
+    updated_at: text,
+};
+
+const memoTextFields = [
+    'trip_upto_operated_date2', 'trips_vehicle_no', 'trips_vehicle_type', 'customers_address1', 'customers_address2',
+    'trips_starting_time1', 'trips_closing_time1', 'trips_starting_time2', 'trips_closing_time2',
+    'products_item', 'products_item2', 'trips_fixed_amt_desc', 'trips_other_charges_desc',
+    'trips_total_amt_in_words', 'trips_remark',
+];
+
+const calculationTextFields = [
+    'products_minimum_hours', 'products_minimum_km', 'products_minimum_charges',
+    'products_additional_hours_charges', 'products_running_hours', 'products_driver_bata', 'products_extra_km_rate',
+];
+
+const fieldsWithRule = (names: string[], rule: FieldRule): Record<string, FieldRule> =>
+    Object.fromEntries(names.map(name => [name, rule]));
+
+const textFields = (names: string[]) => fieldsWithRule(names, text);
+
+export const recordRules: Record<string, Record<string, FieldRule>> = {
+    memos: {
+        trips_memo_no: requiredText,
+        // The memo form saves memos without a trip date or a customer.
+        trip_operated_date1: { type: 'string', required: true, date: true, blank: true },
+        customers_name: presentText,
+        customer_id: { type: 'number' },
+        discount_rule_id: { type: 'number' },
+        discount_rule_name: text,
+        ...textFields(memoTextFields),
+        ...fieldsWithRule(MEMO_MONEY_FIELDS, { type: 'number', required: true, integer: true }),
+        ...fieldsWithRule(MEMO_QUANTITY_FIELDS, { type: 'number', required: true }),
+    },
+    invoices: {
+        id: requiredId,
+        invoice_no: requiredText,
+        invoice_date: { type: 'string', required: true, date: true },
+        customer_name: requiredText,
+        customer_id: { type: 'number' },
+        memo_nos: { type: 'string[]', required: true },
+        total_amount: { type: 'number', required: true },
+        amount_paid: { type: 'number', required: true },
+        balance: { type: 'number', required: true },
+        status: { type: 'string', required: true, oneOf: ['Draft', 'Finalized', 'Paid', 'Cancelled'] },
+        // The customer's billing address as of issue.
+        customer_address1: text,
+        customer_address2: text,
+    },
+    customers: {
+        id: requiredId,
+        customers_name: requiredText,
+        customers_address1: text,
+        customers_address2: text,
+    },
+    areas: {
+        id: requiredId,
+        locationArea: requiredText,
+        locationCategory: requiredText,
+    },
+    calculations: {
+        id: requiredId,
+        products_type_category: presentText,
+        ...textFields(calculationTextFields),
+        effective_from: { type: 'string', date: true },
+        effective_to: { type: 'string', date: true },
+    },
+    lookup: {
+        id: requiredId,
+        driver_name: presentText,
+        license_number: text,
+        phone: text,
+    },
+    voidedInvoiceNumbers: {
+        invoice_no: requiredText,
+        invoice_id: requiredId,
+        invoice_date: { type: 'string', required: true, date: true },
+        customer_name: text,
+        reason: { type: 'string', required: true, oneOf: ['deleted', 'cancelled', 'discarded'] },
+        voided_at: requiredText,
+        voided_by: text,
+    },
+    discountRules: {
+        id: requiredId,
+        name: requiredText,
+        priority: { type: 'number', required: true },
+        active: { type: 'boolean', required: true },
+        customer_id: { type: 'number' },
+        customer_name_contains: text,
+        brand: text,
+        vehicle_type: text,
+        area_category: text,
+        valid_from: { type: 'string', date: true },
+        valid_to: { type: 'string', date: true },
+        minimum_amount: { type: 'number', integer: true },
+        kind: { type: 'string', required: true, oneOf: ['percent', 'flat'] },
+        value: { type: 'number', required: true },
+    },
+    brands: {
+        id: requiredId,
+        name: requiredText,
+        active: { type: 'boolean', required: true },
+        driver_bata_exempt: { type: 'boolean', required: true },
+    },
+    policyOverrides: {
+        id: requiredId,
+        brand_id: requiredId,
+        area: text,
+        area_category: text,
+        vehicle_type: text,
+        kind: { type: 'string', required: true, oneOf: ['driver-bata-exempt', 'driver-bata-charged', 'surcharge'] },
+        amount: { type: 'number', integer: true },
+        note: text,
+    },
+    // Each setting's value has its own shape, checked where it is used.
+    settings: {
+        key: requiredText,
+        value: { type: 'object', required: true },
+    },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const checkField = (field: string, rule: FieldRule, value: unknown): string | null => {
+    if (value === undefined || value === null) {
+        return rule.required ? `${field} is missing` : null;
+    }
+    switch (rule.type) {
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) return `${field} must be a number`;
+            if (rule.integer && !Number.isInteger(value)) return `${field} must be a whole number`;
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') return `${field} must be true or false`;
+            break;
+        case 'string[]':
+            if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return `${field} must be a list of text values`;
+            break;
+        case 'object':
+            if (typeof value !== 'object' || Array.isArray(value)) return `${field} must be a set of values`;
+            break;
+        default:
+            if (typeof value !== 'string') return `${field} must be text`;
+            if (rule.blank && !value.trim()) break;
+            if (rule.required && !value.trim()) return `${field} is empty`;
+            if (rule.date && !DATE_PATTERN.test(value)) return `${field} must be a date (YYYY-MM-DD)`;
+            if (rule.oneOf && !rule.oneOf.includes(value)) return `${field} must be one of ${rule.oneOf.join(', ')}`;
+    }
+    return null;
+};
+
+export const validateRecord = (storeName: string, record: any): string[] => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        return ['record is not an object'];
+    }
+    const rules = { ...recordRules[storeName], ...versionedFields };
+    const problems: string[] = [];
+    Object.entries(rules).forEach(([field, rule]) => {
+        const problem = checkField(field, rule, record[field]);
+        if (problem) problems.push(problem);
+    });
+    Object.keys(record).filter(field => !(field in rules)).forEach(field => problems.push(`unexpected field ${field}`));
+    return problems;
+};
+
+const validateStores = (stores: Record<string, any[]>): BackupRecordFailure[] => {
+    const failures: BackupRecordFailure[] = [];
+    for (const storeName of dataStoreNames.filter(name => stores[name])) {
+        const keyPath = objectStores[storeName].keyPath;
+        const seenKeys = new Set<unknown>();
+        stores[storeName].forEach((record, index) => {
+            const key = record && typeof record === 'object' ? record[keyPath] ?? null : null;
+            const problems = validateRecord(storeName, record);
+            if (key !== null && seenKeys.has(key)) {
+                problems.push(`${keyPath} ${key} appears more than once`);
+            }
+            seenKeys.add(key);
+            if (problems.length > 0) {
+                failures.push({ store: storeName, index, key, problems });
+            }
+        });
+    }
+    return failures;
+};
+
+// Upgrades and checks a parsed backup file. Throws InvalidBackupError only when the
+// file is not a backup at all; anything finer-grained is reported in the result.
+// `checkRecords: false` skips the per-record checks, for data the app wrote itself.
+export const readBackup = async (file: any, { checkRecords = true } = {}): Promise<ValidatedBackup> => {
+    const envelope = upgradeEnvelope(file);
+    const stores = envelope.stores;
+    const missing = dataStoreNames.filter(name => !stores || (!Array.isArray(stores[name]) && !(OPTIONAL_STORES.includes(name) && stores[name] === undefined)));
+    if (missing.length > 0) {
+        throw new InvalidBackupError(`Invalid database file: missing ${missing.join(', ')}.`);
+    }
+
+    const fileProblems: string[] = [];
+    // The hash covers the stores as saved, before any upgrade added to them.
+    if (envelope.contentHash && envelope.contentHash !== await hashStores(file.stores)) {
+        fileProblems.push('The content hash does not match: the file was edited or is incomplete.');
+    }
+
+    const { formatVersion, appVersion, schemaVersion, exportedAt, exportedBy } = envelope;
+    return {
+        metadata: { formatVersion: envelopeVersionOf(file), appVersion, schemaVersion, exportedAt, exportedBy },
+        fileProblems,
+        failures: checkRecords ? validateStores(stores) : [],
+        stores,
+    };
+};
+
+const MAX_REPORTED_FAILURES = 5;
+
+// Sums up why a backup cannot be imported, naming the first few failing records.
+export const describeBackupProblems = (backup: ValidatedBackup): string | null => {
+    const lines = backup.fileProblems.map(problem => problem.replace(/\.$/, ''));
+    backup.failures.slice(0, MAX_REPORTED_FAILURES).forEach(failure => {
+        const label = failure.key !== null ? `${failure.store} ${failure.key}` : `${failure.store} record #${failure.index + 1}`;
+        lines.push(`${label}: ${failure.problems.join(', ')}`);
+    });
+    if (backup.failures.length > MAX_REPORTED_FAILURES) {
+        lines.push(`and ${backup.failures.length - MAX_REPORTED_FAILURES} more invalid records`);
+    }
+    return lines.length > 0 ? `Backup file failed validation: ${lines.join('; ')}.` : null;
+};
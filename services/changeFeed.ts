@@ -0,0 +1,63 @@
+import { AuditAction } from '../types';
+
+// --- Cross-tab change feed ---
+// Every committed mutation is announced on a BroadcastChannel so other open tabs can
+// refresh their lists and warn about records being edited under them. Changes are
+// queued per transaction as they are audited and only sent once it commits, so an
+// aborted save never announces anything. A remote backend reports the changes each call
+// made, and the tab that made the call announces them the same way.
+
+export interface DataChange {
+    entity: string;
+    key: string | number | null;
+    action: AuditAction;
+    // Identifies the tab that made the change.
+    source: string;
+}
+
+type ChangeListener = (change: DataChange, isLocal: boolean) => void;
+
+const CHANNEL_NAME = 'sbt-data-changes';
+export const TAB_ID = Math.random().toString(36).slice(2);
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+const listeners = new Set<ChangeListener>();
+const pending = new WeakMap<IDBTransaction, DataChange[]>();
+
+const notify = (change: DataChange) => {
+    const isLocal = change.source === TAB_ID;
+    listeners.forEach(listener => listener(change, isLocal));
+};
+
+const publish = (change: DataChange) => {
+    channel?.postMessage(change);
+    notify(change);
+};
+
+if (channel) {
+    channel.onmessage = (event: MessageEvent<DataChange>) => notify(event.data);
+}
+
+export const queueChange = (transaction: IDBTransaction, change: Omit<DataChange, 'source'>): void => {
+    const queued = pending.get(transaction) || [];
+    queued.push({ ...change, source: TAB_ID });
+    pending.set(transaction, queued);
+};
+
+// Called once `transaction` has committed.
+export const publishQueuedChanges = (transaction: IDBTransaction): void => {
+    const queued = pending.get(transaction);
+    if (!queued) return;
+    pending.delete(transaction);
+    queued.forEach(publish);
+};
+
+// Announces changes this tab made through a remote backend.
+export const publishRemoteChanges = (changes: Omit<DataChange, 'source'>[]): void => {
+    changes.forEach(change => publish({ ...change, source: TAB_ID }));
+};
+
+export const subscribeToChanges = (listener: ChangeListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,168 @@
+import { Customer, CustomerLinkReviewItem, CustomerUsage, Invoice, MemoData } from '../types';
+import { runTransaction, requestToPromise } from './db';
+import { runMutation, replaceRecord, discardRecord } from './mutations';
+import { CustomerInUseError } from './errors';
+
+// --- Customer links ---
+// Memos and invoices refer to their customer by `customer_id` and carry a copy of the
+// customer's name and address as issued. A memo is issued when it is created; an
+// invoice when it leaves Draft. Until then an invoice follows renames of its customer.
+
+export const normalizeCustomerName = (name: string | undefined) => (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const readCustomer = async (transaction: IDBTransaction, customerId: number): Promise<Customer> => {
+    const customer = await requestToPromise<Customer | undefined>(transaction.objectStore('customers').get(customerId));
+    if (!customer) {
+        throw new Error("The selected customer no longer exists. Choose the customer again.");
+    }
+    return customer;
+};
+
+const invoiceSnapshot = (customer: Customer) => ({
+    customer_id: customer.id,
+    customer_name: customer.customers_name,
+    customer_address1: customer.customers_address1,
+    customer_address2: customer.customers_address2,
+});
+
+// Copies the customer onto a memo being created, or onto a saved memo whose customer
+// was changed. The transaction must include 'customers'.
+export const applyMemoCustomer = async (transaction: IDBTransaction, memo: MemoData, stored?: MemoData): Promise<MemoData> => {
+    if (memo.customer_id === undefined || memo.customer_id === stored?.customer_id) return memo;
+    const customer = await readCustomer(transaction, memo.customer_id);
+    return {
+        ...memo,
+        customers_name: customer.customers_name,
+        customers_address1: customer.customers_address1,
+        customers_address2: customer.customers_address2,
+    };
+};
+
+// A draft takes the customer's current name and address; an issued invoice keeps the
+// customer it was issued to. The transaction must include 'customers'.
+export const applyInvoiceCustomer = async <T extends Partial<Invoice>>(transaction: IDBTransaction, invoice: T, stored?: Invoice): Promise<T> => {
+    if (stored && stored.status !== 'Draft') {
+        const { customer_id, customer_name, customer_address1, customer_address2 } = stored;
+        return { ...invoice, customer_id, customer_name, customer_address1, customer_address2 };
+    }
+    if (invoice.customer_id === undefined) return invoice;
+    return { ...invoice, ...invoiceSnapshot(await readCustomer(transaction, invoice.customer_id)) };
+};
+
+const invoicesOf = (transaction: IDBTransaction, customerId: number): Promise<Invoice[]> =>
+    requestToPromise(transaction.objectStore('invoices').index('by_customer_id').getAll(customerId));
+
+const documentsOf = async (transaction: IDBTransaction, customerId: number) => ({
+    memos: await requestToPromise<MemoData[]>(transaction.objectStore('memos').index('by_customer_id').getAll(customerId)),
+    invoices: await invoicesOf(transaction, customerId),
+});
+
+const isOpen = (invoice: Invoice) => invoice.status === 'Draft' || invoice.status === 'Finalized';
+
+export const updateCustomer = (customer: Customer): Promise<number> =>
+    runMutation(['customers', 'invoices'], async transaction => {
+        const key = await replaceRecord(transaction, 'customers', customer);
+        const drafts = (await invoicesOf(transaction, key as number)).filter(invoice => invoice.status === 'Draft');
+        for (const invoice of drafts) {
+            await replaceRecord(transaction, 'invoices', { ...invoice, ...invoiceSnapshot({ ...customer, id: key as number }) });
+        }
+        return key;
+    }) as Promise<number>;
+
+export const getCustomerUsage = (customerId: number): Promise<CustomerUsage> =>
+    runTransaction(['memos', 'invoices'], 'readonly', async transaction => {
+        const { memos, invoices } = await documentsOf(transaction, customerId);
+        return { memos: memos.length, invoices: invoices.length, openInvoices: invoices.filter(isOpen).length };
+    });
+
+// A customer with memos or invoices can only be deleted by moving them to another
+// customer (`reassignTo`) in the same transaction. Issued documents keep the name they
+// were issued with; draft invoices take the new customer's.
+export const deleteCustomer = (id: number, reassignTo?: number): Promise<void> =>
+    runMutation(['customers', 'memos', 'invoices'], async transaction => {
+        const customer = await requestToPromise<Customer | undefined>(transaction.objectStore('customers').get(id));
+        if (!customer) return;
+        const { memos, invoices } = await documentsOf(transaction, id);
+
+        if (memos.length + invoices.length > 0) {
+            if (reassignTo === undefined || reassignTo === id) {
+                const open = invoices.filter(isOpen).length;
+                throw new CustomerInUseError(
+                    `Customer ${customer.customers_name} has ${memos.length} memos and ${invoices.length} invoices` +
+                    `${open ? ` (${open} not yet paid)` : ''}. Move them to another customer before deleting it.`
+                );
+            }
+            const target = await readCustomer(transaction, reassignTo);
+            for (const memo of memos) {
+                await replaceRecord(transaction, 'memos', { ...memo, customer_id: reassignTo });
+            }
+            for (const invoice of invoices) {
+                await replaceRecord(transaction, 'invoices', invoice.status === 'Draft'
+                    ? { ...invoice, ...invoiceSnapshot(target) }
+                    : { ...invoice, customer_id: reassignTo });
+            }
+        }
+        await discardRecord(transaction, 'customers', id);
+    });
+
+// --- Review of unlinked documents ---
+
+interface UnlinkedDocuments {
+    customers: Customer[];
+    memos: MemoData[];
+    invoices: Invoice[];
+}
+
+const findUnlinked = async (transaction: IDBTransaction): Promise<UnlinkedDocuments> => {
+    const customers = await requestToPromise<Customer[]>(transaction.objectStore('customers').getAll());
+    const customerIds = new Set(customers.map(customer => customer.id));
+    const isUnlinked = (customerId: number | undefined) => customerId === undefined || !customerIds.has(customerId);
+    const memos = await requestToPromise<MemoData[]>(transaction.objectStore('memos').getAll());
+    const invoices = await requestToPromise<Invoice[]>(transaction.objectStore('invoices').getAll());
+    return {
+        customers,
+        memos: memos.filter(memo => isUnlinked(memo.customer_id)),
+        invoices: invoices.filter(invoice => isUnlinked(invoice.customer_id)),
+    };
+};
+
+export const getCustomerLinkReview = (): Promise<CustomerLinkReviewItem[]> =>
+    runTransaction(['customers', 'memos', 'invoices'], 'readonly', async transaction => {
+        const { customers, memos, invoices } = await findUnlinked(transaction);
+        const groups = new Map<string, CustomerLinkReviewItem>();
+        const groupFor = (name: string, customerId: number | undefined) => {
+            const candidates = customers.filter(customer => normalizeCustomerName(customer.customers_name) === normalizeCustomerName(name));
+            const reason: CustomerLinkReviewItem['reason'] = customerId !== undefined ? 'deleted'
+                : candidates.length === 1 ? 'unlinked'
+                : candidates.length > 1 ? 'ambiguous'
+                : 'unmatched';
+            const key = `${reason}|${normalizeCustomerName(name)}`;
+            if (!groups.has(key)) {
+                groups.set(key, { customer_name: name, reason, memo_nos: [], invoice_nos: [], candidates });
+            }
+            return groups.get(key)!;
+        };
+        memos.forEach(memo => groupFor(memo.customers_name, memo.customer_id).memo_nos.push(memo.trips_memo_no));
+        invoices.forEach(invoice => groupFor(invoice.customer_name, invoice.customer_id).invoice_nos.push(invoice.invoice_no));
+        return Array.from(groups.values()).sort((a, b) => a.customer_name.localeCompare(b.customer_name));
+    });
+
+// Links every unlinked memo and invoice carrying `customerName` to `customerId`. Returns
+// how many documents were linked.
+export const linkCustomerDocuments = (customerName: string, customerId: number): Promise<number> =>
+    runMutation(['customers', 'memos', 'invoices'], async transaction => {
+        const customer = await readCustomer(transaction, customerId);
+        const { memos, invoices } = await findUnlinked(transaction);
+        const matches = (name: string) => normalizeCustomerName(name) === normalizeCustomerName(customerName);
+        const memosToLink = memos.filter(memo => matches(memo.customers_name));
+        const invoicesToLink = invoices.filter(invoice => matches(invoice.customer_name));
+        for (const memo of memosToLink) {
+            await replaceRecord(transaction, 'memos', { ...memo, customer_id: customerId });
+        }
+        for (const invoice of invoicesToLink) {
+            await replaceRecord(transaction, 'invoices', invoice.status === 'Draft'
+                ? { ...invoice, ...invoiceSnapshot(customer) }
+                : { ...invoice, customer_id: customerId });
+        }
+        return memosToLink.length + invoicesToLink.length;
+    });
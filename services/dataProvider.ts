@@ -0,0 +1,134 @@
+import { MemoData, Customer, CustomerAddress, CustomerUsage, CustomerLinkReviewItem, Area, Calculation, DiscountRule, Brand, PolicyOverride, Lookup, Invoice, MemoQuery, InvoiceQuery, PagedResult, AuditEntry, AuditQuery, RecycleBinEntry, ImportPreview, ImportStrategy, MasterDataEntity, MasterDataImportRow, MasterDataImportOptions, MasterDataImportReport, NumberingScheme, InvoiceSequenceReport, BackupEnvelope, SnapshotSummary, SnapshotReason, SnapshotRetention, TariffRevision } from '../types';
+import { ErrorFields } from './errors';
+import { DataChange } from './changeFeed';
+
+// The contract every storage backend implements. Screens never talk to a backend
+// directly; they import the functions re-exported from `services/api.ts`, which
+// are bound to whichever provider was selected at startup.
+export interface DataProvider {
+    // Previews the number the next memo dated `date` would get; createMemo assigns it.
+    generateNewMemoNumber: (date?: string) => Promise<string>;
+    updateCustomerAddresses: (customerName: string) => Promise<CustomerAddress[]>;
+
+    // Customers
+    getCustomers: () => Promise<Customer[]>;
+    addCustomer: (customer: Omit<Customer, 'id'>) => Promise<number>;
+    // Also renames the customer's draft invoices.
+    updateCustomer: (customer: Customer) => Promise<number>;
+    // Refused while memos or invoices refer to the customer, unless they are moved to `reassignTo`.
+    deleteCustomer: (id: number, reassignTo?: number) => Promise<void>;
+    getCustomerUsage: (customerId: number) => Promise<CustomerUsage>;
+    getCustomerLinkReview: () => Promise<CustomerLinkReviewItem[]>;
+    linkCustomerDocuments: (customerName: string, customerId: number) => Promise<number>;
+
+    // Memos
+    createMemo: (memo: MemoData) => Promise<string>;
+    saveMemoData: (memo: MemoData) => Promise<string>;
+    searchMemoByMemoNo: (memoNo: string) => Promise<MemoData | null>;
+    getMemos: () => Promise<MemoData[]>;
+    // Refused while an invoice that is not cancelled bills the memo.
+    deleteMemo: (memoNo: string) => Promise<void>;
+    queryMemos: (query?: MemoQuery) => Promise<PagedResult<MemoData>>;
+    getInvoiceNumbersForMemos: (memoNos: string[]) => Promise<Record<string, string>>;
+
+    // Invoices
+    getInvoices: () => Promise<Invoice[]>;
+    getInvoiceById: (id: number) => Promise<Invoice | null>;
+    addInvoice: (invoice: Omit<Invoice, 'id'>) => Promise<number>;
+    updateInvoice: (invoice: Invoice) => Promise<number>;
+    deleteInvoice: (id: number) => Promise<void>;
+    // Previews the number the next invoice dated `date` would get; addInvoice assigns it.
+    generateNewInvoiceNumber: (date?: string) => Promise<string>;
+    queryInvoices: (query?: InvoiceQuery) => Promise<PagedResult<Invoice>>;
+    getUninvoicedMemosForCustomer: (customerId: number) => Promise<MemoData[]>;
+
+    // Areas
+    getAreas: () => Promise<Area[]>;
+    addArea: (area: Omit<Area, 'id'>) => Promise<number>;
+    updateArea: (area: Area) => Promise<number>;
+    deleteArea: (id: number) => Promise<void>;
+
+    // Calculations
+    getCalculations: () => Promise<Calculation[]>;
+    addCalculationRecord: (record: Omit<Calculation, 'id'>) => Promise<number>;
+    updateCalculationRecord: (record: Calculation) => Promise<number>;
+    deleteCalculationRecord: (id: number) => Promise<void>;
+    reviseCalculation: (record: Calculation, effectiveFrom: string) => Promise<number>;
+    reviseTariffs: (revision: TariffRevision) => Promise<number>;
+
+    // Discount rules
+    getDiscountRules: () => Promise<DiscountRule[]>;
+    addDiscountRule: (rule: Omit<DiscountRule, 'id'>) => Promise<number>;
+    updateDiscountRule: (rule: DiscountRule) => Promise<number>;
+    deleteDiscountRule: (id: number) => Promise<void>;
+
+    // Brands and policy overrides
+    getBrands: () => Promise<Brand[]>;
+    addBrand: (brand: Omit<Brand, 'id'>) => Promise<number>;
+    updateBrand: (brand: Brand) => Promise<number>;
+    deleteBrand: (id: number) => Promise<void>;
+    getPolicyOverrides: () => Promise<PolicyOverride[]>;
+    addPolicyOverride: (override: Omit<PolicyOverride, 'id'>) => Promise<number>;
+    updatePolicyOverride: (override: PolicyOverride) => Promise<number>;
+    deletePolicyOverride: (id: number) => Promise<void>;
+
+    // Lookup
+    getLookupData: () => Promise<Lookup[]>;
+    addLookupRecord: (record: Omit<Lookup, 'id'>) => Promise<number>;
+    updateLookupRecord: (record: Lookup) => Promise<number>;
+    deleteLookupRecord: (id: number) => Promise<void>;
+
+    // Spreadsheet import of customers, areas, calculations and drivers
+    importMasterData: (entity: MasterDataEntity, rows: MasterDataImportRow[], options: MasterDataImportOptions) => Promise<MasterDataImportReport>;
+
+    // Audit trail
+    queryAuditLog: (query?: AuditQuery) => Promise<PagedResult<AuditEntry>>;
+
+    // Recycle bin
+    getRecycleBin: () => Promise<RecycleBinEntry[]>;
+    restoreFromRecycleBin: (entryId: number) => Promise<void>;
+    purgeFromRecycleBin: (entryId: number) => Promise<void>;
+
+    // Automatic snapshots
+    getSnapshots: () => Promise<SnapshotSummary[]>;
+    takeSnapshot: (reason?: SnapshotReason) => Promise<number>;
+    runScheduledSnapshot: () => Promise<number | null>;
+    deleteSnapshot: (id: number) => Promise<void>;
+    previewSnapshotRollback: (id: number) => Promise<ImportPreview>;
+    rollbackToSnapshot: (id: number) => Promise<string>;
+    getSnapshotRetention: () => Promise<SnapshotRetention>;
+    saveSnapshotRetention: (retention: SnapshotRetention) => Promise<void>;
+
+    // Document numbering
+    getMemoNumbering: () => Promise<NumberingScheme>;
+    saveMemoNumbering: (scheme: NumberingScheme) => Promise<void>;
+    getInvoiceNumbering: () => Promise<NumberingScheme>;
+    saveInvoiceNumbering: (scheme: NumberingScheme) => Promise<void>;
+    getInvoiceSequenceReport: () => Promise<InvoiceSequenceReport[]>;
+
+    // Services catalog and whole-database transfer
+    getViewAllServicesData: (asOf?: string) => Promise<string[][]>;
+    exportDb: () => Promise<BackupEnvelope>;
+    previewImport: (data: any) => Promise<ImportPreview>;
+    importDb: (data: any, strategy?: ImportStrategy) => Promise<string>;
+}
+
+export type DataProviderAction = keyof DataProvider;
+
+// Wire format shared by the Apps Script web app and the local stand-in server.
+// Apps Script cannot set HTTP status codes, so failures travel in the body.
+export interface ProviderRequest {
+    action: DataProviderAction;
+    args: unknown[];
+    // Who is making this call, recorded in the audit trail by the backend.
+    user?: string;
+}
+
+export interface ProviderResponse {
+    ok: boolean;
+    result?: unknown;
+    error?: ErrorFields;
+    // The records the call created, changed or deleted, for the client to announce to
+    // its other tabs.
+    changes?: Omit<DataChange, 'source'>[];
+}
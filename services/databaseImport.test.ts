@@ -0,0 +1,47 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { Invoice, MemoData } from '../types';
+import { addInvoice, createMemo, getInvoiceById, getMemos } from './googleScriptMock';
+import { getInvoiceSequenceReport } from './invoiceSequence';
+import { rollbackToSnapshot } from './databaseImport';
+import { takeSnapshot } from './snapshots';
+
+// Every test shares the one database the provider opens, seeded as on a first run.
+
+const invoiceFor = (memo: MemoData): Omit<Invoice, 'id'> => ({
+    invoice_no: '',
+    invoice_date: '2026-01-10',
+    customer_id: memo.customer_id,
+    customer_name: memo.customers_name,
+    memo_nos: [],
+    total_amount: 0,
+    amount_paid: 0,
+    balance: 0,
+    status: 'Draft',
+});
+
+describe('rollbackToSnapshot', () => {
+    it('never hands out an invoice number issued after the snapshot again', async () => {
+        const [memo] = await getMemos();
+        const snapshotId = await takeSnapshot();
+        const discarded = (await getInvoiceById(await addInvoice(invoiceFor(memo))))!.invoice_no;
+
+        await rollbackToSnapshot(snapshotId);
+        const next = (await getInvoiceById(await addInvoice(invoiceFor(memo))))!.invoice_no;
+
+        expect(next).not.toBe(discarded);
+        const gaps = (await getInvoiceSequenceReport()).flatMap(series => series.gaps);
+        expect(gaps).toContainEqual(expect.objectContaining({ invoice_no: discarded, status: 'discarded' }));
+    });
+
+    it('never hands out a memo number issued after the snapshot again', async () => {
+        const [memo] = await getMemos();
+        const snapshotId = await takeSnapshot();
+        const discarded = await createMemo({ ...memo, trips_memo_no: '' });
+
+        await rollbackToSnapshot(snapshotId);
+        const next = await createMemo({ ...memo, trips_memo_no: '' });
+
+        expect(next).not.toBe(discarded);
+    });
+});
@@ -0,0 +1,149 @@
+import { ImportPreview, ImportStoreSummary, ImportStrategy, SnapshotReason } from '../types';
+import { objectStores, StoreName, runTransaction, requestToPromise } from './db';
+import { appendAudit } from './audit';
+import { diffRecords } from '../utils/diffRecords';
+import { readBackup, describeBackupProblems } from './backupFormat';
+import { InvalidBackupError } from './errors';
+import { captureSnapshot, getSnapshot, SNAPSHOT_STORES } from './snapshots';
+import { keepCountersAhead, readCounters } from './numbering';
+import { keepInvoiceNumbersVoided, readIssuedInvoiceNumbers } from './invoiceSequence';
+
+// --- Database import ---
+// A backup file is compared with the local stores record by record, matching on the
+// record key. A file record is
+//   added       when no local record has its key,
+//   unchanged   when the local record has the same content,
+//   changed     when it is a later revision than the local copy, and
+//   conflicting when it differs but is not a later revision, i.e. the local copy was
+//               edited since the file was saved.
+// Keys are written exactly as they appear in the file, so an invoice's memo numbers and
+// any stored customer or area ids still point at the same records afterwards. The file
+// is validated first (see `backupFormat.ts`); an invalid file is never imported. A
+// snapshot of the current data is taken in the same transaction before anything changes.
+// Numbers already handed out stay used: the counters never go back and the invoice numbers
+// the import drops are voided, so older data cannot issue a memo or invoice number again.
+
+type RecordStatus = 'added' | 'changed' | 'unchanged' | 'conflicting';
+
+const dataStoreNames = Object.keys(objectStores) as StoreName[];
+// A file may leave out a store, such as the settings in files from before they were
+// saved; the local copy of that store is then left as it is.
+const storesIn = (stores: Record<string, any[]>): StoreName[] => dataStoreNames.filter(name => stores[name]);
+const BOOKKEEPING_FIELDS = ['revision', 'updated_at'];
+
+const sameContent = (local: any, incoming: any): boolean =>
+    !diffRecords(local, incoming).some(change => change.changed && !BOOKKEEPING_FIELDS.includes(change.field));
+
+const classify = (local: any, incoming: any): RecordStatus => {
+    if (!local) return 'added';
+    if (sameContent(local, incoming)) return 'unchanged';
+    return (incoming.revision ?? 0) > (local.revision ?? 0) ? 'changed' : 'conflicting';
+};
+
+interface StoreComparison {
+    summary: ImportStoreSummary;
+    records: { incoming: any; local: any; status: RecordStatus }[];
+}
+
+const compareStore = async (transaction: IDBTransaction, storeName: StoreName, incomingRecords: any[]): Promise<StoreComparison> => {
+    const store = transaction.objectStore(storeName);
+    const keyPath = store.keyPath as string;
+    const localRecords = await requestToPromise<any[]>(store.getAll());
+    const localByKey = new Map(localRecords.map(record => [record[keyPath], record]));
+
+    const summary: ImportStoreSummary = { store: storeName, added: 0, changed: 0, unchanged: 0, conflicting: 0, localOnly: 0 };
+    const records = incomingRecords.map(incoming => {
+        const key = incoming[keyPath];
+        const local = key !== undefined ? localByKey.get(key) : undefined;
+        localByKey.delete(key);
+        const status = classify(local, incoming);
+        summary[status]++;
+        return { incoming, local, status };
+    });
+    summary.localOnly = localByKey.size;
+    return { summary, records };
+};
+
+// Snapshots are copies of the app's own stores, so only files have their records checked
+// one by one. A snapshot is still upgraded, as it may predate later schema changes.
+type BackupSource = 'file' | 'snapshot';
+
+const readSource = (data: any, source: BackupSource) => readBackup(data, { checkRecords: source === 'file' });
+
+const previewBackup = async (data: any, source: BackupSource): Promise<ImportPreview> => {
+    const { metadata, fileProblems, failures, stores: incoming } = await readSource(data, source);
+    return runTransaction(dataStoreNames, 'readonly', async transaction => {
+        const stores: ImportStoreSummary[] = [];
+        for (const storeName of storesIn(incoming)) {
+            stores.push((await compareStore(transaction, storeName, incoming[storeName])).summary);
+        }
+        return { metadata, fileProblems, failures, stores };
+    });
+};
+
+// Dry run: validates the file and reports what importing it would do, without writing.
+export const previewImport = (data: any): Promise<ImportPreview> => previewBackup(data, 'file');
+
+const applyBackup = async (data: any, source: BackupSource, strategy: ImportStrategy, snapshotReason: SnapshotReason): Promise<void> => {
+    const backup = await readSource(data, source);
+    const problems = describeBackupProblems(backup);
+    if (problems) {
+        throw new InvalidBackupError(problems);
+    }
+    await runTransaction([...SNAPSHOT_STORES, 'audit'], 'readwrite', async transaction => {
+        await captureSnapshot(transaction, snapshotReason);
+        const counters = await readCounters(transaction);
+        const issuedInvoiceNumbers = await readIssuedInvoiceNumbers(transaction);
+        const summaries: ImportStoreSummary[] = [];
+        for (const storeName of storesIn(backup.stores)) {
+            const store = transaction.objectStore(storeName);
+            const { summary, records } = await compareStore(transaction, storeName, backup.stores[storeName]);
+            summaries.push(summary);
+
+            if (strategy === 'replace') {
+                store.clear();
+                records.forEach(({ incoming }) => store.put(incoming));
+                continue;
+            }
+
+            for (const { incoming, local, status } of records) {
+                if (status === 'added' || status === 'changed') {
+                    store.put(incoming);
+                } else if (status === 'conflicting' && strategy === 'merge-prefer-file') {
+                    // Move past both revisions so forms holding either copy see a conflict.
+                    const revision = Math.max(incoming.revision ?? 0, local.revision ?? 0) + 1;
+                    store.put({ ...incoming, revision });
+                }
+            }
+        }
+        await keepCountersAhead(transaction, counters);
+        await keepInvoiceNumbersVoided(transaction, issuedInvoiceNumbers);
+
+        appendAudit(transaction, { entity: 'database', key: 'import', action: 'import', before: null, after: { strategy, source: backup.metadata, stores: summaries } });
+    });
+};
+
+export const importDb = async (data: any, strategy: ImportStrategy = 'replace'): Promise<string> => {
+    await applyBackup(data, 'file', strategy, 'before-import');
+    return "Database imported successfully.";
+};
+
+// --- Snapshot rollback ---
+
+const loadSnapshotStores = async (id: number): Promise<Record<string, any[]>> => {
+    const snapshot = await getSnapshot(id);
+    if (!snapshot) {
+        throw new Error("Snapshot not found; it may have been pruned.");
+    }
+    return snapshot.stores;
+};
+
+// What rolling back would change: `added` records come back, `changed` and
+// `conflicting` ones are reverted and `localOnly` ones are removed.
+export const previewSnapshotRollback = async (id: number): Promise<ImportPreview> =>
+    previewBackup(await loadSnapshotStores(id), 'snapshot');
+
+export const rollbackToSnapshot = async (id: number): Promise<string> => {
+    await applyBackup(await loadSnapshotStores(id), 'snapshot', 'replace', 'before-rollback');
+    return "Rolled back to the snapshot.";
+};
@@ -0,0 +1,204 @@
+import { DB_VERSION, runMigrations } from './migrations';
+import { PagedResult } from '../types';
+import { publishQueuedChanges } from './changeFeed';
+
+// --- Database Service (IndexedDB) ---
+export const DB_NAME = 'SBT_AdminDB';
+let db: IDBDatabase | null = null;
+
+// FIX: Define an interface for object store options to ensure type safety.
+export interface ObjectStoreOptions {
+    keyPath: string;
+    autoIncrement?: boolean;
+}
+
+// The data stores as of the current schema version. New stores are created by a
+// migration step in `migrations.ts`; this map only describes them for export/import.
+export const objectStores: Record<string, ObjectStoreOptions> = {
+    memos: { keyPath: 'trips_memo_no' },
+    invoices: { keyPath: 'id', autoIncrement: true },
+    customers: { keyPath: 'id', autoIncrement: true },
+    areas: { keyPath: 'id', autoIncrement: true },
+    calculations: { keyPath: 'id', autoIncrement: true },
+    lookup: { keyPath: 'id', autoIncrement: true },
+    voidedInvoiceNumbers: { keyPath: 'invoice_no' },
+    discountRules: { keyPath: 'id', autoIncrement: true },
+    brands: { keyPath: 'id', autoIncrement: true },
+    policyOverrides: { keyPath: 'id', autoIncrement: true },
+    // Numbering schemes, their counters and snapshot retention; see `settings.ts`.
+    settings: { keyPath: 'key' },
+};
+
+export type StoreName = keyof typeof objectStores;
+
+export const initDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        if (db) {
+            return resolve(db);
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = (event) => {
+            console.error("Database error:", request.error);
+            reject("Database error");
+        };
+
+        request.onblocked = () => {
+            console.warn("Database upgrade is waiting for other tabs to close their connection.");
+        };
+
+        request.onsuccess = (event) => {
+            db = request.result;
+            // Another tab is upgrading the schema: step aside so its migrations can run.
+            db.onversionchange = () => {
+                db?.close();
+                db = null;
+            };
+            resolve(db);
+        };
+
+        request.onupgradeneeded = (event) => {
+            const tempDb = request.result;
+            const transaction = request.transaction!;
+            runMigrations({ db: tempDb, transaction }, event.oldVersion).catch(error => {
+                console.error("Database migration failed:", error);
+                transaction.abort();
+            });
+        };
+    });
+};
+
+export const dbRequest = <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    return initDB().then(db => {
+        return new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const store = transaction.objectStore(storeName);
+            const request = action(store);
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve(request.result as T);
+        });
+    });
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+    });
+};
+
+// Runs `work` inside one transaction over several stores and resolves with its result
+// once the transaction has committed. `work` may await requests made on `transaction`,
+// but must not await anything else or the transaction will auto-commit under it.
+export const runTransaction = <T>(
+    storeNames: StoreName[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T,
+): Promise<T> => {
+    return initDB().then(db => {
+        return new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeNames, mode);
+            let result: T;
+            transaction.oncomplete = () => {
+                publishQueuedChanges(transaction);
+                resolve(result);
+            };
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+
+            const fail = (error: unknown) => {
+                try { transaction.abort(); } catch { /* already finished */ }
+                reject(error);
+            };
+
+            try {
+                Promise.resolve(work(transaction)).then(value => { result = value; }, fail);
+            } catch (error) {
+                fail(error);
+            }
+        });
+    });
+};
+
+// --- Cursor paging ---
+// A page cursor remembers the index key and primary key of the last record returned,
+// so the next page resumes right after it even when many records share an index key.
+interface PagePosition {
+    key: IDBValidKey;
+    primaryKey: IDBValidKey;
+}
+
+const encodePosition = (position: PagePosition): string => JSON.stringify(position);
+
+const decodePosition = (cursor: string | null | undefined): PagePosition | null => {
+    if (!cursor) return null;
+    try {
+        return JSON.parse(cursor) as PagePosition;
+    } catch {
+        throw new Error("Invalid page cursor.");
+    }
+};
+
+// Reads one page from an index (or store) inside an existing transaction. Records that
+// fail `matches` are skipped, so a page holds `limit` matching records when there are
+// that many.
+export const readPage = <T>(
+    source: IDBIndex | IDBObjectStore,
+    range: IDBKeyRange | null,
+    limit: number,
+    pageCursor?: string | null,
+    direction: IDBCursorDirection = 'prev',
+    matches?: (record: T) => boolean,
+): Promise<PagedResult<T>> => {
+    return new Promise((resolve, reject) => {
+        let after = decodePosition(pageCursor);
+        const sign = direction.startsWith('prev') ? -1 : 1;
+        const items: T[] = [];
+        let last: PagePosition | null = null;
+
+        const request = source.openCursor(range, direction);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve({ items, nextCursor: null });
+                return;
+            }
+
+            if (after) {
+                const keyOrder = indexedDB.cmp(cursor.key, after.key);
+                const order = (keyOrder !== 0 ? keyOrder : indexedDB.cmp(cursor.primaryKey, after.primaryKey)) * sign;
+                if (order < 0) {
+                    if ('objectStore' in source) {
+                        cursor.continuePrimaryKey(after.key, after.primaryKey);
+                    } else {
+                        cursor.continue(after.key);
+                    }
+                    return;
+                }
+                after = null;
+                if (order === 0) {
+                    cursor.continue();
+                    return;
+                }
+            }
+
+            if (matches && !matches(cursor.value as T)) {
+                cursor.continue();
+                return;
+            }
+
+            if (items.length === limit) {
+                // One record past the page exists, so there is another page.
+                resolve({ items, nextCursor: last && encodePosition(last) });
+                return;
+            }
+
+            items.push(cursor.value as T);
+            last = { key: cursor.key, primaryKey: cursor.primaryKey };
+            cursor.continue();
+        };
+    });
+};
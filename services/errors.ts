@@ -0,0 +1,89 @@
+// Errors the data layer raises for conditions the user can act on. Screens show
+// `message` as-is, so it should name the records involved.
+
+export class RestoreConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RestoreConflictError';
+    }
+}
+
+// Raised when an invoice would bill memos that are missing or already on another
+// invoice. `memoNos` lists every offending memo, not just the first one found.
+export class InvoiceConflictError extends Error {
+    memoNos: string[];
+
+    constructor(memoNos: string[], message: string) {
+        super(message);
+        this.name = 'InvoiceConflictError';
+        this.memoNos = memoNos;
+    }
+}
+
+// Raised when an update was based on an older revision of a record than the one now
+// stored, i.e. someone else saved it in the meantime.
+export class RevisionConflictError extends Error {
+    entity: string;
+    key: string | number;
+
+    constructor(entity: string, key: string | number, message: string) {
+        super(message);
+        this.name = 'RevisionConflictError';
+        this.entity = entity;
+        this.key = key;
+    }
+}
+
+// Raised when a backup file fails validation. Nothing is imported from it.
+export class InvalidBackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidBackupError';
+    }
+}
+
+// Raised when a customer still referenced by memos or invoices would be deleted
+// without moving those documents to another customer first.
+export class CustomerInUseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CustomerInUseError';
+    }
+}
+
+// --- Errors from a remote backend ---
+
+// An error as a remote backend sends it: its name and message, plus the fields its
+// class adds, such as `memoNos`.
+export interface ErrorFields {
+    name: string;
+    message: string;
+    [field: string]: unknown;
+}
+
+export const errorFields = (error: unknown): ErrorFields => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    return { ...err, name: err.name, message: err.message };
+};
+
+// Rebuilds a sent error as the class it was raised as, so screens can still check it
+// with `instanceof` and read its fields.
+export const errorFromFields = (fields: ErrorFields): Error => {
+    switch (fields.name) {
+        case 'RestoreConflictError':
+            return new RestoreConflictError(fields.message);
+        case 'InvoiceConflictError':
+            return new InvoiceConflictError(fields.memoNos as string[], fields.message);
+        case 'RevisionConflictError':
+            return new RevisionConflictError(fields.entity as string, fields.key as string | number, fields.message);
+        case 'InvalidBackupError':
+            return new InvalidBackupError(fields.message);
+        case 'CustomerInUseError':
+            return new CustomerInUseError(fields.message);
+        default: {
+            const error = new Error(fields.message);
+            error.name = fields.name;
+            return error;
+        }
+    }
+};
@@ -1,298 +1,35 @@
-import { MemoData, Customer, CustomerAddress, Area, Calculation, Lookup, Invoice } from '../types';
+import { MemoData, Customer, CustomerAddress, Area, Calculation, DiscountRule, Brand, PolicyOverride, Lookup, Invoice, MemoQuery, InvoiceQuery, PagedResult, BackupEnvelope, NumberingScheme, TariffRevision } from '../types';
 import { VEHICLE_TYPES } from '../constants';
-
-// --- INITIAL MOCK DATA (for seeding the database on first load) ---
-const initialMemos: MemoData[] = [
-    {
-        trips_memo_no: 'SBT-001', trip_operated_date1: '2024-07-28', trip_upto_operated_date2: '',
-        trips_vehicle_no: 'TN01AB1234', trips_vehicle_type: 'TATA ACE', customers_name: 'John Doe', customers_address1: '123 Main St', customers_address2: 'Anytown',
-        trips_starting_time1: '09:00', trips_closing_time1: '13:00', trips_starting_time2: '', trips_closing_time2: '',
-        trips_total_hours: '4.00', trips_startingKm1: '1000', trips_closingKm1: '1050', trips_startingKm2: '',
-        trips_closingKm2: '', trips_totalKm: '50', products_item: 'TATA ACE', trips_minimum_hours1: '4',
-        trips_minimum_charges1: '1000', products_item2: '', trips_minimum_hours2: '', trips_minimum_charges2: '',
-        trips_extra_hours: '0.00', trips_for_additional_hour_rate: '200', trips_for_additional_hour_amt: '0',
-        trips_fixed_amt_desc: 'Fixed Amount', trips_fixed_amt: '', trips_km: '50', trips_km_rate: '',
-        trips_Km_amt: '0', trips_discount_percentage: '', trips_discount: '0', trips_driver_bata_qty: '',
-        trips_driver_bata_rate: '', trips_driver_bata_amt: '', trips_toll_amt: '', trips_permit_amt: '',
-        trips_night_hault_amt: '', trips_other_charges_desc: 'Other Charges', trips_other_charges_amt: '0',
-        trips_total_amt: '1000', trips_less_advance: '500', trips_balance: '500',
-        trips_total_amt_in_words: 'Five Hundred Rupees Only', trips_remark: ''
-    }
-];
-const initialCustomers: Omit<Customer, 'id'>[] = [
-    { customers_name: 'John Doe', customers_address1: '123 Main St', customers_address2: 'Anytown' },
-    { customers_name: 'Jane Smith', customers_address1: '456 Oak Ave', customers_address2: 'Otherville' }
-];
-const initialAreasData: string[][] = [
-    ["Local Trip", "Area 1"], ["Appolo Hospital", "Area 1"], ["Arumbakkam Bus Stand", "Area 1"],
-    ["Guindy", "Area 1"], ["ICF", "Area 1"], ["Pambuputhu Koil", "Area 1"], ["Tandiarpet", "Area 1"],
-    ["Vadapalani Bus Stand", "Area 1"], ["Velachery Pambu Puthu Koil", "Area 1"], ["Agaram", "Area 2"],
-    ["Ambattur", "Area 2"], ["Erukanchery", "Area 2"], ["I.D Hospital", "Area 2"], ["Kandanchavadi", "Area 2"],
-    ["Keelkattalai", "Area 2"], ["Kodungaiyur", "Area 2"], ["Kolapakkam", "Area 2"], ["Kolathur", "Area 2"],
-    ["Kottivakkam", "Area 2"], ["M.K.B Nagar", "Area 2"], ["Madhavaram", "Area 2"], ["Madipakkam", "Area 2"],
-    ["Maduvangarai", "Area 2"], ["Mettukuppam", "Area 2"], ["Moolakadai", "Area 2"], ["Nandambakkam", "Area 2"],
-    ["Nerkundram", "Area 2"], ["Padi", "Area 2"], ["Palavakkam", "Area 2"], ["Pallavaram", "Area 2"],
-    ["Peravallur", "Area 2"], ["Perungudi", "Area 2"], ["Porur", "Area 2"], ["Sembiam", "Area 2"],
-    ["Thiruvanmiyur", "Area 2"], ["Thiruvotriyur", "Area 2"], ["Thoraipakkam", "Area 2"], ["Valasaravakkam", "Area 2"],
-    ["Velachery", "Area 2"], ["Vijayanagaram", "Area 2"], ["Virugambakkam", "Area 2"], ["Akkarai", "Area 3"],
-    ["Annanoore", "Area 3"], ["Athipedu", "Area 3"], ["Avadi", "Area 3"], ["Ayambekkam", "Area 3"],
-    ["Ayappakkam", "Area 3"], ["Chitlapakkam", "Area 3"], ["Chrompet", "Area 3"], ["Ennore", "Area 3"],
-    ["Girugambakkam", "Area 3"], ["Golden Beach (VGP)", "Area 3"], ["Injambakkam", "Area 3"], ["Kallikuppam", "Area 3"],
-    ["Karapakkam", "Area 3"], ["Kattupakkam", "Area 3"], ["Manali", "Area 3"], ["Medavakkam", "Area 3"],
-    ["Muthukaranchavadi", "Area 3"], ["Numbal", "Area 3"], ["Pallikaranai", "Area 3"], ["Pammal", "Area 3"],
-    ["Perumbbakkam", "Area 3"], ["Poonamallee", "Area 3"], ["Puzhal", "Area 3"], ["Red Hills", "Area 3"],
-    ["Solinganallur", "Area 3"], ["Sothupakkam", "Area 3"], ["Tambaram", "Area 3"], ["Vadaperumbakkam", "Area 3"],
-    ["Vanagaram", "Area 3"], ["Vengaivasal", "Area 3"], ["Alamathi", "Area 4"], ["AvadiHVF", "Area 4"],
-    ["Chembarambakkam", "Area 4"], ["Chemmanchery", "Area 4"], ["Cholavaram", "Area 4"], ["Kanathur", "Area 4"],
-    ["Karanodai", "Area 4"], ["Kovur", "Area 4"], ["Kundrathur", "Area 4"], ["Meenjore", "Area 4"],
-    ["Molavarpakkam", "Area 4"], ["Navalur", "Area 4"], ["Panchetty", "Area 4"], ["Pattabiram", "Area 4"],
-    ["Ponmar", "Area 4"], ["Thirumazhisai", "Area 4"], ["Thiruvallur-1", "Area 4"], ["Urapakkam", "Area 4"],
-    ["Uthandi", "Area 4"], ["Vallamedu", "Area 4"], ["Vandalur", "Area 4"], ["Vaniyanchavadi", "Area 4"],
-    ["Vengal Kuttu Road", "Area 4"], ["Athipattu", "Area 5"], ["Azhingivakkam", "Area 5"], ["Guduvanchery", "Area 5"],
-    ["Kakalur", "Area 5"], ["Kandigai", "Area 5"], ["Kelambakkam", "Area 5"], ["Kovalam", "Area 5"],
-    ["Manimangalam", "Area 5"], ["Muttukadu", "Area 5"], ["Nemilichery", "Area 5"], ["Padappai", "Area 5"],
-    ["Padur", "Area 5"], ["Paruthipattu", "Area 5"], ["Ponneri", "Area 5"], ["Poochi Athipedu", "Area 5"],
-    ["Shevapet", "Area 5"], ["Urakkadu", "Area 5"], ["Vengal", "Area 5"], ["Alathur", "Area 6"],
-    ["Gummidipoondi", "Area 6"], ["Kavarapet", "Area 6"], ["Maraimalai Nagar", "Area 6"], ["Periyapalayam", "Area 6"],
-    ["Puduvoyal", "Area 6"], ["Sengadu", "Area 6"], ["Singaperumal Koil", "Area 6"], ["Sriperumbathur", "Area 6"],
-    ["Thiruporur", "Area 6"], ["Thiruvallur", "Area 6"], ["Vadanemili", "Area 6"], ["Vallam", "Area 6"],
-    ["Chengalpet", "Area 7"], ["Elaavur", "Area 7"], ["Madharpakkam", "Area 7"], ["Mahabalipuram", "Area 7"],
-    ["Oragadam", "Area 7"], ["Pazhaverkadu", "Area 7"], ["Poondi", "Area 7"], ["Sunguvachathiram", "Area 7"],
-    ["Ulandai", "Area 7"], ["Arambakkam", "Area 8"], ["Kalpakkam", "Area 8"], ["Kancheepuram", "Area 8"],
-    ["Poonur", "Area 8"], ["Pukkathurai", "Area 8"], ["Thiruvelangadu", "Area 8"], ["Uthukottai", "Area 8"],
-    ["Arakkonam", "Area 9"], ["Maduranthagam", "Area 9"], ["Serampalayam", "Area 9"], ["Thiruthani", "Area 9"],
-    ["Manjampakkam", "Area 3"], ["Alandur", "Area 2"], ["Thirumudivakkam", "Area 4"], ["Anakaputhur", "Area 3"],
-    ["Walajabad", "Area 7"]
-];
-const initialCalculationsData: string[][] = [
-    ["products_type_category", "products_minimum_hours", "products_minimum_km", "products_minimum_charges", "products_additional_hours_charges", "products_running_hours", "products_driver_bata"],
-    ["Transport_1000 Kg_Area 1", "2", "20", "600", "180", "0", "25"],
-    ["Transport_2000 Kg_Area 1", "2", "20", "900", "200", "0", "25"],
-    ["Transport_3000 Kg_Area 1", "2", "20", "1000", "220", "0", "25"],
-    ["Transport_DCM Toyota_Area 1", "2", "20", "1200", "260", "0", "25"],
-    ["Transport_17 Feet_Area 1", "2", "20", "1350", "300", "0", "25"],
-    ["Transport_20 Feet_Area 1", "2", "20", "1450", "320", "0", "25"],
-    ["Transport_1000 Kg_Area 2", "2", "30", "800", "180", "1", "25"],
-    ["Transport_2000 Kg_Area 2", "2", "30", "1000", "200", "1", "25"],
-    ["Transport_3000 Kg_Area 2", "2", "30", "1100", "220", "1", "25"],
-    ["Transport_DCM Toyota_Area 2", "2", "30", "1350", "260", "1", "25"],
-    ["Transport_17 Feet_Area 2", "2", "30", "1550", "300", "1", "25"],
-    ["Transport_20 Feet_Area 2", "2", "30", "1650", "320", "1", "25"],
-    ["Transport_1000 Kg_Area 3", "2", "50", "1000", "180", "1.25", "25"],
-    ["Transport_2000 Kg_Area 3", "2", "50", "1300", "200", "1.25", "25"],
-    ["Transport_3000 Kg_Area 3", "2", "50", "1400", "220", "1.25", "25"],
-    ["Transport_DCM Toyota_Area 3", "2", "50", "1500", "260", "1.25", "25"],
-    ["Transport_17 Feet_Area 3", "2", "50", "1750", "300", "1.25", "25"],
-    ["Transport_20 Feet_Area 3", "2", "50", "1850", "320", "1.25", "25"],
-    ["Transport_1000 Kg_Area 4", "3.5", "70", "1300", "180", "1.5", "25"],
-    ["Transport_2000 Kg_Area 4", "3.5", "70", "1700", "200", "1.5", "25"],
-    ["Transport_3000 Kg_Area 4", "3.5", "70", "1900", "220", "1.5", "25"],
-    ["Transport_DCM Toyota_Area 4", "3.5", "70", "2200", "260", "1.5", "25"],
-    ["Transport_17 Feet_Area 4", "3.5", "70", "2400", "300", "1.5", "25"],
-    ["Transport_20 Feet_Area 4", "3.5", "70", "2600", "320", "1.5", "25"],
-    ["Transport_1000 Kg_Area 5", "4.5", "80", "1500", "180", "1.75", "25"],
-    ["Transport_2000 Kg_Area 5", "4.5", "80", "2000", "200", "1.75", "25"],
-    ["Transport_3000 Kg_Area 5", "4.5", "80", "2200", "220", "1.75", "25"],
-    ["Transport_DCM Toyota_Area 5", "4.5", "80", "2500", "260", "1.75", "25"],
-    ["Transport_17 Feet_Area 5", "4.5", "80", "2800", "300", "1.75", "25"],
-    ["Transport_20 Feet_Area 5", "4.5", "80", "3000", "320", "1.75", "25"],
-    ["Transport_1000 Kg_Area 6", "5", "90", "1700", "180", "2", "25"],
-    ["Transport_2000 Kg_Area 6", "5", "90", "2200", "200", "2", "25"],
-    ["Transport_3000 Kg_Area 6", "5", "90", "2400", "220", "2", "25"],
-    ["Transport_DCM Toyota_Area 6", "5", "90", "2700", "260", "2", "25"],
-    ["Transport_17 Feet_Area 6", "5", "90", "3000", "300", "2", "25"],
-    ["Transport_20 Feet_Area 6", "5", "90", "3200", "320", "2", "25"],
-    ["Transport_1000 Kg_Area 7", "5.5", "110", "1900", "180", "2.5", "25"],
-    ["Transport_2000 Kg_Area 7", "5.5", "110", "2500", "200", "2.5", "25"],
-    ["Transport_3000 Kg_Area 7", "5.5", "110", "2750", "220", "2.5", "25"],
-    ["Transport_DCM Toyota_Area 7", "5.5", "110", "3200", "260", "2.5", "25"],
-    ["Transport_17 Feet_Area 7", "5.5", "110", "3500", "300", "2.5", "25"],
-    ["Transport_20 Feet_Area 7", "5.5", "110", "3700", "320", "2.5", "25"],
-    ["Transport_1000 Kg_Area 8", "6", "150", "2300", "180", "3", "25"],
-    ["Transport_2000 Kg_Area 8", "6", "150", "2900", "200", "3", "25"],
-    ["Transport_3000 Kg_Area 8", "6", "150", "3200", "220", "3", "25"],
-    ["Transport_DCM Toyota_Area 8", "6", "150", "3600", "260", "3", "25"],
-    ["Transport_17 Feet_Area 8", "6", "150", "4200", "300", "3", "25"],
-    ["Transport_20 Feet_Area 8", "6", "150", "4400", "320", "3", "25"],
-    ["Transport_1000 Kg_Area 9", "8", "200", "2800", "180", "3.5", "25"],
-    ["Transport_2000 Kg_Area 9", "8", "200", "3700", "200", "3.5", "25"],
-    ["Transport_3000 Kg_Area 9", "8", "200", "4100", "220", "3.5", "25"],
-    ["Transport_DCM Toyota_Area 9", "8", "200", "4500", "260", "3.5", "25"],
-    ["Transport_17 Feet_Area 9", "8", "200", "5200", "300", "3.5", "25"],
-    ["Transport_20 Feet_Area 9", "8", "200", "5400", "320", "3.5", "25"],
-    ["VIKING_17 Feet_Area 1", "2", "20", "1250", "300", "0", "25"],
-    ["VIKING_17 Feet_Area 2", "2", "30", "1450", "300", "1", "25"],
-    ["VIKING_17 Feet_Area 3", "2", "50", "1650", "300", "1.25", "25"],
-    ["VIKING_17 Feet_Area 4", "3.5", "70", "2200", "300", "1.5", "25"],
-    ["VIKING_17 Feet_Area 5", "4.5", "80", "2600", "300", "1.75", "25"],
-    ["VIKING_17 Feet_Area 6", "5", "90", "2800", "300", "2", "25"],
-    ["VIKING_17 Feet_Area 7", "5.5", "110", "3500", "300", "2.5", "25"],
-    ["VIKING_17 Feet_Area 8", "6", "150", "3400", "300", "3", "25"],
-    ["VIKING_17 Feet_Area 9", "8", "200", "4100", "300", "3.5", "25"],
-    ["VIKING_20 Feet_Area 1", "2", "20", "0", "320", "0", "25"],
-    ["VIKING_20 Feet_Area 2", "2", "30", "0", "320", "1", "25"],
-    ["VIKING_20 Feet_Area 3", "2", "50", "0", "320", "1.25", "25"],
-    ["VIKING_20 Feet_Area 4", "3.5", "70", "0", "320", "1.5", "25"],
-    ["VIKING_20 Feet_Area 5", "4.5", "80", "0", "320", "1.75", "25"],
-    ["VIKING_20 Feet_Area 6", "5", "90", "0", "320", "2", "25"],
-    ["VIKING_20 Feet_Area 7", "5.5", "110", "0", "320", "2.5", "25"],
-    ["VIKING_20 Feet_Area 8", "6", "150", "0", "320", "3", "25"],
-    ["VIKING_20 Feet_Area 9", "8", "200", "0", "320", "3.5", "25"],
-    ["VIKING_407_Area 1", "2", "20", "900", "200", "0", "25"],
-    ["VIKING_407_Area 2", "2", "30", "1000", "200", "1", "25"],
-    ["VIKING_407_Area 3", "2", "50", "1250", "200", "1.25", "25"],
-    ["VIKING_407_Area 4", "3.5", "70", "1700", "200", "1.5", "25"],
-    ["VIKING_407_Area 5", "4.5", "80", "2000", "200", "1.75", "25"],
-    ["VIKING_407_Area 6", "5", "90", "2200", "200", "2", "25"],
-    ["VIKING_407_Area 7", "5.5", "110", "2750", "220", "2.5", "25"],
-    ["VIKING_407_Area 8", "6", "150", "2700", "200", "3", "25"],
-    ["VIKING_407_Area 9", "8", "200", "3400", "200", "3.5", "25"],
-    ["VIKING_DCM Toyota_Area 1", "2", "20", "1100", "260", "0", "25"],
-    ["VIKING_DCM Toyota_Area 2", "2", "30", "1250", "260", "1", "25"],
-    ["VIKING_DCM Toyota_Area 3", "2", "50", "1400", "260", "1.25", "25"],
-    ["VIKING_DCM Toyota_Area 4", "3.5", "70", "1900", "260", "1.5", "25"],
-    ["VIKING_DCM Toyota_Area 5", "4.5", "80", "2200", "260", "1.75", "25"],
-    ["VIKING_DCM Toyota_Area 6", "5", "90", "2500", "260", "2", "25"],
-    ["VIKING_DCM Toyota_Area 7", "5.5", "110", "3200", "260", "2.5", "25"],
-    ["VIKING_DCM Toyota_Area 8", "6", "150", "3100", "260", "3", "25"],
-    ["VIKING_DCM Toyota_Area 9", "8", "200", "3700", "260", "3.5", "25"],
-    ["VIKING_DOST_Area 1", "2", "20", "800", "180", "0", "25"],
-    ["VIKING_DOST_Area 2", "2", "30", "900", "180", "1", "25"],
-    ["VIKING_DOST_Area 3", "2", "50", "1200", "180", "1.25", "25"],
-    ["VIKING_DOST_Area 4", "3.5", "70", "1600", "180", "1.5", "25"],
-    ["VIKING_DOST_Area 5", "4.5", "80", "1800", "180", "1.75", "25"],
-    ["VIKING_DOST_Area 6", "5", "90", "2000", "180", "2", "25"],
-    ["VIKING_DOST_Area 7", "5.5", "110", "2500", "200", "2.5", "25"],
-    ["VIKING_DOST_Area 8", "6", "150", "2500", "180", "3", "25"],
-    ["VIKING_DOST_Area 9", "8", "200", "3200", "180", "3.5", "25"],
-    ["VIKING_TATA ACE_Area 1", "2", "20", "600", "160", "0", "25"],
-    ["VIKING_TATA ACE_Area 2", "2", "30", "800", "160", "1", "25"],
-    ["VIKING_TATA ACE_Area 3", "2", "50", "1000", "160", "1.25", "25"],
-    ["VIKING_TATA ACE_Area 4", "3.5", "70", "1300", "160", "1.5", "25"],
-    ["VIKING_TATA ACE_Area 5", "4.5", "80", "1500", "160", "1.75", "25"],
-    ["VIKING_TATA ACE_Area 6", "5", "90", "1700", "160", "2", "25"],
-    ["VIKING_TATA ACE_Area 7", "5.5", "110", "1900", "180", "2.5", "25"],
-    ["VIKING_TATA ACE_Area 8", "6", "150", "2300", "160", "3", "25"],
-    ["VIKING_TATA ACE_Area 9", "8", "200", "2300", "160", "3.5", "25"]
-];
-const initialLookupData: string[][] = [
-    ["driver_name", "license_number", "phone"],
-    ["Ramesh", "TN-01-A-1234", "9876543210"],
-    ["Kumar", "TN-02-B-5678", "9876543211"],
-];
-
-// --- Database Service (IndexedDB) ---
-const DB_NAME = 'SBT_AdminDB';
-const DB_VERSION = 2; // Incremented version for new schema
-let db: IDBDatabase | null = null;
-
-// FIX: Define an interface for object store options to ensure type safety.
-interface ObjectStoreOptions {
-    keyPath: string;
-    autoIncrement?: boolean;
-}
-
-const objectStores: Record<string, ObjectStoreOptions> = {
-    memos: { keyPath: 'trips_memo_no' },
-    invoices: { keyPath: 'id', autoIncrement: true },
-    customers: { keyPath: 'id', autoIncrement: true },
-    areas: { keyPath: 'id', autoIncrement: true },
-    calculations: { keyPath: 'id', autoIncrement: true },
-    lookup: { keyPath: 'id', autoIncrement: true },
-};
-
-const initDB = (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-        if (db) {
-            return resolve(db);
-        }
-
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-        request.onerror = (event) => {
-            console.error("Database error:", request.error);
-            reject("Database error");
-        };
-
-        request.onsuccess = (event) => {
-            db = request.result;
-            resolve(db);
-        };
-
-        request.onupgradeneeded = (event) => {
-            const tempDb = (event.target as IDBOpenDBRequest).result;
-            const oldVersion = event.oldVersion;
-
-            for (const [storeName, options] of Object.entries(objectStores)) {
-                if (!tempDb.objectStoreNames.contains(storeName)) {
-                    tempDb.createObjectStore(storeName, options);
-                }
-            }
-            
-            if (oldVersion < 1) { // Only seed data on initial creation
-                const tx = (event.target as any).transaction;
-                
-                // Seed Memos (formerly invoices)
-                const memoStore = tx.objectStore('memos');
-                initialMemos.forEach(item => memoStore.add(item));
-
-                // Seed Customers
-                const customerStore = tx.objectStore('customers');
-                initialCustomers.forEach(item => customerStore.add(item));
-                
-                // Seed Areas
-                const areaStore = tx.objectStore('areas');
-                initialAreasData.forEach(row => areaStore.add({ locationArea: row[0], locationCategory: row[1] }));
-                
-                // Seed Calculations
-                const calculationStore = tx.objectStore('calculations');
-                const calcHeaders = initialCalculationsData[0];
-                initialCalculationsData.slice(1).forEach(row => {
-                    const record: { [key: string]: string } = {};
-                    calcHeaders.forEach((header, i) => record[header] = row[i]);
-                    calculationStore.add(record);
-                });
-                
-                // Seed Lookup
-                const lookupStore = tx.objectStore('lookup');
-                const lookupHeaders = initialLookupData[0];
-                initialLookupData.slice(1).forEach(row => {
-                    const record: { [key: string]: string } = {};
-                    lookupHeaders.forEach((header, i) => record[header] = row[i]);
-                    lookupStore.add(record);
-                });
-            }
-        };
-    });
-};
-
-const dbRequest = <T>(storeName: keyof typeof objectStores, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
-    return initDB().then(db => {
-        return new Promise<T>((resolve, reject) => {
-            const transaction = db.transaction(storeName, mode);
-            const store = transaction.objectStore(storeName);
-            const request = action(store);
-
-            request.onerror = () => reject(request.error);
-            request.onsuccess = () => resolve(request.result as T);
-        });
-    });
-};
-
+import { DataProvider } from './dataProvider';
+import { dbRequest, objectStores, StoreName, runTransaction, requestToPromise, readPage } from './db';
+import { runMutation, insertRecord, replaceRecord, discardRecord } from './mutations';
+import { getRecycleBin, restoreFromRecycleBin, purgeFromRecycleBin } from './recycleBin';
+import { queryAuditLog } from './audit';
+import { InvoiceConflictError } from './errors';
+import { voidInvoiceNumber, getInvoiceSequenceReport } from './invoiceSequence';
+import { updateCustomer, deleteCustomer, getCustomerUsage, getCustomerLinkReview, linkCustomerDocuments, applyMemoCustomer, applyInvoiceCustomer } from './customerLinks';
+import { previewImport, importDb, previewSnapshotRollback, rollbackToSnapshot } from './databaseImport';
+import { getSnapshots, takeSnapshot, runScheduledSnapshot, deleteSnapshot, getSnapshotRetention, saveSnapshotRetention, captureSnapshot, SNAPSHOT_STORES } from './snapshots';
+import { createBackupEnvelope } from './backupFormat';
+import { importMasterData } from './masterDataImport';
+import { previewDocumentNumber, takeDocumentNumber, getNumberingScheme, saveNumberingScheme } from './numbering';
+import { discountRuleProblems } from '../utils/discounts';
+import { buildServicesCatalog, brandProblems, policyOverrideProblems, renamedCalculationKey } from '../utils/servicesCatalog';
+import { calculationVersionProblems, dayBefore, describePeriod, isInForce, withoutBlankDates } from '../utils/rateVersions';
+import { previewTariffRevision, tariffRevisionProblems } from '../utils/tariffRevision';
 
 // --- API Functions ---
 
-export const generateNewMemoNumber = async (): Promise<string> => {
-    const memos = await getMemos();
-    let maxNum = 0;
-    memos.forEach(i => {
-        if (i.trips_memo_no && i.trips_memo_no.includes('-')) {
-            const num = parseInt(i.trips_memo_no.split('-')[1], 10);
-            if (!isNaN(num) && num > maxNum) maxNum = num;
-        }
-    });
-    return `SBT-${String(maxNum + 1).padStart(3, '0')}`;
-};
+const DEFAULT_PAGE_SIZE = 50;
+// Sorts after every ISO date, so it works as an open upper bound in date ranges.
+const END_OF_DATES = '\uffff';
+
+// A preview only: the number is taken when the memo is created, see `createMemo`.
+export const generateNewMemoNumber = (date?: string): Promise<string> => previewDocumentNumber('memo', date);
+export const getMemoNumbering = (): Promise<NumberingScheme> => getNumberingScheme('memo');
+export const saveMemoNumbering = (scheme: NumberingScheme): Promise<void> => saveNumberingScheme('memo', scheme);
+export const getInvoiceNumbering = (): Promise<NumberingScheme> => getNumberingScheme('invoice');
+export const saveInvoiceNumbering = (scheme: NumberingScheme): Promise<void> => saveNumberingScheme('invoice', scheme);
 
 export const updateCustomerAddresses = async (customerName: string): Promise<CustomerAddress[]> => {
     const customers = await getCustomers();
@@ -303,134 +40,418 @@ export const updateCustomerAddresses = async (customerName: string): Promise<Cus
 
 // Customer CRUD
 export const getCustomers = (): Promise<Customer[]> => dbRequest('customers', 'readonly', store => store.getAll());
-export const addCustomer = (customer: Omit<Customer, 'id'>): Promise<number> => dbRequest('customers', 'readwrite', store => store.add(customer));
-export const updateCustomer = (customer: Customer): Promise<number> => dbRequest('customers', 'readwrite', store => store.put(customer));
-export const deleteCustomer = (id: number): Promise<void> => dbRequest('customers', 'readwrite', store => store.delete(id));
+export const addCustomer = (customer: Omit<Customer, 'id'>): Promise<number> => runMutation(['customers'], tx => insertRecord(tx, 'customers', customer)) as Promise<number>;
+// Updating a customer also renames its draft invoices, and deleting one is refused while
+// memos or invoices still refer to it; see services/customerLinks.ts.
 
 // Memo CRUD
-export const saveMemoData = (memo: MemoData): Promise<string> => dbRequest('memos', 'readwrite', store => store.put(memo)).then(() => 'SUCCESS');
+// Numbers a new memo from the memo counter and saves it in the same transaction.
+export const createMemo = (memo: MemoData): Promise<string> =>
+    runMutation(['memos', 'customers', 'settings'], async tx => {
+        const memoNo = await takeDocumentNumber(tx, 'memo', memo.trip_operated_date1);
+        await insertRecord(tx, 'memos', { ...await applyMemoCustomer(tx, memo), trips_memo_no: memoNo });
+        return memoNo;
+    });
+export const saveMemoData = (memo: MemoData): Promise<string> =>
+    runMutation(['memos', 'customers'], async tx => {
+        const stored = await requestToPromise<MemoData | undefined>(tx.objectStore('memos').get(memo.trips_memo_no));
+        await replaceRecord(tx, 'memos', await applyMemoCustomer(tx, memo, stored));
+        return 'SUCCESS';
+    });
 export const searchMemoByMemoNo = (memoNo: string): Promise<MemoData | null> => dbRequest('memos', 'readonly', store => store.get(memoNo));
 export const getMemos = (): Promise<MemoData[]> => dbRequest('memos', 'readonly', store => store.getAll());
-export const deleteMemo = (memoNo: string): Promise<void> => dbRequest('memos', 'readwrite', store => store.delete(memoNo));
 
-// New Invoice CRUD
-export const getInvoices = (): Promise<Invoice[]> => dbRequest('invoices', 'readonly', store => store.getAll());
-export const getInvoiceById = (id: number): Promise<Invoice | null> => dbRequest('invoices', 'readonly', store => store.get(id));
-export const addInvoice = (invoice: Omit<Invoice, 'id'>): Promise<number> => dbRequest('invoices', 'readwrite', store => store.add(invoice));
-export const updateInvoice = (invoice: Invoice): Promise<number> => dbRequest('invoices', 'readwrite', store => store.put(invoice));
-export const deleteInvoice = (id: number): Promise<void> => dbRequest('invoices', 'readwrite', store => store.delete(id));
+// Whether any of `texts` contains the search term, in any case. A blank term matches all.
+const searchMatcher = (search: string | undefined) => {
+    const term = (search || '').trim().toLowerCase();
+    return term ? (...texts: (string | undefined)[]) => texts.some(text => (text || '').toLowerCase().includes(term)) : undefined;
+};
 
-export const generateNewInvoiceNumber = async (): Promise<string> => {
-    const invoices = await getInvoices();
-    return `INV-${String(invoices.length + 1).padStart(4, '0')}`;
+// Newest operated date first. Filtering by customer uses the compound index so the
+// date range still narrows the scan; the search is checked on the records scanned.
+export const queryMemos = (query: MemoQuery = {}): Promise<PagedResult<MemoData>> =>
+    runTransaction(['memos'], 'readonly', transaction => {
+        const store = transaction.objectStore('memos');
+        const limit = query.limit || DEFAULT_PAGE_SIZE;
+        const from = query.fromDate || '';
+        const to = query.toDate || END_OF_DATES;
+        const search = searchMatcher(query.search);
+        const matches = search && ((memo: MemoData) => search(memo.trips_memo_no, memo.customers_name));
+
+        if (query.customerId !== undefined) {
+            const range = IDBKeyRange.bound([query.customerId, from], [query.customerId, to]);
+            return readPage<MemoData>(store.index('by_customer_id_date'), range, limit, query.cursor, 'prev', matches);
+        }
+        const range = query.fromDate || query.toDate ? IDBKeyRange.bound(from, to) : null;
+        return readPage<MemoData>(store.index('by_operated_date'), range, limit, query.cursor, 'prev', matches);
+    });
+
+// A cancelled invoice keeps its memo numbers for the record but no longer bills them,
+// so those memos can go on a new invoice.
+const billingInvoiceOf = async (byMemoNo: IDBIndex, memoNo: string, exceptId?: number): Promise<Invoice | undefined> => {
+    const claims = await requestToPromise<Invoice[]>(byMemoNo.getAll(memoNo));
+    return claims.find(claim => claim.id !== exceptId && claim.status !== 'Cancelled');
 };
 
-export const getUninvoicedMemosForCustomer = async (customerName: string): Promise<MemoData[]> => {
-    const allMemos = await getMemos();
-    const allInvoices = await getInvoices();
+// A memo billed by an invoice is only deleted once the invoice no longer bills it. The
+// check runs in the deleting transaction, so an invoice saved meanwhile is not missed.
+export const deleteMemo = (memoNo: string): Promise<void> =>
+    runMutation(['memos', 'invoices'], async tx => {
+        const invoice = await billingInvoiceOf(tx.objectStore('invoices').index('by_memo_no'), memoNo);
+        if (invoice) throw new Error(`Memo ${memoNo} is on invoice ${invoice.invoice_no}. Remove it from the invoice before deleting it.`);
+        await discardRecord(tx, 'memos', memoNo);
+    });
+
+// Maps each given memo number to the number of the invoice that bills it, if any.
+export const getInvoiceNumbersForMemos = (memoNos: string[]): Promise<Record<string, string>> =>
+    runTransaction(['invoices'], 'readonly', async transaction => {
+        const byMemoNo = transaction.objectStore('invoices').index('by_memo_no');
+        const invoices = await Promise.all(memoNos.map(memoNo => billingInvoiceOf(byMemoNo, memoNo)));
+        const result: Record<string, string> = {};
+        memoNos.forEach((memoNo, i) => {
+            const invoice = invoices[i];
+            if (invoice) result[memoNo] = invoice.invoice_no;
+        });
+        return result;
+    });
+
+// Re-checks, inside the saving transaction, that every memo on the invoice still exists
+// and is not billed by a different invoice. The form's list of available memos is only a
+// snapshot, so another tab may have claimed one since it was loaded.
+const assertMemosUnclaimed = async (transaction: IDBTransaction, invoice: Partial<Invoice>): Promise<void> => {
+    const memoStore = transaction.objectStore('memos');
+    const byMemoNo = transaction.objectStore('invoices').index('by_memo_no');
+    const memoNos = Array.from(new Set(invoice.memo_nos || []));
+    const problems: string[] = [];
+    const offending: string[] = [];
+
+    for (const memoNo of memoNos) {
+        const memoKey = await requestToPromise(memoStore.getKey(memoNo));
+        if (memoKey === undefined) {
+            offending.push(memoNo);
+            problems.push(`${memoNo} no longer exists`);
+            continue;
+        }
+        const otherInvoice = await billingInvoiceOf(byMemoNo, memoNo, invoice.id);
+        if (otherInvoice) {
+            offending.push(memoNo);
+            problems.push(`${memoNo} is already on invoice ${otherInvoice.invoice_no}`);
+        }
+    }
 
-    const invoicedMemoNos = new Set(allInvoices.flatMap(inv => inv.memo_nos));
-    
-    return allMemos.filter(memo => 
-        memo.customers_name === customerName && !invoicedMemoNos.has(memo.trips_memo_no)
-    );
+    if (offending.length > 0) {
+        throw new InvoiceConflictError(offending, `Invoice not saved: memo ${problems.join('; memo ')}.`);
+    }
 };
 
+// New Invoice CRUD
+export const getInvoices = (): Promise<Invoice[]> => dbRequest('invoices', 'readonly', store => store.getAll());
+export const getInvoiceById = (id: number): Promise<Invoice | null> => dbRequest('invoices', 'readonly', store => store.get(id));
+// The invoice number is taken from the invoice counter when the invoice is saved, so
+// the number shown in the form beforehand is only a preview.
+export const addInvoice = (newInvoice: Omit<Invoice, 'id'>): Promise<number> =>
+    runMutation(['invoices', 'memos', 'customers', 'settings', 'voidedInvoiceNumbers'], async tx => {
+        const invoice = await applyInvoiceCustomer(tx, newInvoice);
+        if (invoice.status !== 'Cancelled') {
+            await assertMemosUnclaimed(tx, invoice);
+        }
+        const invoiceNo = await takeDocumentNumber(tx, 'invoice', invoice.invoice_date);
+        const id = await insertRecord(tx, 'invoices', { ...invoice, invoice_no: invoiceNo }) as number;
+        if (invoice.status === 'Cancelled') {
+            await voidInvoiceNumber(tx, { ...invoice, id, invoice_no: invoiceNo }, 'cancelled');
+        }
+        return id;
+    });
+// An invoice keeps the number it was created with. Cancelling it records the number as
+// voided; a cancelled invoice cannot be changed again.
+export const updateInvoice = (invoice: Invoice): Promise<number> =>
+    runMutation(['invoices', 'memos', 'customers', 'voidedInvoiceNumbers'], async tx => {
+        const stored = await requestToPromise<Invoice | undefined>(tx.objectStore('invoices').get(invoice.id));
+        if (stored?.status === 'Cancelled') {
+            throw new Error(`Invoice ${stored.invoice_no} is cancelled and can no longer be changed.`);
+        }
+        const record = await applyInvoiceCustomer(tx, stored ? { ...invoice, invoice_no: stored.invoice_no } : invoice, stored);
+        if (record.status === 'Cancelled') {
+            await voidInvoiceNumber(tx, record, 'cancelled');
+        } else {
+            await assertMemosUnclaimed(tx, record);
+        }
+        return replaceRecord(tx, 'invoices', record);
+    }) as Promise<number>;
+export const deleteInvoice = (id: number): Promise<void> =>
+    runMutation(['invoices', 'voidedInvoiceNumbers'], async tx => {
+        const stored = await requestToPromise<Invoice | undefined>(tx.objectStore('invoices').get(id));
+        if (stored) {
+            await voidInvoiceNumber(tx, stored, 'deleted');
+        }
+        await discardRecord(tx, 'invoices', id);
+    });
+
+// A preview only: the number is taken when the invoice is saved, see `addInvoice`.
+export const generateNewInvoiceNumber = (date?: string): Promise<string> => previewDocumentNumber('invoice', date);
+
+export const queryInvoices = (query: InvoiceQuery = {}): Promise<PagedResult<Invoice>> =>
+    runTransaction(['invoices'], 'readonly', transaction => {
+        const store = transaction.objectStore('invoices');
+        const limit = query.limit || DEFAULT_PAGE_SIZE;
+        const from = query.fromDate || '';
+        const to = query.toDate || END_OF_DATES;
+        const search = searchMatcher(query.search);
+        const matches = search && ((invoice: Invoice) => search(invoice.invoice_no, invoice.customer_name));
+
+        if (query.customerId !== undefined) {
+            const range = IDBKeyRange.bound([query.customerId, from], [query.customerId, to]);
+            return readPage<Invoice>(store.index('by_customer_id_date'), range, limit, query.cursor, 'prev', matches);
+        }
+        const range = query.fromDate || query.toDate ? IDBKeyRange.bound(from, to) : null;
+        return readPage<Invoice>(store.index('by_invoice_date'), range, limit, query.cursor, 'prev', matches);
+    });
+
+export const getUninvoicedMemosForCustomer = (customerId: number): Promise<MemoData[]> =>
+    runTransaction(['memos', 'invoices'], 'readonly', async transaction => {
+        const memos = await requestToPromise<MemoData[]>(
+            transaction.objectStore('memos').index('by_customer_id').getAll(customerId)
+        );
+        const byMemoNo = transaction.objectStore('invoices').index('by_memo_no');
+        const billedBy = await Promise.all(memos.map(memo => billingInvoiceOf(byMemoNo, memo.trips_memo_no)));
+        return memos.filter((_, i) => !billedBy[i]);
+    });
+
 // Areas CRUD
 export const getAreas = (): Promise<Area[]> => dbRequest('areas', 'readonly', store => store.getAll());
-export const addArea = (area: Omit<Area, 'id'>): Promise<number> => dbRequest('areas', 'readwrite', store => store.add(area));
-export const updateArea = (area: Area): Promise<number> => dbRequest('areas', 'readwrite', store => store.put(area));
-export const deleteArea = (id: number): Promise<void> => dbRequest('areas', 'readwrite', store => store.delete(id));
+export const addArea = (area: Omit<Area, 'id'>): Promise<number> => runMutation(['areas'], tx => insertRecord(tx, 'areas', area)) as Promise<number>;
+export const updateArea = (area: Area): Promise<number> => runMutation(['areas'], tx => replaceRecord(tx, 'areas', area)) as Promise<number>;
+export const deleteArea = (id: number): Promise<void> => runMutation(['areas'], tx => discardRecord(tx, 'areas', id));
+
+// Records that fail validation are refused with the problems as the message.
+const checkProblems = (problems: string[]): void => {
+    if (problems.length > 0) throw new Error(problems.join(' '));
+};
 
 // Calculations CRUD
-export const getCalculations = (): Promise<Calculation[]> => dbRequest('calculations', 'readonly', store => store.getAll());
-export const addCalculationRecord = (record: Omit<Calculation, 'id'>): Promise<number> => dbRequest('calculations', 'readwrite', store => store.add(record));
-export const updateCalculationRecord = (record: Calculation): Promise<number> => dbRequest('calculations', 'readwrite', store => store.put(record));
-export const deleteCalculationRecord = (id: number): Promise<void> => dbRequest('calculations', 'readwrite', store => store.delete(id));
+// Each row is one version of a category's rates; saving one that overlaps another
+// version of its category is refused.
+const checkCalculation = async <T extends Calculation>(tx: IDBTransaction, record: T): Promise<T> => {
+    const calc = withoutBlankDates(record);
+    const versions = await requestToPromise<Calculation[]>(tx.objectStore('calculations').index('by_category').getAll(calc.products_type_category));
+    checkProblems(calculationVersionProblems(calc, versions));
+    return calc;
+};
 
-// Lookup CRUD
-export const getLookupData = (): Promise<Lookup[]> => dbRequest('lookup', 'readonly', store => store.getAll());
-export const addLookupRecord = (record: Omit<Lookup, 'id'>): Promise<number> => dbRequest('lookup', 'readwrite', store => store.add(record));
-export const updateLookupRecord = (record: Lookup): Promise<number> => dbRequest('lookup', 'readwrite', store => store.put(record));
-export const deleteLookupRecord = (id: number): Promise<void> => dbRequest('lookup', 'readwrite', store => store.delete(id));
+export const getCalculations = (): Promise<Calculation[]> => dbRequest('calculations', 'readonly', store => store.getAll());
+export const addCalculationRecord = (record: Omit<Calculation, 'id'>): Promise<number> => runMutation(['calculations'], async tx => insertRecord(tx, 'calculations', await checkCalculation(tx, record))) as Promise<number>;
+export const updateCalculationRecord = (record: Calculation): Promise<number> => runMutation(['calculations'], async tx => replaceRecord(tx, 'calculations', await checkCalculation(tx, record))) as Promise<number>;
+// Ends `stored` the day before `effectiveFrom` and inserts `rates` as the version in force
+// from then until `stored` would have ended. `rates` carries the revision `stored` was
+// loaded with.
+const startVersion = async (tx: IDBTransaction, stored: Calculation, rates: Calculation, effectiveFrom: string): Promise<IDBValidKey> => {
+    await replaceRecord(tx, 'calculations', { ...stored, revision: rates.revision, effective_to: dayBefore(effectiveFrom) });
+    const { id, revision, updated_at, ...fields } = rates;
+    const revised = { ...fields, products_type_category: stored.products_type_category, effective_from: effectiveFrom, effective_to: stored.effective_to };
+    return insertRecord(tx, 'calculations', await checkCalculation(tx, revised));
+};
 
-// View All Services
-export const getViewAllServicesData = async (): Promise<string[][]> => {
-    const areas = await getAreas();
-    const calculations = await getCalculations();
-    
-    const calculationMap = new Map<string, Calculation>();
-    calculations.forEach(calc => calculationMap.set(calc.products_type_category, calc));
-    
-    const BRANDS = ["Transport", "VIKING"];
-
-    const generatedData: string[][] = [];
-    for (const area of areas) {
-        for (const vehicleType of VEHICLE_TYPES) {
-            for (const brand of BRANDS) {
-                const lookupKey = `${brand}_${vehicleType}_${area.locationCategory}`;
-                const calcData = calculationMap.get(lookupKey);
-                
-                if (calcData) {
-                    const productItem = `${brand}_${area.locationCategory}_${area.locationArea}_${vehicleType}`.replace(/ /g, '_');
-                    
-                    let driverBata = calcData.products_driver_bata;
-                    if (brand === 'VIKING' && area.locationArea !== 'Chengalpet') {
-                        driverBata = '0';
-                    }
-
-                    generatedData.push([
-                        area.locationArea,
-                        area.locationCategory,
-                        `${brand} - ${vehicleType}`,
-                        productItem,
-                        calcData.products_minimum_hours,
-                        calcData.products_minimum_km,
-                        calcData.products_minimum_charges,
-                        calcData.products_additional_hours_charges,
-                        calcData.products_running_hours,
-                        driverBata,
-                        vehicleType, // Raw vehicle type
-                    ]);
-                }
+// Puts new rates in force from `effectiveFrom`: the version being revised ends the day
+// before, and a new version carries `record`'s rates from then until the old version
+// would have ended. `record` must carry the revision the old version was loaded with.
+export const reviseCalculation = (record: Calculation, effectiveFrom: string): Promise<number> =>
+    runMutation(['calculations'], async tx => {
+        const stored = await requestToPromise<Calculation | undefined>(tx.objectStore('calculations').get(record.id!));
+        if (!stored) throw new Error('The rate being revised no longer exists.');
+        if (!isInForce(stored, effectiveFrom) || stored.effective_from === effectiveFrom) {
+            throw new Error(`The new rates must start within the period of the rates they replace (${describePeriod(stored)}), after its first day.`);
+        }
+        return startVersion(tx, stored, record, effectiveFrom);
+    }) as Promise<number>;
+// Applies a bulk revision to every row it matches in one transaction, after a snapshot of
+// the whole database. Resolves to the number of rows revised.
+export const reviseTariffs = (revision: TariffRevision): Promise<number> =>
+    runMutation(SNAPSHOT_STORES, async tx => {
+        const rows = previewTariffRevision(await requestToPromise(tx.objectStore('calculations').getAll()), revision);
+        checkProblems(tariffRevisionProblems(revision, rows));
+        await captureSnapshot(tx, 'before-bulk-edit');
+        for (const { before, after } of rows) {
+            // A row already starting on the date is corrected rather than split.
+            if (revision.effective_from && before.effective_from !== revision.effective_from) {
+                await startVersion(tx, before, after, revision.effective_from);
+            } else {
+                await replaceRecord(tx, 'calculations', after);
             }
         }
-    }
-    return generatedData;
+        return rows.length;
+    });
+export const deleteCalculationRecord = (id: number): Promise<void> => runMutation(['calculations'], tx => discardRecord(tx, 'calculations', id));
+
+// Lookup CRUD
+export const getLookupData = (): Promise<Lookup[]> => dbRequest('lookup', 'readonly', store => store.getAll());
+export const addLookupRecord = (record: Omit<Lookup, 'id'>): Promise<number> => runMutation(['lookup'], tx => insertRecord(tx, 'lookup', record)) as Promise<number>;
+export const updateLookupRecord = (record: Lookup): Promise<number> => runMutation(['lookup'], tx => replaceRecord(tx, 'lookup', record)) as Promise<number>;
+export const deleteLookupRecord = (id: number): Promise<void> => runMutation(['lookup'], tx => discardRecord(tx, 'lookup', id));
+
+// Discount Rules CRUD
+const checkDiscountRule = <T extends Omit<DiscountRule, 'id'>>(rule: T): T => {
+    checkProblems(discountRuleProblems(rule));
+    return rule;
 };
 
-// Database Import/Export
-export const exportDb = async (): Promise<any> => {
-    const data: { [key: string]: any[] } = {};
-    for (const storeName of Object.keys(objectStores)) {
-        data[storeName] = await dbRequest(storeName as keyof typeof objectStores, 'readonly', store => store.getAll());
+export const getDiscountRules = (): Promise<DiscountRule[]> => dbRequest('discountRules', 'readonly', store => store.getAll());
+export const addDiscountRule = (rule: Omit<DiscountRule, 'id'>): Promise<number> => runMutation(['discountRules'], tx => insertRecord(tx, 'discountRules', checkDiscountRule(rule))) as Promise<number>;
+export const updateDiscountRule = (rule: DiscountRule): Promise<number> => runMutation(['discountRules'], tx => replaceRecord(tx, 'discountRules', checkDiscountRule(rule))) as Promise<number>;
+export const deleteDiscountRule = (id: number): Promise<void> => runMutation(['discountRules'], tx => discardRecord(tx, 'discountRules', id));
+
+// Brands and policy overrides CRUD
+const readBrands = (tx: IDBTransaction): Promise<Brand[]> => requestToPromise(tx.objectStore('brands').getAll());
+
+export const getBrands = (): Promise<Brand[]> => dbRequest('brands', 'readonly', store => store.getAll());
+export const addBrand = (brand: Omit<Brand, 'id'>): Promise<number> =>
+    runMutation(['brands'], async tx => {
+        checkProblems(brandProblems(brand, await readBrands(tx)));
+        return insertRecord(tx, 'brands', { ...brand, name: brand.name.trim() });
+    }) as Promise<number>;
+// Calculation rows and discount rules name their brand, so they are renamed with it.
+const renameBrandReferences = async (tx: IDBTransaction, from: string, to: string): Promise<void> => {
+    const calculations = await requestToPromise<Calculation[]>(tx.objectStore('calculations').getAll());
+    for (const calc of calculations) {
+        const products_type_category = renamedCalculationKey(calc.products_type_category, from, to);
+        if (products_type_category) await replaceRecord(tx, 'calculations', { ...calc, products_type_category });
+    }
+    const rules = await requestToPromise<DiscountRule[]>(tx.objectStore('discountRules').getAll());
+    for (const rule of rules.filter(rule => rule.brand === from)) {
+        await replaceRecord(tx, 'discountRules', { ...rule, brand: to });
     }
-    return data;
 };
 
-export const importDb = async (data: any): Promise<string> => {
-    const db = await initDB();
-    const storeNames = Object.keys(objectStores);
-    
-    // Basic validation
-    if (!storeNames.every(name => data[name] && Array.isArray(data[name]))) {
-        throw new Error("Invalid database file format or missing data.");
-    }
-    
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(storeNames, 'readwrite');
-        transaction.onerror = (event) => reject(transaction.error);
-        transaction.oncomplete = (event) => resolve("Database imported successfully.");
+export const updateBrand = (brand: Brand): Promise<number> =>
+    runMutation(['brands', 'calculations', 'discountRules'], async tx => {
+        const brands = await readBrands(tx);
+        checkProblems(brandProblems(brand, brands));
+        const name = brand.name.trim();
+        const key = await replaceRecord(tx, 'brands', { ...brand, name });
+        const previous = brands.find(other => other.id === brand.id);
+        if (previous && previous.name !== name) await renameBrandReferences(tx, previous.name, name);
+        return key;
+    }) as Promise<number>;
+// A brand is only deleted once nothing overrides it.
+export const deleteBrand = (id: number): Promise<void> =>
+    runMutation(['brands', 'policyOverrides'], async tx => {
+        const overrides = await requestToPromise<PolicyOverride[]>(tx.objectStore('policyOverrides').getAll());
+        const count = overrides.filter(override => override.brand_id === id).length;
+        if (count > 0) throw new Error(`The brand has ${count} policy overrides. Delete them before deleting the brand.`);
+        await discardRecord(tx, 'brands', id);
+    });
+
+export const getPolicyOverrides = (): Promise<PolicyOverride[]> => dbRequest('policyOverrides', 'readonly', store => store.getAll());
+export const addPolicyOverride = (override: Omit<PolicyOverride, 'id'>): Promise<number> =>
+    runMutation(['brands', 'policyOverrides'], async tx => {
+        checkProblems(policyOverrideProblems(override, await readBrands(tx)));
+        return insertRecord(tx, 'policyOverrides', override);
+    }) as Promise<number>;
+export const updatePolicyOverride = (override: PolicyOverride): Promise<number> =>
+    runMutation(['brands', 'policyOverrides'], async tx => {
+        checkProblems(policyOverrideProblems(override, await readBrands(tx)));
+        return replaceRecord(tx, 'policyOverrides', override);
+    }) as Promise<number>;
+export const deletePolicyOverride = (id: number): Promise<void> => runMutation(['policyOverrides'], tx => discardRecord(tx, 'policyOverrides', id));
+
+// View All Services
+// The services with the rates in force on `asOf`, by default today.
+export const getViewAllServicesData = (asOf: string = new Date().toISOString().split('T')[0]): Promise<string[][]> =>
+    runTransaction(['areas', 'calculations', 'brands', 'policyOverrides'], 'readonly', async tx => buildServicesCatalog({
+        areas: await requestToPromise<Area[]>(tx.objectStore('areas').getAll()),
+        calculations: await requestToPromise<Calculation[]>(tx.objectStore('calculations').getAll()),
+        brands: await requestToPromise<Brand[]>(tx.objectStore('brands').getAll()),
+        overrides: await requestToPromise<PolicyOverride[]>(tx.objectStore('policyOverrides').getAll()),
+        vehicleTypes: VEHICLE_TYPES,
+        asOf,
+    }));
 
+// Database Import/Export
+// Every store is read in one transaction, so a save made meanwhile is either wholly in
+// the backup or not in it at all. The hash is worked out once the transaction is done.
+export const exportDb = async (): Promise<BackupEnvelope> => {
+    const storeNames = Object.keys(objectStores) as StoreName[];
+    const data = await runTransaction(storeNames, 'readonly', async transaction => {
+        const stores: { [key: string]: any[] } = {};
         for (const storeName of storeNames) {
-            const store = transaction.objectStore(storeName);
-            store.clear();
-            for (const item of data[storeName]) {
-                if (objectStores[storeName].autoIncrement) {
-                    delete item.id;
-                }
-                store.add(item);
-            }
+            stores[storeName] = await requestToPromise<any[]>(transaction.objectStore(storeName).getAll());
         }
+        return stores;
     });
+    return createBackupEnvelope(data);
+};
+
+// The IndexedDB implementation of the data provider contract.
+export const indexedDbProvider: DataProvider = {
+    generateNewMemoNumber,
+    updateCustomerAddresses,
+    getCustomers,
+    addCustomer,
+    updateCustomer,
+    deleteCustomer,
+    getCustomerUsage,
+    getCustomerLinkReview,
+    linkCustomerDocuments,
+    createMemo,
+    saveMemoData,
+    searchMemoByMemoNo,
+    getMemos,
+    deleteMemo,
+    queryMemos,
+    getInvoiceNumbersForMemos,
+    getInvoices,
+    getInvoiceById,
+    addInvoice,
+    updateInvoice,
+    deleteInvoice,
+    generateNewInvoiceNumber,
+    queryInvoices,
+    getUninvoicedMemosForCustomer,
+    getAreas,
+    addArea,
+    updateArea,
+    deleteArea,
+    getCalculations,
+    addCalculationRecord,
+    updateCalculationRecord,
+    deleteCalculationRecord,
+    reviseCalculation,
+    reviseTariffs,
+    getDiscountRules,
+    addDiscountRule,
+    updateDiscountRule,
+    deleteDiscountRule,
+    getBrands,
+    addBrand,
+    updateBrand,
+    deleteBrand,
+    getPolicyOverrides,
+    addPolicyOverride,
+    updatePolicyOverride,
+    deletePolicyOverride,
+    getLookupData,
+    addLookupRecord,
+    updateLookupRecord,
+    deleteLookupRecord,
+    importMasterData,
+    queryAuditLog,
+    getRecycleBin,
+    restoreFromRecycleBin,
+    purgeFromRecycleBin,
+    getViewAllServicesData,
+    getMemoNumbering,
+    saveMemoNumbering,
+    getInvoiceNumbering,
+    saveInvoiceNumbering,
+    getInvoiceSequenceReport,
+    getSnapshots,
+    takeSnapshot,
+    runScheduledSnapshot,
+    deleteSnapshot,
+    previewSnapshotRollback,
+    rollbackToSnapshot,
+    getSnapshotRetention,
+    saveSnapshotRetention,
+    exportDb,
+    previewImport,
+    importDb,
 };
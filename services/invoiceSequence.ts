@@ -0,0 +1,120 @@
+import { Invoice, InvoiceSequenceGap, InvoiceSequenceReport, VoidedInvoiceNumber } from '../types';
+import { runTransaction, requestToPromise } from './db';
+import { getActingUser } from './session';
+import { getNumberingScheme } from './numbering';
+import { formatDocumentNumber, parseDocumentNumber } from '../utils/documentNumbers';
+
+// --- Invoice number register ---
+// Invoice numbers are never reused. When an invoice is deleted or cancelled, or dropped
+// by an import or rollback, its number is recorded in `voidedInvoiceNumbers`, which also
+// keeps the numbering service from handing it out again. The gap report lists every number missing from the run of
+// issued invoices, with the reason when one was recorded.
+
+// Records why `invoice`'s number went out of use. A number voided once keeps its first
+// reason, so deleting a cancelled invoice still reports it as cancelled.
+export const voidInvoiceNumber = async (
+    transaction: IDBTransaction,
+    invoice: Invoice,
+    reason: VoidedInvoiceNumber['reason'],
+): Promise<void> => {
+    const store = transaction.objectStore('voidedInvoiceNumbers');
+    const existing = await requestToPromise(store.getKey(invoice.invoice_no));
+    if (existing !== undefined) return;
+    const entry: VoidedInvoiceNumber = {
+        invoice_no: invoice.invoice_no,
+        invoice_id: invoice.id,
+        invoice_date: invoice.invoice_date,
+        customer_name: invoice.customer_name,
+        reason,
+        voided_at: new Date().toISOString(),
+        voided_by: getActingUser(),
+    };
+    await requestToPromise(store.put(entry));
+};
+
+// A deleted invoice restored from the recycle bin takes its number back.
+export const unvoidDeletedInvoiceNumber = async (transaction: IDBTransaction, invoiceNo: string): Promise<void> => {
+    const store = transaction.objectStore('voidedInvoiceNumbers');
+    const entry = await requestToPromise<VoidedInvoiceNumber | undefined>(store.get(invoiceNo));
+    if (entry?.reason === 'deleted') {
+        await requestToPromise(store.delete(invoiceNo));
+    }
+};
+
+export interface IssuedInvoiceNumbers {
+    invoices: Invoice[];
+    voided: VoidedInvoiceNumber[];
+}
+
+export const readIssuedInvoiceNumbers = async (transaction: IDBTransaction): Promise<IssuedInvoiceNumbers> => ({
+    invoices: await requestToPromise<Invoice[]>(transaction.objectStore('invoices').getAll()),
+    voided: await requestToPromise<VoidedInvoiceNumber[]>(transaction.objectStore('voidedInvoiceNumbers').getAll()),
+});
+
+// After an import or rollback has replaced the invoices: numbers voided before stay
+// voided, unless an invoice that is not cancelled has the number again, and the number of
+// every invoice the import dropped is voided as discarded.
+export const keepInvoiceNumbersVoided = async (transaction: IDBTransaction, earlier: IssuedInvoiceNumbers): Promise<void> => {
+    const store = transaction.objectStore('voidedInvoiceNumbers');
+    const { invoices } = await readIssuedInvoiceNumbers(transaction);
+    const numbers = new Set(invoices.map(invoice => invoice.invoice_no));
+    const activeNumbers = new Set(invoices.filter(invoice => invoice.status !== 'Cancelled').map(invoice => invoice.invoice_no));
+    for (const entry of earlier.voided) {
+        if (activeNumbers.has(entry.invoice_no)) continue;
+        const existing = await requestToPromise(store.getKey(entry.invoice_no));
+        if (existing === undefined) await requestToPromise(store.put(entry));
+    }
+    for (const invoice of earlier.invoices.filter(invoice => !numbers.has(invoice.invoice_no))) {
+        await voidInvoiceNumber(transaction, invoice, 'discarded');
+    }
+};
+
+// Longer runs of missing numbers are cut short in the report.
+const MAX_GAPS_PER_SERIES = 1000;
+
+// Checks the numbers written in the current invoice numbering format, one series per
+// financial year (or a single series when numbering never restarts). Numbers in older
+// formats are left out, since their sequence cannot be compared.
+export const getInvoiceSequenceReport = async (): Promise<InvoiceSequenceReport[]> => {
+    const scheme = await getNumberingScheme('invoice');
+    const { invoices, voided } = await runTransaction(['invoices', 'voidedInvoiceNumbers'], 'readonly', readIssuedInvoiceNumbers);
+
+    const voidedByNumber = new Map(voided.map(entry => [entry.invoice_no, entry]));
+    const activeNumbers = new Set(invoices.filter(invoice => invoice.status !== 'Cancelled').map(invoice => invoice.invoice_no));
+    // series -> sequence -> the number issued with it
+    const numbersBySeries = new Map<string, Map<number, string>>();
+    [...invoices.map(invoice => invoice.invoice_no), ...voidedByNumber.keys()].forEach(number => {
+        const parsed = parseDocumentNumber(scheme, number);
+        if (!parsed) return;
+        const series = scheme.reset === 'financial-year' ? parsed.financialYear || '' : 'all';
+        if (!numbersBySeries.has(series)) numbersBySeries.set(series, new Map());
+        numbersBySeries.get(series)!.set(parsed.sequence, number);
+    });
+
+    return Array.from(numbersBySeries.entries())
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([series, numbers]) => {
+            const highest = Math.max(...numbers.keys());
+            // A number never issued has no year of its own when the sequence runs across
+            // years, so it is shown with the year of the series' latest number.
+            const financialYear = scheme.reset === 'financial-year' ? series : parseDocumentNumber(scheme, numbers.get(highest)!)?.financialYear || '';
+            const gaps: InvoiceSequenceGap[] = [];
+            for (let sequence = 1; sequence <= highest && gaps.length < MAX_GAPS_PER_SERIES; sequence++) {
+                const number = numbers.get(sequence);
+                if (number === undefined) {
+                    gaps.push({ invoice_no: formatDocumentNumber(scheme, financialYear, sequence), status: 'missing' });
+                } else if (!activeNumbers.has(number)) {
+                    const entry = voidedByNumber.get(number);
+                    // A cancelled invoice loaded from a backup may have no entry.
+                    gaps.push(entry ? { invoice_no: number, status: entry.reason, voided: entry } : { invoice_no: number, status: 'cancelled' });
+                }
+            }
+            return {
+                series: series === 'all' ? 'All years' : series,
+                first: numbers.get(Math.min(...numbers.keys()))!,
+                last: numbers.get(highest)!,
+                issued: numbers.size,
+                gaps,
+            };
+        });
+};
@@ -0,0 +1,147 @@
+import { MasterDataEntity, MasterDataImportRow, MasterDataImportOptions, MasterDataImportReport, MasterDataRowResult } from '../types';
+import { LOCATION_CATEGORIES, VEHICLE_TYPES } from '../constants';
+import { runTransaction, requestToPromise } from './db';
+import { runMutation, insertRecord, replaceRecord } from './mutations';
+import { recordRules, validateRecord } from './backupFormat';
+import { calculationVersionProblems, RateVersion } from '../utils/rateVersions';
+
+// --- Master data import from spreadsheets ---
+// Rows arrive already mapped to record fields by the import wizard. Each row is checked
+// against the same rules as backup files plus a few per-entity ones, matched against the
+// stored records by its natural key. Invalid rows are reported and left out; every other
+// row is written in a single transaction, so the accepted rows land together or not at all.
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const calculationAmountFields = [
+    'products_minimum_hours', 'products_minimum_km', 'products_minimum_charges',
+    'products_additional_hours_charges', 'products_running_hours', 'products_driver_bata', 'products_extra_km_rate',
+];
+
+const normalizeKey = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+// The field values that identify the same real-world record, e.g. one customer name.
+const naturalKey: Record<MasterDataEntity, (record: any) => string> = {
+    customers: record => normalizeKey(record.customers_name),
+    areas: record => normalizeKey(record.locationArea),
+    // A category has one row per dated version of its rates.
+    calculations: record => `${normalizeKey(record.products_type_category)}|${record.effective_from || ''}`,
+    // Two drivers can share a name, so the licence decides when there is one.
+    lookup: record => record.license_number?.trim()
+        ? `licence:${normalizeKey(record.license_number)}`
+        : `name:${normalizeKey(record.driver_name)}`,
+};
+
+const entityChecks: Partial<Record<MasterDataEntity, (record: any) => string[]>> = {
+    // Backups accept a blank name, as the lookup form saves one, but an import row needs it.
+    lookup: record => record.driver_name ? [] : ['driver_name is empty'],
+    areas: record => LOCATION_CATEGORIES.includes(record.locationCategory)
+        ? []
+        : [`locationCategory must be one of ${LOCATION_CATEGORIES.join(', ')}`],
+    calculations: record => {
+        const problems: string[] = [];
+        // Categories are "<brand>_<vehicle type>_<area category>", as the memo form builds them.
+        const [brand, vehicleType, areaCategory, ...rest] = (record.products_type_category || '').split('_');
+        if (!brand || !VEHICLE_TYPES.includes(vehicleType) || !LOCATION_CATEGORIES.includes(areaCategory) || rest.length) {
+            problems.push('products_type_category must look like Brand_Vehicle type_Area category, e.g. Transport_1000 Kg_Area 1');
+        }
+        calculationAmountFields.forEach(field => {
+            if (record[field] && !NUMBER_PATTERN.test(record[field])) problems.push(`${field} must be a number`);
+        });
+        return problems;
+    },
+};
+
+// Keeps only the entity's own fields, trimmed, and fills the optional ones with ''.
+// Optional dates are left out when blank, as an empty date is not a date.
+const toRecord = (entity: MasterDataEntity, values: Record<string, string>): Record<string, string> => {
+    const record: Record<string, string> = {};
+    Object.entries(recordRules[entity]).filter(([field]) => field !== 'id').forEach(([field, rule]) => {
+        const value = (values[field] ?? '').trim();
+        if (value || !rule.date || rule.required) record[field] = value;
+    });
+    return record;
+};
+
+const rateVersionOf = (record: Record<string, string>, id?: number): RateVersion => ({
+    id,
+    products_type_category: record.products_type_category,
+    effective_from: record.effective_from,
+    effective_to: record.effective_to,
+});
+
+export const importMasterData = (
+    entity: MasterDataEntity,
+    rows: MasterDataImportRow[],
+    options: MasterDataImportOptions,
+): Promise<MasterDataImportReport> => {
+    const work = async (transaction: IDBTransaction): Promise<MasterDataImportReport> => {
+        const existing: any[] = await requestToPromise(transaction.objectStore(entity).getAll());
+        const existingByKey = new Map<string, any>();
+        existing.forEach(record => existingByKey.set(naturalKey[entity](record), record));
+
+        const firstRowByKey = new Map<string, number>();
+        const writes: { record: any; existing?: any }[] = [];
+        // The calculations as they will stand after the rows accepted so far, for checking
+        // that the versions of a category do not overlap. New rows get a stand-in id.
+        let versions: any[] = entity === 'calculations' ? existing : [];
+        const results: MasterDataRowResult[] = rows.map(({ row, record: values }) => {
+            const record = toRecord(entity, values);
+            const key = naturalKey[entity](record);
+            const match = existingByKey.get(key);
+            // The placeholder id only satisfies the backup rule; new records get theirs on insert.
+            const problems = [
+                ...validateRecord(entity, { ...record, id: match?.id ?? 0 }),
+                ...(entityChecks[entity]?.(record) ?? []),
+                ...(entity === 'calculations' ? calculationVersionProblems(rateVersionOf(record, match?.id), versions) : []),
+            ];
+            const earlierRow = firstRowByKey.get(key);
+            if (earlierRow !== undefined) {
+                problems.push(`repeats row ${earlierRow}`);
+            } else {
+                firstRowByKey.set(key, row);
+            }
+
+            if (problems.length) {
+                return { row, status: 'invalid', action: 'skip', problems };
+            }
+            if (match) {
+                // Only columns the file provides overwrite the stored values.
+                const provided = Object.keys(record).filter(field => values[field] !== undefined);
+                const changed = provided.some(field => (match[field] ?? '') !== record[field]);
+                if (options.duplicates === 'update' && changed) {
+                    const updates = Object.fromEntries(provided.map(field => [field, record[field]]));
+                    writes.push({ record: { ...match, ...updates }, existing: match });
+                    versions = versions.map(version => version.id === match.id ? { ...match, ...updates } : version);
+                    return { row, status: 'duplicate', action: 'update', problems, existingId: match.id };
+                }
+                return { row, status: 'duplicate', action: 'skip', problems, existingId: match.id };
+            }
+            writes.push({ record });
+            versions = [...versions, { ...record, id: -row }];
+            return { row, status: 'new', action: 'add', problems };
+        });
+
+        if (!options.dryRun) {
+            for (const write of writes) {
+                if (write.existing) {
+                    await replaceRecord(transaction, entity, write.record);
+                } else {
+                    await insertRecord(transaction, entity, write.record);
+                }
+            }
+        }
+
+        return {
+            entity,
+            rows: results,
+            added: results.filter(result => result.action === 'add').length,
+            updated: results.filter(result => result.action === 'update').length,
+            skipped: results.filter(result => result.action === 'skip' && result.status !== 'invalid').length,
+            invalid: results.filter(result => result.status === 'invalid').length,
+            committed: !options.dryRun,
+        };
+    };
+
+    return options.dryRun ? runTransaction([entity], 'readonly', work) : runMutation([entity], work);
+};
@@ -0,0 +1,315 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { DB_NAME, requestToPromise } from './db';
+import { DB_VERSION, migrations } from './migrations';
+import { applyDiscountRules } from '../utils/discounts';
+import { memoFromLegacy } from '../utils/memoValues';
+
+// Each test starts from an empty browser and opens the database at an old version, as a
+// user who last ran that release would have it, then upgrades it one step.
+
+type Prepare = (transaction: IDBTransaction) => void;
+
+// Opens the database at `version`, running the steps up to it. `prepare` runs in the same
+// upgrade, after the steps, so it can write records the way that version stored them.
+const openAt = (factory: IDBFactory, version: number, prepare?: Prepare): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = factory.open(DB_NAME, version);
+        request.onerror = () => reject(request.error);
+        request.onupgradeneeded = (event) => {
+            const context = { db: request.result, transaction: request.transaction! };
+            const steps = migrations.filter(m => m.version > event.oldVersion && m.version <= version);
+            (async () => {
+                for (const step of steps) await step.migrate(context);
+                prepare?.(context.transaction);
+            })().catch(error => {
+                reject(error);
+                context.transaction.abort();
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+    });
+
+// Opens a new database at `version - 1`, prepared with `prepare`, then upgrades it to `version`.
+const upgradeTo = async (version: number, prepare?: Prepare): Promise<IDBDatabase> => {
+    const factory = new IDBFactory();
+    (await openAt(factory, version - 1, prepare)).close();
+    return openAt(factory, version);
+};
+
+const readAll = (db: IDBDatabase, storeName: string): Promise<any[]> =>
+    requestToPromise(db.transaction(storeName).objectStore(storeName).getAll());
+
+const indexNames = (db: IDBDatabase, storeName: string): string[] =>
+    Array.from(db.transaction(storeName).objectStore(storeName).indexNames);
+
+const clear = (transaction: IDBTransaction, ...storeNames: string[]) =>
+    storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+
+describe('migrations', () => {
+    it('number the steps one after another', () => {
+        expect(migrations.map(m => m.version)).toEqual(migrations.map((_, index) => index + 1));
+        expect(DB_VERSION).toBe(migrations.length);
+    });
+
+    it('1: creates the master data and memo stores and seeds them', async () => {
+        const db = await openAt(new IDBFactory(), 1);
+        expect(Array.from(db.objectStoreNames).sort()).toEqual(['areas', 'calculations', 'customers', 'lookup', 'memos']);
+        const [memo] = await readAll(db, 'memos');
+        expect(memo.trips_memo_no).toBe('SBT-001');
+        expect(memo.trips_total_amt).toBe('1000');
+        expect((await readAll(db, 'customers')).map(c => c.customers_name)).toEqual(['John Doe', 'Jane Smith']);
+        expect((await readAll(db, 'areas'))[0]).toEqual({ id: 1, locationArea: 'Local Trip', locationCategory: 'Area 1' });
+        expect((await readAll(db, 'calculations'))[0]).toHaveProperty('products_type_category');
+        expect((await readAll(db, 'lookup'))[0]).toMatchObject({ driver_name: 'Ramesh' });
+        db.close();
+    });
+
+    it('2: adds the invoices store', async () => {
+        const db = await upgradeTo(2);
+        expect(db.objectStoreNames.contains('invoices')).toBe(true);
+        expect(await readAll(db, 'memos')).toHaveLength(1);
+        db.close();
+    });
+
+    it('3: indexes memos and invoices', async () => {
+        const db = await upgradeTo(3);
+        expect(indexNames(db, 'memos').sort()).toEqual(['by_customer', 'by_customer_date', 'by_operated_date']);
+        expect(indexNames(db, 'invoices').sort()).toEqual(['by_customer_date', 'by_invoice_date', 'by_memo_no']);
+        db.close();
+    });
+
+    it('4: adds the audit trail', async () => {
+        const db = await upgradeTo(4);
+        expect(indexNames(db, 'audit').sort()).toEqual(['by_entity_time', 'by_timestamp']);
+        db.close();
+    });
+
+    it('5: adds the recycle bin', async () => {
+        const db = await upgradeTo(5);
+        expect(indexNames(db, 'recycleBin').sort()).toEqual(['by_deleted_at', 'by_entity_key']);
+        db.close();
+    });
+
+    it('6: gives records without one revision 1', async () => {
+        const db = await upgradeTo(6, transaction => {
+            transaction.objectStore('customers').put({ id: 2, customers_name: 'Jane Smith', revision: 4 });
+            transaction.objectStore('invoices').add({ invoice_no: 'INV-1', memo_nos: [] });
+        });
+        expect((await readAll(db, 'customers')).map(c => c.revision)).toEqual([1, 4]);
+        expect((await readAll(db, 'invoices'))[0].revision).toBe(1);
+        expect((await readAll(db, 'memos'))[0].revision).toBe(1);
+        db.close();
+    });
+
+    it('7: adds the settings and snapshot stores', async () => {
+        const db = await upgradeTo(7);
+        expect(db.objectStoreNames.contains('settings')).toBe(true);
+        expect(indexNames(db, 'snapshots').sort()).toEqual(['by_reason_time', 'by_taken_at']);
+        db.close();
+    });
+
+    it('8: adds the voided invoice numbers and indexes invoices by number', async () => {
+        const db = await upgradeTo(8);
+        expect(db.objectStoreNames.contains('voidedInvoiceNumbers')).toBe(true);
+        expect(indexNames(db, 'invoices')).toContain('by_invoice_no');
+        db.close();
+    });
+
+    describe('9: links memos and invoices to their customer', () => {
+        const prepare: Prepare = transaction => {
+            clear(transaction, 'customers', 'memos');
+            const customers = transaction.objectStore('customers');
+            customers.add({ id: 1, customers_name: 'ABC Transport', customers_address1: '1 Main St', customers_address2: 'Chennai', revision: 1 });
+            customers.add({ id: 2, customers_name: 'Ravi', customers_address1: '', customers_address2: '', revision: 1 });
+            customers.add({ id: 3, customers_name: 'ravi ', customers_address1: '', customers_address2: '', revision: 1 });
+            const memos = transaction.objectStore('memos');
+            memos.add({ trips_memo_no: 'M-1', customers_name: '  abc   TRANSPORT ', revision: 1 });
+            memos.add({ trips_memo_no: 'M-2', customers_name: 'Ravi', revision: 1 });
+            memos.add({ trips_memo_no: 'M-3', customers_name: 'Someone Else', revision: 1 });
+            memos.add({ trips_memo_no: 'M-4', customers_name: 'ABC Transport', customer_id: 2, revision: 1 });
+            transaction.objectStore('invoices').add({ invoice_no: 'INV-1', customer_name: 'ABC Transport', memo_nos: ['M-1'], revision: 1 });
+        };
+
+        it('by a name only one customer has, ignoring case and spacing', async () => {
+            const db = await upgradeTo(9, prepare);
+            const memos = await readAll(db, 'memos');
+            expect(memos.find(m => m.trips_memo_no === 'M-1').customer_id).toBe(1);
+            const [invoice] = await readAll(db, 'invoices');
+            expect(invoice).toMatchObject({ customer_id: 1, customer_address1: '1 Main St', customer_address2: 'Chennai' });
+            db.close();
+        });
+
+        it('leaving names shared or unknown, and existing links, alone', async () => {
+            const db = await upgradeTo(9, prepare);
+            const memos = await readAll(db, 'memos');
+            expect(memos.find(m => m.trips_memo_no === 'M-2').customer_id).toBeUndefined();
+            expect(memos.find(m => m.trips_memo_no === 'M-3').customer_id).toBeUndefined();
+            expect(memos.find(m => m.trips_memo_no === 'M-4').customer_id).toBe(2);
+            expect(indexNames(db, 'memos')).toEqual(expect.arrayContaining(['by_customer_id', 'by_customer_id_date']));
+            db.close();
+        });
+    });
+
+    describe('10: stores memo amounts as paise and quantities as numbers', () => {
+        const textMemo = {
+            trips_memo_no: 'M-1',
+            customers_name: 'Ravi',
+            trips_minimum_charges1: '1,250.50',
+            trips_toll_amt: '',
+            trips_km_rate: '1.005',
+            trips_total_amt: 'n/a',
+            trips_total_hours: '4.50',
+            trips_startingKm1: '1,000',
+            trips_discount_percentage: '',
+            trips_remark: '100',
+            revision: 1,
+        };
+        const prepare: Prepare = transaction => {
+            clear(transaction, 'memos');
+            transaction.objectStore('memos').add(textMemo);
+            transaction.objectStore('recycleBin').add({ entity: 'memos', key: 'M-2', record: { ...textMemo, trips_memo_no: 'M-2' } });
+            transaction.objectStore('recycleBin').add({ entity: 'customers', key: 5, record: { customers_name: '1,000' } });
+        };
+
+        it('converts the text, blank or unreadable text becoming zero', async () => {
+            const db = await upgradeTo(10, prepare);
+            const [memo] = await readAll(db, 'memos');
+            expect(memo).toMatchObject({
+                trips_minimum_charges1: 125050,
+                trips_toll_amt: 0,
+                trips_km_rate: 101,
+                trips_total_amt: 0,
+                trips_total_hours: 4.5,
+                trips_startingKm1: 1000,
+                trips_discount_percentage: 0,
+                trips_remark: '100',
+            });
+            // Fields the memo did not have are filled in as zero.
+            expect(memo.trips_balance).toBe(0);
+            expect(memo.trips_minimum_km1).toBeUndefined();
+            db.close();
+        });
+
+        it('converts deleted memos in the recycle bin, and nothing else there', async () => {
+            const db = await upgradeTo(10, prepare);
+            const [deletedMemo, deletedCustomer] = await readAll(db, 'recycleBin');
+            expect(deletedMemo.record.trips_minimum_charges1).toBe(125050);
+            expect(deletedCustomer.record).toEqual({ customers_name: '1,000' });
+            db.close();
+        });
+
+        it('leaves amounts that are already numbers', async () => {
+            const db = await upgradeTo(10, transaction => {
+                clear(transaction, 'memos');
+                transaction.objectStore('memos').add({ ...textMemo, trips_minimum_charges1: 90000, trips_total_hours: 3 });
+            });
+            const [memo] = await readAll(db, 'memos');
+            expect(memo.trips_minimum_charges1).toBe(90000);
+            expect(memo.trips_total_hours).toBe(3);
+            db.close();
+        });
+
+        it('converts the seeded sample memo', async () => {
+            const db = await upgradeTo(10);
+            const [memo] = await readAll(db, 'memos');
+            expect(memo).toMatchObject({ trips_minimum_charges1: 100000, trips_less_advance: 50000, trips_totalKm: 50, trips_fixed_amt: 0 });
+            db.close();
+        });
+    });
+
+    it('11: gives memos the minimum km, running hours and extra km fields, keeping any set', async () => {
+        const db = await upgradeTo(11, transaction => {
+            clear(transaction, 'memos');
+            transaction.objectStore('memos').add({ trips_memo_no: 'M-1', trips_total_amt: 100000, trips_extra_km_rate: 1200, revision: 1 });
+            transaction.objectStore('recycleBin').add({ entity: 'memos', key: 'M-2', record: { trips_memo_no: 'M-2' } });
+        });
+        const [memo] = await readAll(db, 'memos');
+        expect(memo).toEqual({
+            trips_memo_no: 'M-1',
+            trips_total_amt: 100000,
+            trips_minimum_km1: 0,
+            trips_minimum_km2: 0,
+            trips_running_hours: 0,
+            trips_extra_km: 0,
+            trips_extra_km_rate: 1200,
+            trips_extra_km_amt: 0,
+            revision: 1,
+        });
+        const [deleted] = await readAll(db, 'recycleBin');
+        expect(deleted.record.trips_running_hours).toBe(0);
+        db.close();
+    });
+
+    describe('12: turns the transport discount into a rule', () => {
+        it('adds one rule matching customer names that contain "transport"', async () => {
+            const db = await upgradeTo(12);
+            const rules = await readAll(db, 'discountRules');
+            expect(rules).toEqual([{
+                id: 1,
+                name: '10% for customers named Transport',
+                priority: 10,
+                active: true,
+                customer_name_contains: 'transport',
+                kind: 'percent',
+                value: 10,
+                revision: 1,
+            }]);
+            db.close();
+        });
+
+        it('so memos get the 10% the memo form gave by name', async () => {
+            const db = await upgradeTo(12);
+            const rules = await readAll(db, 'discountRules');
+            const [seeded] = await readAll(db, 'memos');
+            const discountFor = (customers_name: string) =>
+                applyDiscountRules({ ...seeded, customers_name, customer_id: undefined }, rules, []).trips_discount_percentage;
+            expect(discountFor('ABC Transport Co')).toBe(10);
+            expect(discountFor('SRI TRANSPORTS')).toBe(10);
+            expect(discountFor('Jane Smith')).toBe(0);
+            expect(discountFor('')).toBe(0);
+            db.close();
+        });
+
+        it('gives memos a flat discount of zero, keeping any set', async () => {
+            const db = await upgradeTo(12, transaction => {
+                transaction.objectStore('memos').add({ trips_memo_no: 'M-1', trips_discount_flat: 5000, revision: 1 });
+            });
+            const memos = await readAll(db, 'memos');
+            expect(memos.map(m => m.trips_discount_flat)).toEqual([5000, 0]);
+            db.close();
+        });
+    });
+
+    describe('13: adds the brand master and policy overrides', () => {
+        it('seeded with the brands the services catalog hardcoded', async () => {
+            const db = await upgradeTo(13);
+            expect((await readAll(db, 'brands')).map(b => [b.name, b.driver_bata_exempt])).toEqual([['Transport', false], ['VIKING', true]]);
+            expect(await readAll(db, 'policyOverrides')).toEqual([expect.objectContaining({ brand_id: 2, area: 'Chengalpet', kind: 'driver-bata-charged' })]);
+            db.close();
+        });
+
+        it('without seeding a database that already has brands', async () => {
+            const db = await upgradeTo(13, transaction => {
+                transaction.db.createObjectStore('brands', { keyPath: 'id', autoIncrement: true })
+                    .add({ id: 7, name: 'ACME', active: true, driver_bata_exempt: false, revision: 1 });
+            });
+            expect((await readAll(db, 'brands')).map(b => b.name)).toEqual(['ACME']);
+            expect(await readAll(db, 'policyOverrides')).toEqual([]);
+            db.close();
+        });
+    });
+
+    it('14: indexes calculations by category', async () => {
+        const db = await upgradeTo(14);
+        expect(indexNames(db, 'calculations')).toContain('by_category');
+        db.close();
+    });
+
+    it('leave a new database with memos of the current shape', async () => {
+        const db = await openAt(new IDBFactory(), DB_VERSION);
+        const [memo] = await readAll(db, 'memos');
+        expect(memo).toEqual(memoFromLegacy(memo));
+        db.close();
+    });
+});
@@ -0,0 +1,376 @@
+import {
+    initialCustomers,
+    initialAreasData,
+    initialCalculationsData,
+    initialLookupData,
+} from './seedData';
+
+// --- Schema Migrations ---
+// One step per database version, applied in order inside the `onupgradeneeded`
+// transaction. A browser that last opened version N runs every step above N, so a
+// step must never be edited once released: add a new step and bump the version instead.
+
+export interface MigrationContext {
+    db: IDBDatabase;
+    transaction: IDBTransaction;
+}
+
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (context: MigrationContext) => void | Promise<void>;
+}
+
+// --- Helpers for writing migration steps ---
+
+export const ensureStore = (
+    { db, transaction }: MigrationContext,
+    storeName: string,
+    options: IDBObjectStoreParameters,
+): IDBObjectStore => {
+    if (!db.objectStoreNames.contains(storeName)) {
+        return db.createObjectStore(storeName, options);
+    }
+    return transaction.objectStore(storeName);
+};
+
+export const ensureIndex = (
+    store: IDBObjectStore,
+    indexName: string,
+    keyPath: string | string[],
+    options?: IDBIndexParameters,
+): void => {
+    if (!store.indexNames.contains(indexName)) {
+        store.createIndex(indexName, keyPath, options);
+    }
+};
+
+// Walks every record in a store. Returning a record from `transform` writes it back;
+// returning nothing leaves the record untouched. Resolves once the cursor is exhausted.
+export const transformRecords = <T = any>(
+    { transaction }: MigrationContext,
+    storeName: string,
+    transform: (record: T) => T | void,
+): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            const updated = transform(cursor.value as T);
+            if (updated !== undefined) {
+                cursor.update(updated);
+            }
+            cursor.continue();
+        };
+    });
+};
+
+const readAllRecords = <T = any>({ transaction }: MigrationContext, storeName: string): Promise<T[]> => {
+    return new Promise((resolve, reject) => {
+        const request = transaction.objectStore(storeName).getAll();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result as T[]);
+    });
+};
+
+// Applies `transform` to every memo, and to the deleted memos in the recycle bin so that
+// restoring one brings back a memo of the current shape.
+const transformMemos = async (context: MigrationContext, transform: (memo: any) => any): Promise<void> => {
+    await transformRecords(context, 'memos', memo => transform(memo));
+    await transformRecords(context, 'recycleBin', entry => {
+        if (entry.entity === 'memos' && entry.record) {
+            return { ...entry, record: transform(entry.record) };
+        }
+    });
+};
+
+const rowsToRecords = (rows: string[][]): { [key: string]: string }[] => {
+    const headers = rows[0];
+    return rows.slice(1).map(row => {
+        const record: { [key: string]: string } = {};
+        headers.forEach((header, i) => record[header] = row[i]);
+        return record;
+    });
+};
+
+// --- Frozen data for released steps ---
+// Steps keep their own copies of the data and conversions they need: the app's types,
+// seed data and helpers move on, and a released step must behave as when it shipped.
+
+// The sample memo as version 1 stored it, amounts and quantities as text. Later steps
+// convert it along with every other memo.
+const seedMemosV1 = [
+    {
+        trips_memo_no: 'SBT-001', trip_operated_date1: '2024-07-28', trip_upto_operated_date2: '',
+        trips_vehicle_no: 'TN01AB1234', trips_vehicle_type: 'TATA ACE', customers_name: 'John Doe', customers_address1: '123 Main St', customers_address2: 'Anytown',
+        trips_starting_time1: '09:00', trips_closing_time1: '13:00', trips_starting_time2: '', trips_closing_time2: '',
+        trips_total_hours: '4.00', trips_startingKm1: '1000', trips_closingKm1: '1050', trips_startingKm2: '',
+        trips_closingKm2: '', trips_totalKm: '50', products_item: 'TATA ACE', trips_minimum_hours1: '4',
+        trips_minimum_charges1: '1000', products_item2: '', trips_minimum_hours2: '', trips_minimum_charges2: '',
+        trips_extra_hours: '0.00', trips_for_additional_hour_rate: '200', trips_for_additional_hour_amt: '0',
+        trips_fixed_amt_desc: 'Fixed Amount', trips_fixed_amt: '', trips_km: '50', trips_km_rate: '',
+        trips_Km_amt: '0', trips_discount_percentage: '', trips_discount: '0', trips_driver_bata_qty: '',
+        trips_driver_bata_rate: '', trips_driver_bata_amt: '', trips_toll_amt: '', trips_permit_amt: '',
+        trips_night_hault_amt: '', trips_other_charges_desc: 'Other Charges', trips_other_charges_amt: '0',
+        trips_total_amt: '1000', trips_less_advance: '500', trips_balance: '500',
+        trips_total_amt_in_words: 'Five Hundred Rupees Only', trips_remark: ''
+    },
+];
+
+// The memo fields version 10 converted from text.
+const v10MoneyFields = [
+    'trips_minimum_charges1', 'trips_minimum_charges2', 'trips_for_additional_hour_rate', 'trips_for_additional_hour_amt',
+    'trips_fixed_amt', 'trips_km_rate', 'trips_Km_amt', 'trips_discount', 'trips_driver_bata_rate', 'trips_driver_bata_amt',
+    'trips_toll_amt', 'trips_permit_amt', 'trips_night_hault_amt', 'trips_other_charges_amt',
+    'trips_total_amt', 'trips_less_advance', 'trips_balance',
+];
+const v10QuantityFields = [
+    'trips_total_hours', 'trips_startingKm1', 'trips_closingKm1', 'trips_startingKm2', 'trips_closingKm2',
+    'trips_totalKm', 'trips_minimum_hours1', 'trips_minimum_hours2', 'trips_extra_hours', 'trips_km',
+    'trips_discount_percentage', 'trips_driver_bata_qty',
+];
+
+// Text such as "1,250.5" as a number; blank or unreadable text is zero. Numbers are kept.
+const v10Number = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    const number = parseFloat(String(value ?? '').replace(/,/g, ''));
+    return Number.isFinite(number) ? number : 0;
+};
+
+// Rupees to whole paise. The product is trimmed to 15 significant digits first, as
+// 1.005 * 100 comes out a hair short of 100.5.
+const v10Paise = (value: unknown): number =>
+    typeof value === 'number' ? value : Math.round(Number((v10Number(value) * 100).toPrecision(15)));
+
+const v10Memo = (memo: any) => ({
+    ...memo,
+    ...Object.fromEntries(v10MoneyFields.map(field => [field, v10Paise(memo[field])])),
+    ...Object.fromEntries(v10QuantityFields.map(field => [field, v10Number(memo[field])])),
+});
+
+// The memo fields version 11 added, amounts in paise and the rest as plain numbers.
+const v11Fields = [
+    'trips_minimum_km1', 'trips_minimum_km2', 'trips_running_hours',
+    'trips_extra_km', 'trips_extra_km_rate', 'trips_extra_km_amt',
+];
+
+const v11Memo = (memo: any) => ({
+    ...memo,
+    ...Object.fromEntries(v11Fields.map(field => [field, memo[field] ?? 0])),
+});
+
+const v12TransportRule = {
+    name: '10% for customers named Transport',
+    priority: 10,
+    active: true,
+    customer_name_contains: 'transport',
+    kind: 'percent',
+    value: 10,
+    revision: 1,
+};
+
+// The brands and the one exception the services catalog had before they were data:
+// VIKING pays no driver bata except in Chengalpet.
+const v13Brands = [
+    { id: 1, name: 'Transport', active: true, driver_bata_exempt: false, revision: 1 },
+    { id: 2, name: 'VIKING', active: true, driver_bata_exempt: true, revision: 1 },
+];
+const v13PolicyOverrides = [
+    { id: 1, brand_id: 2, area: 'Chengalpet', kind: 'driver-bata-charged', note: 'VIKING pays driver bata in Chengalpet only.', revision: 1 },
+];
+
+// --- Migration Steps ---
+
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Create the master data and memo stores and seed them.',
+        migrate: (context) => {
+            const memoStore = ensureStore(context, 'memos', { keyPath: 'trips_memo_no' });
+            const customerStore = ensureStore(context, 'customers', { keyPath: 'id', autoIncrement: true });
+            const areaStore = ensureStore(context, 'areas', { keyPath: 'id', autoIncrement: true });
+            const calculationStore = ensureStore(context, 'calculations', { keyPath: 'id', autoIncrement: true });
+            const lookupStore = ensureStore(context, 'lookup', { keyPath: 'id', autoIncrement: true });
+
+            seedMemosV1.forEach(item => memoStore.add(item));
+            initialCustomers.forEach(item => customerStore.add(item));
+            initialAreasData.forEach(row => areaStore.add({ locationArea: row[0], locationCategory: row[1] }));
+            rowsToRecords(initialCalculationsData).forEach(record => calculationStore.add(record));
+            rowsToRecords(initialLookupData).forEach(record => lookupStore.add(record));
+        },
+    },
+    {
+        version: 2,
+        description: 'Add the invoices store; memos keep their own store.',
+        migrate: (context) => {
+            ensureStore(context, 'memos', { keyPath: 'trips_memo_no' });
+            ensureStore(context, 'invoices', { keyPath: 'id', autoIncrement: true });
+            ensureStore(context, 'customers', { keyPath: 'id', autoIncrement: true });
+            ensureStore(context, 'areas', { keyPath: 'id', autoIncrement: true });
+            ensureStore(context, 'calculations', { keyPath: 'id', autoIncrement: true });
+            ensureStore(context, 'lookup', { keyPath: 'id', autoIncrement: true });
+        },
+    },
+    {
+        version: 3,
+        description: 'Index memos by customer and operated date, and invoices by customer, date and memo number.',
+        migrate: ({ transaction }) => {
+            const memoStore = transaction.objectStore('memos');
+            ensureIndex(memoStore, 'by_customer', 'customers_name');
+            ensureIndex(memoStore, 'by_operated_date', 'trip_operated_date1');
+            ensureIndex(memoStore, 'by_customer_date', ['customers_name', 'trip_operated_date1']);
+
+            const invoiceStore = transaction.objectStore('invoices');
+            ensureIndex(invoiceStore, 'by_memo_no', 'memo_nos', { multiEntry: true });
+            ensureIndex(invoiceStore, 'by_invoice_date', 'invoice_date');
+            ensureIndex(invoiceStore, 'by_customer_date', ['customer_name', 'invoice_date']);
+        },
+    },
+    {
+        version: 4,
+        description: 'Add the append-only audit trail store.',
+        migrate: (context) => {
+            const auditStore = ensureStore(context, 'audit', { keyPath: 'id', autoIncrement: true });
+            ensureIndex(auditStore, 'by_timestamp', 'timestamp');
+            ensureIndex(auditStore, 'by_entity_time', ['entity', 'timestamp']);
+        },
+    },
+    {
+        version: 5,
+        description: 'Add the recycle bin that deleted records are moved into.',
+        migrate: (context) => {
+            const binStore = ensureStore(context, 'recycleBin', { keyPath: 'id', autoIncrement: true });
+            ensureIndex(binStore, 'by_deleted_at', 'deleted_at');
+            ensureIndex(binStore, 'by_entity_key', ['entity', 'key']);
+        },
+    },
+    {
+        version: 6,
+        description: 'Give every existing record revision 1 for optimistic concurrency checks.',
+        migrate: async (context) => {
+            for (const storeName of ['memos', 'invoices', 'customers', 'areas', 'calculations', 'lookup']) {
+                await transformRecords(context, storeName, record => {
+                    if (record.revision === undefined) {
+                        return { ...record, revision: 1 };
+                    }
+                });
+            }
+        },
+    },
+    {
+        version: 7,
+        description: 'Add the settings store and the automatic snapshot store.',
+        migrate: (context) => {
+            ensureStore(context, 'settings', { keyPath: 'key' });
+            const snapshotStore = ensureStore(context, 'snapshots', { keyPath: 'id', autoIncrement: true });
+            ensureIndex(snapshotStore, 'by_taken_at', 'taken_at');
+            ensureIndex(snapshotStore, 'by_reason_time', ['reason', 'taken_at']);
+        },
+    },
+    {
+        version: 8,
+        description: 'Add the register of voided invoice numbers and index invoices by number.',
+        migrate: (context) => {
+            ensureStore(context, 'voidedInvoiceNumbers', { keyPath: 'invoice_no' });
+            ensureIndex(context.transaction.objectStore('invoices'), 'by_invoice_no', 'invoice_no');
+        },
+    },
+    {
+        version: 9,
+        description: 'Link memos and invoices to their customer by id, matching the stored customer name.',
+        migrate: async (context) => {
+            const memoStore = context.transaction.objectStore('memos');
+            ensureIndex(memoStore, 'by_customer_id', 'customer_id');
+            ensureIndex(memoStore, 'by_customer_id_date', ['customer_id', 'trip_operated_date1']);
+            const invoiceStore = context.transaction.objectStore('invoices');
+            ensureIndex(invoiceStore, 'by_customer_id', 'customer_id');
+            ensureIndex(invoiceStore, 'by_customer_id_date', ['customer_id', 'invoice_date']);
+
+            // Only a name that belongs to exactly one customer is linked here; the rest
+            // are left for the customer link review.
+            const normalize = (name: string | undefined) => (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+            const customersByName = new Map<string, any[]>();
+            (await readAllRecords(context, 'customers')).forEach(customer => {
+                const name = normalize(customer.customers_name);
+                customersByName.set(name, [...(customersByName.get(name) || []), customer]);
+            });
+            const uniqueMatch = (name: string | undefined) => {
+                const matches = customersByName.get(normalize(name)) || [];
+                return matches.length === 1 ? matches[0] : undefined;
+            };
+
+            await transformRecords(context, 'memos', memo => {
+                const customer = uniqueMatch(memo.customers_name);
+                if (memo.customer_id === undefined && customer) {
+                    return { ...memo, customer_id: customer.id };
+                }
+            });
+            await transformRecords(context, 'invoices', invoice => {
+                const customer = uniqueMatch(invoice.customer_name);
+                if (invoice.customer_id === undefined && customer) {
+                    return {
+                        ...invoice,
+                        customer_id: customer.id,
+                        customer_address1: invoice.customer_address1 ?? customer.customers_address1,
+                        customer_address2: invoice.customer_address2 ?? customer.customers_address2,
+                    };
+                }
+            });
+        },
+    },
+    {
+        version: 10,
+        description: 'Store memo amounts as paise and memo quantities as numbers instead of text.',
+        migrate: (context) => transformMemos(context, v10Memo),
+    },
+    {
+        version: 11,
+        description: 'Give memos the minimum km, running hours and extra km fields, as zero.',
+        migrate: (context) => transformMemos(context, v11Memo),
+    },
+    {
+        version: 12,
+        description: 'Add the discount rules store, with the 10% the memo form gave customers named "transport" as a rule.',
+        migrate: async (context) => {
+            const ruleStore = ensureStore(context, 'discountRules', { keyPath: 'id', autoIncrement: true });
+            // The memo form used to give 10% to any memo whose customer name contains "transport".
+            ruleStore.add(v12TransportRule);
+            await transformMemos(context, memo => ({ ...memo, trips_discount_flat: memo.trips_discount_flat ?? 0 }));
+        },
+    },
+    {
+        version: 13,
+        description: 'Add the brand master and policy overrides, seeded with the brands and driver bata rule the services catalog used to hardcode.',
+        migrate: async (context) => {
+            const brandStore = ensureStore(context, 'brands', { keyPath: 'id', autoIncrement: true });
+            const overrideStore = ensureStore(context, 'policyOverrides', { keyPath: 'id', autoIncrement: true });
+            if ((await readAllRecords(context, 'brands')).length === 0) {
+                v13Brands.forEach(brand => brandStore.add(brand));
+                v13PolicyOverrides.forEach(override => overrideStore.add(override));
+            }
+        },
+    },
+    {
+        version: 14,
+        description: 'Index calculations by category, now that a category can have several dated versions.',
+        migrate: ({ transaction }) => {
+            ensureIndex(transaction.objectStore('calculations'), 'by_category', 'products_type_category');
+        },
+    },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+// Runs every step newer than `oldVersion`, one after another, so a step always sees
+// the records exactly as the previous step left them.
+export const runMigrations = async (context: MigrationContext, oldVersion: number): Promise<void> => {
+    const pending = migrations.filter(m => m.version > oldVersion && m.version <= DB_VERSION);
+    for (const migration of pending) {
+        await migration.migrate(context);
+    }
+};
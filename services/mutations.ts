@@ -0,0 +1,92 @@
+import { StoreName, runTransaction, requestToPromise } from './db';
+import { appendAudit } from './audit';
+import { getActingUser } from './session';
+import { RevisionConflictError } from './errors';
+
+// --- Audited writes ---
+// Every change to a data store goes through these helpers so that it is recorded in
+// the audit trail in the same transaction. Use `runMutation` to open the transaction;
+// it adds the bookkeeping stores the helpers write to.
+
+export const runMutation = <T>(storeNames: StoreName[], work: (transaction: IDBTransaction) => Promise<T>): Promise<T> =>
+    runTransaction([...storeNames, 'audit', 'recycleBin'], 'readwrite', work);
+
+const keyOf = (store: IDBObjectStore, record: any): IDBValidKey | undefined => record[store.keyPath as string];
+
+const recordLabels: Record<string, string> = {
+    memos: 'Memo',
+    invoices: 'Invoice',
+    customers: 'Customer',
+    areas: 'Area',
+    calculations: 'Calculation',
+    lookup: 'Lookup record',
+    discountRules: 'Discount rule',
+    brands: 'Brand',
+    settings: 'Setting',
+    policyOverrides: 'Policy override',
+};
+
+const stamp = (record: any, revision: number) => ({ ...record, revision, updated_at: new Date().toISOString() });
+
+// A record that carries a `revision` must match the stored one (0 meaning "not stored
+// yet"). Records without one are written unconditionally, as they were before
+// revisions existed.
+const assertRevision = (storeName: StoreName, key: IDBValidKey, record: any, stored: any): void => {
+    const expected = record.revision;
+    const current = stored ? (stored.revision ?? 0) : 0;
+    if (expected === undefined || expected === current) return;
+    const label = `${recordLabels[storeName] || storeName} ${key}`;
+    const message = !stored
+        ? `${label} was deleted by someone else after you opened it.`
+        : expected === 0
+            ? `${label} already exists; someone else saved it first.`
+            : `${label} was saved by someone else after you opened it.`;
+    throw new RevisionConflictError(storeName, key as string | number, message);
+};
+
+export const insertRecord = async (transaction: IDBTransaction, storeName: StoreName, record: any): Promise<IDBValidKey> => {
+    const store = transaction.objectStore(storeName);
+    const stamped = stamp(record, 1);
+    const key = await requestToPromise(store.add(stamped));
+    const after = { ...stamped, [store.keyPath as string]: key };
+    appendAudit(transaction, { entity: storeName, key: key as string | number, action: 'create', before: null, after });
+    return key;
+};
+
+// Creates or overwrites a record, auditing it as a create or an update accordingly.
+// Throws RevisionConflictError if the record was loaded at an older revision.
+export const replaceRecord = async (transaction: IDBTransaction, storeName: StoreName, record: any): Promise<IDBValidKey> => {
+    const store = transaction.objectStore(storeName);
+    const existingKey = keyOf(store, record);
+    const before = existingKey !== undefined ? await requestToPromise(store.get(existingKey)) : undefined;
+    if (existingKey !== undefined) {
+        assertRevision(storeName, existingKey, record, before);
+    }
+    const stamped = stamp(record, (before?.revision ?? 0) + 1);
+    const key = await requestToPromise(store.put(stamped));
+    const after = { ...stamped, [store.keyPath as string]: key };
+    appendAudit(transaction, {
+        entity: storeName,
+        key: key as string | number,
+        action: before ? 'update' : 'create',
+        before: before ?? null,
+        after,
+    });
+    return key;
+};
+
+// Deletes a record by moving it into the recycle bin, from where it can be restored.
+export const discardRecord = async (transaction: IDBTransaction, storeName: StoreName, key: IDBValidKey): Promise<void> => {
+    const store = transaction.objectStore(storeName);
+    const before = await requestToPromise(store.get(key));
+    if (!before) return;
+    await requestToPromise(store.delete(key));
+    transaction.objectStore('recycleBin').add({
+        entity: storeName,
+        key,
+        record: before,
+        deleted_at: new Date().toISOString(),
+        deleted_by: getActingUser(),
+    });
+    appendAudit(transaction, { entity: storeName, key: key as string | number, action: 'delete', before, after: null });
+};
@@ -0,0 +1,37 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { Invoice } from '../types';
+import { runTransaction } from './db';
+import { addInvoice, getInvoiceById, getMemos } from './googleScriptMock';
+
+const newInvoice = async (): Promise<string> => {
+    const [memo] = await getMemos();
+    const invoice: Omit<Invoice, 'id'> = {
+        invoice_no: '',
+        invoice_date: '2026-01-10',
+        customer_id: memo.customer_id,
+        customer_name: memo.customers_name,
+        memo_nos: [],
+        total_amount: 0,
+        amount_paid: 0,
+        balance: 0,
+        status: 'Draft',
+    };
+    return (await getInvoiceById(await addInvoice(invoice)))!.invoice_no;
+};
+
+describe('takeDocumentNumber', () => {
+    it('comes after a number the audit trail shows was issued, even with the counter and invoices gone', async () => {
+        const issued = await newInvoice();
+        // As if older data had been written back without the import's safeguards.
+        await runTransaction(['invoices', 'voidedInvoiceNumbers', 'settings'], 'readwrite', transaction => {
+            transaction.objectStore('invoices').clear();
+            transaction.objectStore('voidedInvoiceNumbers').clear();
+            transaction.objectStore('settings').delete('invoiceCounters');
+        });
+
+        const next = await newInvoice();
+        expect(next).not.toBe(issued);
+        expect(next > issued).toBe(true);
+    });
+});
@@ -0,0 +1,178 @@
+import { AuditEntry, NumberingScheme, RecycleBinEntry } from '../types';
+import { StoreName, runTransaction, requestToPromise } from './db';
+import { readSetting, getSetting, saveSetting } from './settings';
+import { financialYearOf, formatDocumentNumber, parseDocumentNumber } from '../utils/documentNumbers';
+
+// --- Document numbering ---
+// Numbers come from a counter kept in the settings store. The counter is read, advanced
+// and written inside the caller's transaction, together with the document that takes
+// the number, so two tabs saving at once can never be handed the same number. The counter
+// and the documents can both be restored to older data, so the next number also comes
+// after every number the audit trail and the recycle bin show was issued.
+
+export type NumberedDocument = 'memo' | 'invoice';
+
+interface DocumentSeries {
+    // The stores `existingNumbers` and `isTaken` read, besides 'settings'.
+    stores: StoreName[];
+    // The store the documents are audited and binned under, and a document's number.
+    entity: StoreName;
+    numberOf: (record: any) => string | undefined;
+    schemeKey: string;
+    countersKey: string;
+    defaultScheme: NumberingScheme;
+    // Every number already used by a stored document.
+    existingNumbers: (transaction: IDBTransaction) => Promise<string[]>;
+    isTaken: (transaction: IDBTransaction, number: string) => Promise<boolean>;
+}
+
+const documentSeries: Record<NumberedDocument, DocumentSeries> = {
+    memo: {
+        stores: ['memos'],
+        entity: 'memos',
+        numberOf: memo => memo.trips_memo_no,
+        schemeKey: 'memoNumbering',
+        countersKey: 'memoCounters',
+        // The format memo numbers had before numbering was configurable (SBT-001).
+        defaultScheme: { prefix: 'SBT', separator: '-', includeFinancialYear: false, padWidth: 3, reset: 'never' },
+        existingNumbers: async transaction =>
+            (await requestToPromise(transaction.objectStore('memos').getAllKeys())).map(String),
+        isTaken: async (transaction, number) =>
+            (await requestToPromise(transaction.objectStore('memos').count(number))) > 0,
+    },
+    invoice: {
+        stores: ['invoices', 'voidedInvoiceNumbers'],
+        entity: 'invoices',
+        numberOf: invoice => invoice.invoice_no,
+        schemeKey: 'invoiceNumbering',
+        countersKey: 'invoiceCounters',
+        defaultScheme: { prefix: 'INV', separator: '/', includeFinancialYear: true, padWidth: 4, reset: 'financial-year' },
+        // Voided numbers count as used, so a deleted invoice's number is never handed out again.
+        existingNumbers: async transaction => {
+            const invoices: { invoice_no: string }[] = await requestToPromise(transaction.objectStore('invoices').getAll());
+            const voided = await requestToPromise(transaction.objectStore('voidedInvoiceNumbers').getAllKeys());
+            return [...invoices.map(invoice => invoice.invoice_no), ...voided.map(String)];
+        },
+        isTaken: async (transaction, number) =>
+            (await requestToPromise(transaction.objectStore('invoices').index('by_invoice_no').count(number))) > 0
+            || (await requestToPromise(transaction.objectStore('voidedInvoiceNumbers').count(number))) > 0,
+    },
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Every number a document of the series has had: the stored ones, and the ones in the
+// audit trail and recycle bin, which imports and rollbacks leave alone.
+const issuedNumbers = async (transaction: IDBTransaction, series: DocumentSeries): Promise<string[]> => {
+    const range = IDBKeyRange.bound([series.entity, ''], [series.entity, '\uffff']);
+    const audited: AuditEntry[] = await requestToPromise(transaction.objectStore('audit').index('by_entity_time').getAll(range));
+    const binned: RecycleBinEntry[] = await requestToPromise(transaction.objectStore('recycleBin').getAll());
+    const records = [
+        ...audited.flatMap(entry => [entry.before, entry.after]),
+        ...binned.filter(entry => entry.entity === series.entity).map(entry => entry.record),
+    ];
+    const numbers = records.map(record => record && series.numberOf(record)).filter((number): number is string => !!number);
+    return [...await series.existingNumbers(transaction), ...numbers];
+};
+
+// The sequence part of a number written in `scheme` for this counter period, or null if
+// the number belongs to another format or period.
+const sequenceOf = (scheme: NumberingScheme, financialYear: string, number: string): number | null => {
+    const parsed = parseDocumentNumber(scheme, number);
+    if (!parsed) return null;
+    if (scheme.reset === 'financial-year' && parsed.financialYear !== financialYear) return null;
+    return parsed.sequence;
+};
+
+// Counters are kept per format and period, so changing the prefix or separator starts
+// a separate count instead of continuing another format's numbers.
+export const counterKeyOf = (scheme: NumberingScheme, financialYear: string): string =>
+    [scheme.prefix, scheme.separator, scheme.includeFinancialYear ? 'fy' : '', scheme.reset === 'financial-year' ? financialYear : 'all'].join('|');
+
+interface NextNumber {
+    number: string;
+    counters: Record<string, number>;
+    counterKey: string;
+    sequence: number;
+}
+
+const findNextNumber = async (transaction: IDBTransaction, document: NumberedDocument, date: string): Promise<NextNumber> => {
+    const series = documentSeries[document];
+    const scheme = await readSetting(transaction, series.schemeKey, series.defaultScheme);
+    const counters = await readSetting<Record<string, number>>(transaction, series.countersKey, {});
+    const financialYear = financialYearOf(date || today());
+    const counterKey = counterKeyOf(scheme, financialYear);
+
+    // Carry on from the counter, or from any number already issued in this format and
+    // period if that is higher, e.g. memos numbered before the counter existed.
+    const sequences = (await issuedNumbers(transaction, series))
+        .map(number => sequenceOf(scheme, financialYear, number))
+        .filter((sequence): sequence is number => sequence !== null);
+    const last = Math.max(counters[counterKey] ?? 0, ...sequences);
+
+    // Skip numbers already taken, such as ones restored from a backup after the counter.
+    let sequence = last + 1;
+    let number = formatDocumentNumber(scheme, financialYear, sequence);
+    while (await series.isTaken(transaction, number)) {
+        sequence++;
+        number = formatDocumentNumber(scheme, financialYear, sequence);
+    }
+    return { number, counters, counterKey, sequence };
+};
+
+// Takes the next number and advances the counter. The transaction must include the
+// series' stores, 'settings', 'audit' and 'recycleBin', as `runMutation` transactions do. The counter write is bookkeeping and not audited;
+// the document saved with the number is.
+export const takeDocumentNumber = async (transaction: IDBTransaction, document: NumberedDocument, date: string): Promise<string> => {
+    const next = await findNextNumber(transaction, document, date);
+    const counters = { ...next.counters, [next.counterKey]: next.sequence };
+    await requestToPromise(transaction.objectStore('settings').put({ key: documentSeries[document].countersKey, value: counters }));
+    return next.number;
+};
+
+// The counters of every series, as stored.
+export type NumberCounters = Record<string, Record<string, number>>;
+
+export const readCounters = async (transaction: IDBTransaction): Promise<NumberCounters> => {
+    const counters: NumberCounters = {};
+    for (const { countersKey } of Object.values(documentSeries)) {
+        counters[countersKey] = await readSetting<Record<string, number>>(transaction, countersKey, {});
+    }
+    return counters;
+};
+
+// Keeps every counter at least where `earlier` had it. An import or rollback writes back
+// older counters, and a counter that went down would hand out its numbers again.
+export const keepCountersAhead = async (transaction: IDBTransaction, earlier: NumberCounters): Promise<void> => {
+    const current = await readCounters(transaction);
+    for (const [countersKey, counters] of Object.entries(current)) {
+        const behind = Object.entries(earlier[countersKey] || {}).filter(([counterKey, sequence]) => !(counters[counterKey] >= sequence));
+        if (!behind.length) continue;
+        const kept = { ...counters, ...Object.fromEntries(behind) };
+        await requestToPromise(transaction.objectStore('settings').put({ key: countersKey, value: kept }));
+    }
+};
+
+// The number the next document dated `date` would get, without taking it.
+export const previewDocumentNumber = (document: NumberedDocument, date?: string): Promise<string> =>
+    runTransaction([...documentSeries[document].stores, 'settings', 'audit', 'recycleBin'], 'readonly', async transaction =>
+        (await findNextNumber(transaction, document, date || today())).number);
+
+export const getNumberingScheme = (document: NumberedDocument): Promise<NumberingScheme> =>
+    getSetting(documentSeries[document].schemeKey, documentSeries[document].defaultScheme);
+
+export const saveNumberingScheme = (document: NumberedDocument, scheme: NumberingScheme): Promise<void> => {
+    if (!/^[A-Za-z0-9]{0,12}$/.test(scheme.prefix)) {
+        return Promise.reject(new Error("The prefix may only contain up to 12 letters and digits."));
+    }
+    if (!Number.isInteger(scheme.padWidth) || scheme.padWidth < 1 || scheme.padWidth > 10) {
+        return Promise.reject(new Error("The number width must be a whole number from 1 to 10."));
+    }
+    if (scheme.separator !== '/' && scheme.separator !== '-') {
+        return Promise.reject(new Error("The separator must be / or -."));
+    }
+    if (scheme.reset === 'financial-year' && !scheme.includeFinancialYear) {
+        return Promise.reject(new Error("Numbers that restart every financial year must include the year, or they would repeat."));
+    }
+    return saveSetting(documentSeries[document].schemeKey, scheme);
+};
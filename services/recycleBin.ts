@@ -0,0 +1,101 @@
+import { Invoice, RecycleBinEntry } from '../types';
+import { objectStores, runTransaction, requestToPromise } from './db';
+import { runMutation } from './mutations';
+import { appendAudit } from './audit';
+import { RestoreConflictError } from './errors';
+import { unvoidDeletedInvoiceNumber } from './invoiceSequence';
+
+// --- Recycle Bin ---
+// Deleted records wait here until they are restored or purged. Restoring puts the
+// record back under its original key, so anything that referenced it (an invoice's
+// `memo_nos`, for example) lines up again without rewriting.
+
+const dataStoreNames = Object.keys(objectStores);
+
+const describe = (entry: RecycleBinEntry) => {
+    switch (entry.entity) {
+        case 'memos': return `memo ${entry.key}`;
+        case 'invoices': return `invoice ${entry.record?.invoice_no || entry.key}`;
+        default: return `${entry.entity} record ${entry.key}`;
+    }
+};
+
+export const getRecycleBin = (): Promise<RecycleBinEntry[]> =>
+    runTransaction(['recycleBin'], 'readonly', async transaction => {
+        const entries = await requestToPromise<RecycleBinEntry[]>(transaction.objectStore('recycleBin').index('by_deleted_at').getAll());
+        return entries.reverse();
+    });
+
+const findBinnedRecord = async (transaction: IDBTransaction, entity: string, key: IDBValidKey): Promise<RecycleBinEntry | undefined> => {
+    const matches = await requestToPromise<RecycleBinEntry[]>(
+        transaction.objectStore('recycleBin').index('by_entity_key').getAll([entity, key])
+    );
+    return matches.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))[0];
+};
+
+// An invoice only comes back if every memo it billed can be linked to it again: the
+// memo must exist (or be restorable from the bin alongside it) and must not have been
+// put on another invoice in the meantime.
+const collectInvoiceDependencies = async (transaction: IDBTransaction, invoice: Invoice): Promise<RecycleBinEntry[]> => {
+    const memoStore = transaction.objectStore('memos');
+    const byMemoNo = transaction.objectStore('invoices').index('by_memo_no');
+    const dependencies: RecycleBinEntry[] = [];
+    // A cancelled invoice bills nothing, so its memos may have moved on.
+    if (invoice.status === 'Cancelled') return dependencies;
+
+    for (const memoNo of invoice.memo_nos) {
+        const claims = await requestToPromise<Invoice[]>(byMemoNo.getAll(memoNo));
+        const claimedBy = claims.find(claim => claim.status !== 'Cancelled');
+        if (claimedBy) {
+            throw new RestoreConflictError(`Cannot restore invoice ${invoice.invoice_no}: memo ${memoNo} is now on invoice ${claimedBy.invoice_no}.`);
+        }
+        const memoKey = await requestToPromise(memoStore.getKey(memoNo));
+        if (memoKey !== undefined) continue;
+
+        const binnedMemo = await findBinnedRecord(transaction, 'memos', memoNo);
+        if (!binnedMemo) {
+            throw new RestoreConflictError(`Cannot restore invoice ${invoice.invoice_no}: memo ${memoNo} no longer exists.`);
+        }
+        dependencies.push(binnedMemo);
+    }
+    return dependencies;
+};
+
+export const restoreFromRecycleBin = (entryId: number): Promise<void> =>
+    runMutation(dataStoreNames, async transaction => {
+        const bin = transaction.objectStore('recycleBin');
+        const entry = await requestToPromise<RecycleBinEntry | undefined>(bin.get(entryId));
+        if (!entry) {
+            throw new Error("This item is no longer in the recycle bin.");
+        }
+
+        const toRestore = [entry];
+        if (entry.entity === 'invoices') {
+            toRestore.push(...await collectInvoiceDependencies(transaction, entry.record as Invoice));
+        }
+
+        for (const item of toRestore) {
+            const store = transaction.objectStore(item.entity);
+            const existingKey = await requestToPromise(store.getKey(item.key));
+            if (existingKey !== undefined) {
+                throw new RestoreConflictError(item.entity === 'memos'
+                    ? `Cannot restore memo ${item.key}: that memo number has been used again.`
+                    : `Cannot restore ${describe(item)}: a record with the same key already exists.`);
+            }
+            store.add(item.record);
+            bin.delete(item.id!);
+            if (item.entity === 'invoices') {
+                await unvoidDeletedInvoiceNumber(transaction, item.record.invoice_no);
+            }
+            appendAudit(transaction, { entity: item.entity, key: item.key, action: 'restore', before: null, after: item.record });
+        }
+    });
+
+export const purgeFromRecycleBin = (entryId: number): Promise<void> =>
+    runMutation([], async transaction => {
+        const bin = transaction.objectStore('recycleBin');
+        const entry = await requestToPromise<RecycleBinEntry | undefined>(bin.get(entryId));
+        if (!entry) return;
+        bin.delete(entryId);
+        appendAudit(transaction, { entity: entry.entity, key: entry.key, action: 'purge', before: entry.record, after: null });
+    });
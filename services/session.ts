@@ -0,0 +1,30 @@
+// The name recorded against every change in the audit trail. The app has no login, so
+// each clerk enters their name once per browser and it is remembered in localStorage.
+const ACTING_USER_KEY = 'sbt_acting_user';
+const UNKNOWN_USER = 'unknown';
+
+let actingUser: string | null = null;
+// Set by a server handling calls from several clerks, to read the user sent with the
+// call being handled instead of a single stored name.
+let callUser: (() => string | undefined) | null = null;
+
+export const setCallUserSource = (source: () => string | undefined): void => {
+    callUser = source;
+};
+
+export const getActingUser = (): string => {
+    if (callUser) {
+        return callUser() || UNKNOWN_USER;
+    }
+    if (actingUser === null) {
+        actingUser = typeof localStorage !== 'undefined' ? localStorage.getItem(ACTING_USER_KEY) : null;
+    }
+    return actingUser || UNKNOWN_USER;
+};
+
+export const setActingUser = (name: string): void => {
+    actingUser = name.trim();
+    if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(ACTING_USER_KEY, actingUser);
+    }
+};
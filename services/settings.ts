@@ -0,0 +1,19 @@
+import { runTransaction, requestToPromise } from './db';
+import { runMutation, replaceRecord } from './mutations';
+
+// --- App settings ---
+// Small configuration values kept as `{ key, value }` records in the `settings` store,
+// so every tab (and the Apps Script stand-in) sees the same configuration.
+
+export const readSetting = async <T>(transaction: IDBTransaction, key: string, fallback: T): Promise<T> => {
+    const record = await requestToPromise<{ key: string; value: T } | undefined>(transaction.objectStore('settings').get(key));
+    return record ? record.value : fallback;
+};
+
+export const getSetting = <T>(key: string, fallback: T): Promise<T> =>
+    runTransaction(['settings'], 'readonly', transaction => readSetting(transaction, key, fallback));
+
+export const saveSetting = <T>(key: string, value: T): Promise<void> =>
+    runMutation(['settings'], async transaction => {
+        await replaceRecord(transaction, 'settings', { key, value });
+    });
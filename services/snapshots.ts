@@ -0,0 +1,157 @@
+import { Snapshot, SnapshotReason, SnapshotRetention, SnapshotSummary } from '../types';
+import { objectStores, StoreName, runTransaction, requestToPromise } from './db';
+import { readSetting, getSetting, saveSetting } from './settings';
+import { getActingUser } from './session';
+
+// --- Automatic snapshots ---
+// A snapshot is a full copy of every data store, kept in the `snapshots` store. One is
+// taken on a daily schedule and another right before anything that replaces data in
+// bulk (imports, rollbacks, bulk edits). Old snapshots are thinned out according to the
+// retention setting each time a new one is taken. Rolling back lives in
+// `databaseImport.ts`, since it is an import of the snapshot's contents.
+
+const dataStoreNames = Object.keys(objectStores) as StoreName[];
+const RETENTION_KEY = 'snapshotRetention';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+const SCHEDULE_INTERVAL_MS = DAY_MS;
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = { keepAllHours: 24, dailyDays: 7, weeklyWeeks: 4 };
+
+// The stores a transaction calling `captureSnapshot` must include. The data stores
+// include 'settings', which pruning reads the retention from.
+export const SNAPSHOT_STORES: StoreName[] = [...dataStoreNames, 'snapshots'];
+
+interface SnapshotTime {
+    id: number;
+    taken_at: string;
+}
+
+// Newest first. Reads the index keys only, so snapshot contents are never loaded.
+const readSnapshotTimes = (transaction: IDBTransaction): Promise<SnapshotTime[]> => {
+    return new Promise((resolve, reject) => {
+        const times: SnapshotTime[] = [];
+        const request = transaction.objectStore('snapshots').index('by_taken_at').openKeyCursor(null, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(times);
+                return;
+            }
+            times.push({ id: cursor.primaryKey as number, taken_at: cursor.key as string });
+            cursor.continue();
+        };
+    });
+};
+
+export const selectSnapshotsToPrune = (snapshots: SnapshotTime[], retention: SnapshotRetention, now: number): number[] => {
+    const keptDays = new Set<string>();
+    const keptWeeks = new Set<number>();
+    const newestFirst = [...snapshots].sort((a, b) => b.taken_at.localeCompare(a.taken_at));
+
+    return newestFirst.filter((snapshot, index) => {
+        // The newest snapshot is always kept, however old it is.
+        if (index === 0) return false;
+        const takenAt = new Date(snapshot.taken_at).getTime();
+        const age = now - takenAt;
+        if (age <= retention.keepAllHours * HOUR_MS) return false;
+        if (age <= retention.dailyDays * DAY_MS) {
+            const day = snapshot.taken_at.slice(0, 10);
+            if (keptDays.has(day)) return true;
+            keptDays.add(day);
+            return false;
+        }
+        if (age <= retention.weeklyWeeks * WEEK_MS) {
+            const week = Math.floor(takenAt / WEEK_MS);
+            if (keptWeeks.has(week)) return true;
+            keptWeeks.add(week);
+            return false;
+        }
+        return true;
+    }).map(snapshot => snapshot.id);
+};
+
+const pruneSnapshots = async (transaction: IDBTransaction): Promise<void> => {
+    const retention = await readSetting(transaction, RETENTION_KEY, DEFAULT_SNAPSHOT_RETENTION);
+    const store = transaction.objectStore('snapshots');
+    const expired = selectSnapshotsToPrune(await readSnapshotTimes(transaction), retention, Date.now());
+    expired.forEach(id => store.delete(id));
+};
+
+// Copies every data store into a new snapshot as part of `transaction`, which must
+// include SNAPSHOT_STORES, then prunes expired snapshots.
+export const captureSnapshot = async (transaction: IDBTransaction, reason: SnapshotReason): Promise<number> => {
+    const stores: Record<string, any[]> = {};
+    const counts: Record<string, number> = {};
+    for (const storeName of dataStoreNames) {
+        stores[storeName] = await requestToPromise<any[]>(transaction.objectStore(storeName).getAll());
+        counts[storeName] = stores[storeName].length;
+    }
+    const snapshot: Snapshot = { taken_at: new Date().toISOString(), taken_by: getActingUser(), reason, counts, stores };
+    const id = await requestToPromise(transaction.objectStore('snapshots').add(snapshot));
+    await pruneSnapshots(transaction);
+    return id as number;
+};
+
+export const takeSnapshot = (reason: SnapshotReason = 'manual'): Promise<number> =>
+    runTransaction(SNAPSHOT_STORES, 'readwrite', transaction => captureSnapshot(transaction, reason));
+
+// Takes the scheduled snapshot if the last one is a day old or missing. Safe to call
+// often; resolves to the new snapshot's id, or null when none was due.
+export const runScheduledSnapshot = (): Promise<number | null> =>
+    runTransaction(SNAPSHOT_STORES, 'readwrite', async transaction => {
+        const byReason = transaction.objectStore('snapshots').index('by_reason_time');
+        const range = IDBKeyRange.bound(['scheduled', ''], ['scheduled', '\uffff']);
+        const lastKey = await new Promise<IDBValidKey | null>((resolve, reject) => {
+            const request = byReason.openKeyCursor(range, 'prev');
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve(request.result ? request.result.key : null);
+        });
+        const lastTakenAt = lastKey ? new Date((lastKey as string[])[1]).getTime() : 0;
+        if (Date.now() - lastTakenAt < SCHEDULE_INTERVAL_MS) {
+            return null;
+        }
+        return captureSnapshot(transaction, 'scheduled');
+    });
+
+// Newest first, without the store contents.
+export const getSnapshots = (): Promise<SnapshotSummary[]> =>
+    runTransaction(['snapshots'], 'readonly', transaction => {
+        return new Promise<SnapshotSummary[]>((resolve, reject) => {
+            const summaries: SnapshotSummary[] = [];
+            const request = transaction.objectStore('snapshots').index('by_taken_at').openCursor(null, 'prev');
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve(summaries);
+                    return;
+                }
+                const { stores, ...summary } = cursor.value as Snapshot;
+                summaries.push(summary);
+                cursor.continue();
+            };
+        });
+    });
+
+export const getSnapshot = (id: number): Promise<Snapshot | undefined> =>
+    runTransaction(['snapshots'], 'readonly', transaction =>
+        requestToPromise<Snapshot | undefined>(transaction.objectStore('snapshots').get(id)));
+
+export const deleteSnapshot = (id: number): Promise<void> =>
+    runTransaction(['snapshots'], 'readwrite', async transaction => {
+        await requestToPromise(transaction.objectStore('snapshots').delete(id));
+    });
+
+export const getSnapshotRetention = (): Promise<SnapshotRetention> =>
+    getSetting(RETENTION_KEY, DEFAULT_SNAPSHOT_RETENTION);
+
+export const saveSnapshotRetention = (retention: SnapshotRetention): Promise<void> => {
+    const values = [retention.keepAllHours, retention.dailyDays, retention.weeklyWeeks];
+    if (values.some(value => !Number.isInteger(value) || value < 0)) {
+        return Promise.reject(new Error("Retention periods must be whole numbers of zero or more."));
+    }
+    return saveSetting(RETENTION_KEY, retention);
+};
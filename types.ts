@@ -8,23 +8,37 @@ export enum Page {
     VIEW_ALL_SERVICES = 'VIEW_ALL_SERVICES',
     MANAGE_AREAS = 'MANAGE_AREAS',
     MANAGE_CALCULATIONS = 'MANAGE_CALCULATIONS',
+    TARIFF_REVISION = 'TARIFF_REVISION',
+    MANAGE_BRANDS = 'MANAGE_BRANDS',
+    DISCOUNT_RULES = 'DISCOUNT_RULES',
     MANAGE_LOOKUP = 'MANAGE_LOOKUP',
+    AUDIT_LOG = 'AUDIT_LOG',
+    RECYCLE_BIN = 'RECYCLE_BIN',
+    SNAPSHOTS = 'SNAPSHOTS',
+    NUMBERING = 'NUMBERING',
 }
 
-export interface Customer {
+// Stamped by the data layer on every write. An update must carry the `revision` it was
+// loaded with; if the stored record has moved on since, the update is refused.
+export interface Versioned {
+    revision?: number;
+    updated_at?: string;
+}
+
+export interface Customer extends Versioned {
     id?: number;
     customers_name: string;
     customers_address1: string;
     customers_address2: string;
 }
 
-export interface Area {
+export interface Area extends Versioned {
     id?: number;
     locationArea: string;
     locationCategory: string;
 }
 
-export interface Calculation {
+export interface Calculation extends Versioned {
     id?: number;
     products_type_category: string,
     products_minimum_hours: string,
@@ -32,10 +46,43 @@ export interface Calculation {
     products_minimum_charges: string,
     products_additional_hours_charges: string,
     products_running_hours: string,
-    products_driver_bata: string
+    products_driver_bata: string,
+    // Charged per km beyond `products_minimum_km`. Blank on rows saved before it existed.
+    products_extra_km_rate?: string,
+    // The dates the rates are in force, both inclusive; see `utils/rateVersions.ts`.
+    effective_from?: string,
+    effective_to?: string
+}
+
+// A brand the services catalog is offered under. Calculation categories are keyed
+// `<brand name>_<vehicle type>_<area category>`, so the name must match them.
+export interface Brand extends Versioned {
+    id?: number;
+    name: string;
+    // Inactive brands are left out of the services catalog.
+    active: boolean;
+    // Whether the brand's services leave out driver bata unless an override charges it.
+    driver_bata_exempt: boolean;
+}
+
+export type PolicyOverrideKind = 'driver-bata-exempt' | 'driver-bata-charged' | 'surcharge';
+
+// An exception to a brand's pricing, limited to an area, area category or vehicle type
+// (blank meaning all of them). For driver bata the most specific override wins; every
+// matching surcharge is added to the service's minimum charges.
+export interface PolicyOverride extends Versioned {
+    id?: number;
+    brand_id: number;
+    area?: string;
+    area_category?: string;
+    vehicle_type?: string;
+    kind: PolicyOverrideKind;
+    // For surcharges.
+    amount?: Paise;
+    note?: string;
 }
 
-export interface Lookup {
+export interface Lookup extends Versioned {
     id?: number;
     driver_name: string;
     license_number: string;
@@ -53,12 +100,19 @@ export interface Rates {
     additionalHourRate: number;
 }
 
-export interface MemoData {
+// An amount of money as a whole number of paise (₹1 = 100 paise), so that adding and
+// multiplying amounts never picks up float rounding.
+export type Paise = number;
+
+export interface MemoData extends Versioned {
     trips_memo_no: string;
     trip_operated_date1: string;
     trip_upto_operated_date2: string;
     trips_vehicle_no: string;
     trips_vehicle_type: string;
+    // The customer billed. Name and address are copied from the customer when the memo is
+    // created, so the memo keeps showing what was issued even if the customer is renamed.
+    customer_id?: number;
     customers_name: string;
     customers_address1: string;
     customers_address2: string;
@@ -67,64 +121,398 @@ export interface MemoData {
     trips_closing_time1: string;
     trips_starting_time2: string;
     trips_closing_time2: string;
-    trips_total_hours: string;
+    trips_total_hours: number;
     
-    trips_startingKm1: string;
-    trips_closingKm1: string;
-    trips_startingKm2: string;
-    trips_closingKm2: string;
-    trips_totalKm: string;
+    trips_startingKm1: number;
+    trips_closingKm1: number;
+    trips_startingKm2: number;
+    trips_closingKm2: number;
+    trips_totalKm: number;
     
     products_item: string;
-    trips_minimum_hours1: string;
-    trips_minimum_charges1: string;
+    trips_minimum_hours1: number;
+    trips_minimum_km1: number;
+    trips_minimum_charges1: Paise;
     
     products_item2: string;
-    trips_minimum_hours2: string;
-    trips_minimum_charges2: string;
+    trips_minimum_hours2: number;
+    trips_minimum_km2: number;
+    trips_minimum_charges2: Paise;
 
-    trips_extra_hours: string;
-    trips_for_additional_hour_rate: string;
-    trips_for_additional_hour_amt: string;
+    // Travel time allowed by the tariff before extra hours start.
+    trips_running_hours: number;
+    trips_extra_hours: number;
+    trips_for_additional_hour_rate: Paise;
+    trips_for_additional_hour_amt: Paise;
 
     trips_fixed_amt_desc: string;
-    trips_fixed_amt: string;
+    trips_fixed_amt: Paise;
+
+    trips_km: number;
+    trips_km_rate: Paise;
+    trips_Km_amt: Paise;
 
-    trips_km: string;
-    trips_km_rate: string;
-    trips_Km_amt: string;
+    // Km beyond the packages' minimum km, at the tariff's extra km rate.
+    trips_extra_km: number;
+    trips_extra_km_rate: Paise;
+    trips_extra_km_amt: Paise;
 
-    trips_discount_percentage: string;
-    trips_discount: string;
+    trips_discount_percentage: number;
+    // Taken off after the percentage, for discounts of a fixed amount.
+    trips_discount_flat: Paise;
+    trips_discount: Paise;
+    // The discount rule the discount came from, as named when it was applied. Absent when
+    // the discount was entered by hand or no rule matched.
+    discount_rule_id?: number;
+    discount_rule_name?: string;
 
-    trips_driver_bata_qty: string;
-    trips_driver_bata_rate: string;
-    trips_driver_bata_amt: string;
+    trips_driver_bata_qty: number;
+    trips_driver_bata_rate: Paise;
+    trips_driver_bata_amt: Paise;
 
-    trips_toll_amt: string;
-    trips_permit_amt: string;
-    trips_night_hault_amt: string;
+    trips_toll_amt: Paise;
+    trips_permit_amt: Paise;
+    trips_night_hault_amt: Paise;
 
     trips_other_charges_desc: string;
-    trips_other_charges_amt: string;
+    trips_other_charges_amt: Paise;
 
-    trips_total_amt: string;
-    trips_less_advance: string;
-    trips_balance: string;
+    trips_total_amt: Paise;
+    trips_less_advance: Paise;
+    trips_balance: Paise;
     trips_total_amt_in_words: string;
     trips_remark: string;
 }
 
-export type InvoiceStatus = 'Draft' | 'Finalized' | 'Paid';
+export type MemoMoneyField =
+    'trips_minimum_charges1' | 'trips_minimum_charges2' |
+    'trips_for_additional_hour_rate' | 'trips_for_additional_hour_amt' | 'trips_fixed_amt' |
+    'trips_km_rate' | 'trips_Km_amt' | 'trips_extra_km_rate' | 'trips_extra_km_amt' | 'trips_discount_flat' | 'trips_discount' | 'trips_driver_bata_rate' | 'trips_driver_bata_amt' |
+    'trips_toll_amt' | 'trips_permit_amt' | 'trips_night_hault_amt' | 'trips_other_charges_amt' |
+    'trips_total_amt' | 'trips_less_advance' | 'trips_balance';
+
+export type MemoQuantityField =
+    'trips_total_hours' | 'trips_startingKm1' | 'trips_closingKm1' | 'trips_startingKm2' | 'trips_closingKm2' |
+    'trips_totalKm' | 'trips_minimum_hours1' | 'trips_minimum_hours2' | 'trips_minimum_km1' | 'trips_minimum_km2' |
+    'trips_running_hours' | 'trips_extra_hours' | 'trips_km' | 'trips_extra_km' |
+    'trips_discount_percentage' | 'trips_driver_bata_qty';
 
-export interface Invoice {
+// The memo form keeps every amount and quantity as the text typed into it; see
+// `utils/memoValues.ts` for the conversion to and from `MemoData`.
+export type MemoFormValues = Omit<MemoData, MemoMoneyField | MemoQuantityField> & Record<MemoMoneyField | MemoQuantityField, string>;
+
+// A cancelled invoice keeps its number but no longer bills its memos, and cannot be edited.
+export type InvoiceStatus = 'Draft' | 'Finalized' | 'Paid' | 'Cancelled';
+
+export interface Invoice extends Versioned {
     id?: number;
     invoice_no: string;
     invoice_date: string;
+    // Name and address follow the customer while the invoice is a draft and are fixed
+    // once it is finalized.
+    customer_id?: number;
     customer_name: string;
+    customer_address1?: string;
+    customer_address2?: string;
     memo_nos: string[];
+    // In rupees. The total is the sum of the memo balances.
     total_amount: number;
     amount_paid: number;
     balance: number;
     status: InvoiceStatus;
 }
+
+// Cursor-based paging for the indexed list queries. `cursor` is opaque: pass back the
+// `nextCursor` of the previous page to continue, or leave it empty for the first page.
+export interface PagedResult<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+export interface MemoQuery {
+    customerId?: number;
+    // Matches the memo number or customer name, in any case.
+    search?: string;
+    fromDate?: string;
+    toDate?: string;
+    limit?: number;
+    cursor?: string | null;
+}
+
+export interface InvoiceQuery {
+    customerId?: number;
+    // Matches the invoice number or customer name, in any case.
+    search?: string;
+    fromDate?: string;
+    toDate?: string;
+    limit?: number;
+    cursor?: string | null;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import';
+
+export interface AuditEntry {
+    id?: number;
+    entity: string;
+    key: string | number;
+    action: AuditAction;
+    before: any | null;
+    after: any | null;
+    timestamp: string;
+    user: string;
+}
+
+export interface AuditQuery {
+    entity?: string;
+    limit?: number;
+    cursor?: string | null;
+}
+
+export interface RecycleBinEntry {
+    id?: number;
+    entity: string;
+    key: string | number;
+    record: any;
+    deleted_at: string;
+    deleted_by: string;
+}
+
+// How a backup file is combined with the local data: 'replace' discards local records,
+// the merge strategies keep them and differ only in which copy wins a conflict.
+export type ImportStrategy = 'replace' | 'merge-keep-local' | 'merge-prefer-file';
+
+export interface ImportStoreSummary {
+    store: string;
+    added: number;
+    changed: number;
+    unchanged: number;
+    conflicting: number;
+    // Local records the file does not contain; only 'replace' removes them.
+    localOnly: number;
+}
+
+// Describes where a backup file came from. Files saved before the envelope existed are
+// upgraded on load and report `formatVersion` 1 with the unknown fields left null.
+export interface BackupMetadata {
+    formatVersion: number;
+    appVersion: string | null;
+    schemaVersion: number | null;
+    exportedAt: string | null;
+    exportedBy: string | null;
+}
+
+// The "Save Database" file. `stores` maps each data store to its records.
+export interface BackupEnvelope extends BackupMetadata {
+    format: string;
+    contentHash: string | null;
+    stores: Record<string, any[]>;
+}
+
+// A record in a backup file that does not match its type in this file.
+export interface BackupRecordFailure {
+    store: string;
+    index: number;
+    key: string | number | null;
+    problems: string[];
+}
+
+export interface ImportPreview {
+    metadata: BackupMetadata;
+    // Problems with the file as a whole, such as a content hash mismatch.
+    fileProblems: string[];
+    failures: BackupRecordFailure[];
+    stores: ImportStoreSummary[];
+}
+
+export type SnapshotReason = 'scheduled' | 'manual' | 'before-import' | 'before-rollback' | 'before-bulk-edit';
+
+export interface SnapshotSummary {
+    id?: number;
+    taken_at: string;
+    taken_by: string;
+    reason: SnapshotReason;
+    counts: Record<string, number>;
+}
+
+// A full copy of every data store at `taken_at`.
+export interface Snapshot extends SnapshotSummary {
+    stores: Record<string, any[]>;
+}
+
+// Everything from the last `keepAllHours` is kept; beyond that the newest snapshot of
+// each day is kept for `dailyDays` days, then the newest of each week for `weeklyWeeks` weeks.
+export interface SnapshotRetention {
+    keepAllHours: number;
+    dailyDays: number;
+    weeklyWeeks: number;
+}
+
+// --- Spreadsheet import of master data ---
+
+export type MasterDataEntity = 'customers' | 'areas' | 'calculations' | 'lookup';
+
+// What to do with a row whose key matches an existing record.
+export type DuplicateHandling = 'skip' | 'update';
+
+// One spreadsheet row after column mapping. `row` is its row number in the file.
+export interface MasterDataImportRow {
+    row: number;
+    record: Record<string, string>;
+}
+
+export interface MasterDataImportOptions {
+    duplicates: DuplicateHandling;
+    // Classify the rows without writing anything.
+    dryRun?: boolean;
+}
+
+export interface MasterDataRowResult {
+    row: number;
+    status: 'new' | 'duplicate' | 'invalid';
+    action: 'add' | 'update' | 'skip';
+    problems: string[];
+    // The stored record a duplicate matches.
+    existingId?: number;
+}
+
+export interface MasterDataImportReport {
+    entity: MasterDataEntity;
+    rows: MasterDataRowResult[];
+    added: number;
+    updated: number;
+    skipped: number;
+    invalid: number;
+    committed: boolean;
+}
+
+// --- Document numbering ---
+
+// How memo numbers are built: `prefix`, then the financial year (e.g. 2025-26) if
+// `includeFinancialYear`, then the sequence padded to `padWidth`, joined by `separator`.
+// With `reset` 'financial-year' the sequence starts again at 1 every April.
+export interface NumberingScheme {
+    prefix: string;
+    separator: '/' | '-';
+    includeFinancialYear: boolean;
+    padWidth: number;
+    reset: 'never' | 'financial-year';
+}
+
+// An invoice number that is no longer in use. Invoice numbers are never handed out twice,
+// so deleting or cancelling an invoice leaves a gap that is recorded here for audits.
+export interface VoidedInvoiceNumber {
+    invoice_no: string;
+    invoice_id: number;
+    invoice_date: string;
+    customer_name: string;
+    // 'discarded': the invoice was dropped by an import or a snapshot rollback.
+    reason: 'deleted' | 'cancelled' | 'discarded';
+    voided_at: string;
+    voided_by: string;
+}
+
+// One number missing from the run of issued invoices, and why.
+export interface InvoiceSequenceGap {
+    invoice_no: string;
+    status: 'deleted' | 'cancelled' | 'discarded' | 'missing';
+    voided?: VoidedInvoiceNumber;
+}
+
+// The invoice numbers of one series (one financial year, or all of them if numbering
+// never restarts) in the current numbering format.
+export interface InvoiceSequenceReport {
+    series: string;
+    first: string;
+    last: string;
+    issued: number;
+    gaps: InvoiceSequenceGap[];
+}
+
+// How many documents refer to a customer; a customer in use cannot simply be deleted.
+export interface CustomerUsage {
+    memos: number;
+    invoices: number;
+    // Invoices not yet paid or cancelled.
+    openInvoices: number;
+}
+
+// Memos and invoices not linked to a customer record, grouped by the name they carry.
+// 'unlinked' names match exactly one customer, 'ambiguous' ones several, 'unmatched'
+// ones none; 'deleted' documents point at a customer that no longer exists.
+export interface CustomerLinkReviewItem {
+    customer_name: string;
+    reason: 'unlinked' | 'ambiguous' | 'unmatched' | 'deleted';
+    memo_nos: string[];
+    invoice_nos: string[];
+    // Customers whose name matches, to choose from first.
+    candidates: Customer[];
+}
+
+// A discount given automatically on memos. A condition left empty matches every memo;
+// of the active rules whose conditions all hold, the one with the lowest `priority`
+// applies. Only the discountable part of a memo is discounted.
+export interface DiscountRule extends Versioned {
+    id?: number;
+    name: string;
+    priority: number;
+    active: boolean;
+    customer_id?: number;
+    // Matches memos whose customer name contains this text, in any case.
+    customer_name_contains?: string;
+    brand?: string;
+    vehicle_type?: string;
+    area_category?: string;
+    valid_from?: string;
+    valid_to?: string;
+    // Compared with the memo's discountable amount.
+    minimum_amount?: Paise;
+    kind: 'percent' | 'flat';
+    // A percentage, or paise for a flat discount.
+    value: number;
+}
+
+// What discount rules are matched against, taken from a memo.
+export interface DiscountContext {
+    customer_id?: number;
+    customer_name: string;
+    brand: string;
+    vehicle_type: string;
+    area_category: string;
+    date: string;
+    amount: Paise;
+}
+
+export interface DiscountRuleCheck {
+    condition: string;
+    passed: boolean;
+    detail: string;
+}
+
+// A change to many calculation rows at once. Empty filters match every row; the rows
+// revised are the ones in force on `effective_from`, or today when it is blank.
+export interface TariffRevision {
+    brand?: string;
+    vehicle_type?: string;
+    area_categories: string[];
+    fields: TariffRateField[];
+    kind: 'percent' | 'absolute';
+    // A percentage, or paise added to each rate; negative to reduce.
+    value: number;
+    rounding: TariffRounding;
+    // Blank corrects the rows in place; a date starts a new version of each from then.
+    effective_from?: string;
+}
+
+export type TariffRateField = 'products_minimum_charges' | 'products_additional_hours_charges' | 'products_driver_bata' | 'products_extra_km_rate';
+
+// Revised rates are rounded to a multiple of `step` paise, to the nearest or up or down.
+export interface TariffRounding {
+    step: Paise;
+    mode: 'nearest' | 'up' | 'down';
+}
+
+export interface TariffRevisionRow {
+    before: Calculation;
+    after: Calculation;
+    problems: string[];
+}
@@ -0,0 +1,78 @@
+// --- Passphrase-encrypted backups ---
+// The backup JSON is encrypted in the browser before it is downloaded, with AES-GCM
+// (which also detects any tampering) under a key derived from the passphrase with
+// PBKDF2. The salt, IV and iteration count travel in the file; the passphrase does not.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'sbt-admin-backup-encrypted';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackup {
+    format: string;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const isEncryptedBackup = (data: any): data is EncryptedBackup =>
+    !!data && data.format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (backup: unknown, passphrase: string): Promise<EncryptedBackup> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const plaintext = new TextEncoder().encode(JSON.stringify(backup));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+    return {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        version: 1,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        ciphertext: toBase64(ciphertext),
+    };
+};
+
+// Resolves to the parsed backup inside. A wrong passphrase and a damaged file look the
+// same to AES-GCM, so both produce the same error.
+export const decryptBackup = async (file: EncryptedBackup, passphrase: string): Promise<any> => {
+    if (file.version !== 1) {
+        throw new Error(`Unsupported encrypted backup version ${file.version}.`);
+    }
+    const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.cipher.iv) }, key, fromBase64(file.ciphertext));
+    } catch {
+        throw new Error("Wrong passphrase, or the file is damaged.");
+    }
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
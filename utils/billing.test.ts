@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import { MemoData } from '../types';
+import { billMemo, billedMemoFields, calculateInvoiceTotals, calculateTrip, hoursBetween, TripInputs, TripTariff } from './billing';
+import { memoFromLegacy } from './memoValues';
+
+// Amounts are in paise: 100000 is ₹1,000.
+const tariff: TripTariff = {
+    minimumHours1: 8,
+    minimumKm1: 80,
+    minimumCharges1: 100000,
+    minimumHours2: 0,
+    minimumKm2: 0,
+    minimumCharges2: 0,
+    runningHours: 1,
+    additionalHourRate: 10000,
+    extraKmRate: 1200,
+    kmRate: 0,
+    driverBataRate: 5000,
+};
+
+const trip = (changes: Partial<TripInputs> = {}): TripInputs => ({
+    startingTime1: '08:00',
+    closingTime1: '12:00',
+    startingTime2: '',
+    closingTime2: '',
+    startingKm1: 1000,
+    closingKm1: 1040,
+    startingKm2: 0,
+    closingKm2: 0,
+    fixedAmount: 0,
+    tollAmount: 0,
+    permitAmount: 0,
+    nightHaltAmount: 0,
+    otherCharges: 0,
+    discountPercentage: 0,
+    discountFlat: 0,
+    advance: 0,
+    ...changes,
+});
+
+const lineAmount = (bill: ReturnType<typeof calculateTrip>, kind: string) =>
+    bill.lines.find(line => line.kind === kind)?.amount;
+
+describe('hoursBetween', () => {
+    it('counts the hours between two times on the same day', () => {
+        expect(hoursBetween('08:00', '17:30')).toBe(9.5);
+    });
+
+    it('treats a closing time before the starting time as the next day', () => {
+        expect(hoursBetween('22:00', '02:30')).toBe(4.5);
+    });
+
+    it('counts blank or unreadable times as no time', () => {
+        expect(hoursBetween('', '10:00')).toBe(0);
+        expect(hoursBetween('08:00', 'late')).toBe(0);
+    });
+});
+
+describe('calculateTrip', () => {
+    it('charges only the package for a trip within its hours and km', () => {
+        const bill = calculateTrip(trip(), tariff);
+        expect(bill.totalHours).toBe(4);
+        expect(bill.totalKm).toBe(40);
+        expect(bill.extraHours).toBe(0);
+        expect(bill.extraKm).toBe(0);
+        expect(lineAmount(bill, 'package1')).toBe(100000);
+        expect(lineAmount(bill, 'extraHours')).toBe(0);
+        expect(lineAmount(bill, 'extraKm')).toBe(0);
+        expect(bill.total).toBe(100000 + 4 * 5000);
+    });
+
+    it('charges the minimum even for a very short trip', () => {
+        const bill = calculateTrip(trip({ closingTime1: '08:30', closingKm1: 1005 }), tariff);
+        expect(lineAmount(bill, 'package1')).toBe(100000);
+        expect(bill.discountableAmount).toBe(100000);
+    });
+
+    it('charges extra hours only after the package and running hours', () => {
+        const bill = calculateTrip(trip({ closingTime1: '19:30' }), tariff);
+        expect(bill.totalHours).toBe(11.5);
+        expect(bill.extraHours).toBe(2.5);
+        expect(lineAmount(bill, 'extraHours')).toBe(25000);
+    });
+
+    it('counts running hours as travel time allowed on top of the packages', () => {
+        const withRunning = calculateTrip(trip({ closingTime1: '17:00' }), tariff);
+        const withoutRunning = calculateTrip(trip({ closingTime1: '17:00' }), { ...tariff, runningHours: 0 });
+        expect(withRunning.extraHours).toBe(0);
+        expect(withoutRunning.extraHours).toBe(1);
+        expect(lineAmount(withRunning, 'runningHours')).toBe(0);
+    });
+
+    it('charges km beyond the packages at the extra km rate', () => {
+        const bill = calculateTrip(trip({ closingKm1: 1150 }), tariff);
+        expect(bill.extraKm).toBe(70);
+        expect(lineAmount(bill, 'extraKm')).toBe(70 * 1200);
+    });
+
+    it('adds up both legs and both packages', () => {
+        const bill = calculateTrip(
+            trip({ startingTime2: '14:00', closingTime2: '18:00', startingKm2: 2000, closingKm2: 2100 }),
+            { ...tariff, minimumHours2: 4, minimumKm2: 40, minimumCharges2: 60000 },
+        );
+        expect(bill.totalHours).toBe(8);
+        expect(bill.totalKm).toBe(140);
+        expect(bill.extraKm).toBe(20);
+        expect(lineAmount(bill, 'package2')).toBe(60000);
+        expect(bill.extraHours).toBe(0);
+    });
+
+    it('handles a trip that runs past midnight', () => {
+        const bill = calculateTrip(trip({ startingTime1: '20:00', closingTime1: '07:15' }), tariff);
+        expect(bill.totalHours).toBe(11.25);
+        expect(bill.extraHours).toBe(2.25);
+        expect(lineAmount(bill, 'extraHours')).toBe(22500);
+        expect(bill.driverBataQty).toBe(12);
+    });
+
+    it('pays driver bata for every hour started', () => {
+        expect(calculateTrip(trip({ closingTime1: '08:15' }), tariff).driverBataQty).toBe(1);
+        expect(calculateTrip(trip({ closingTime1: '16:00' }), tariff).driverBataQty).toBe(8);
+        expect(lineAmount(calculateTrip(trip({ closingTime1: '16:01' }), tariff), 'driverBata')).toBe(9 * 5000);
+        expect(calculateTrip(trip({ closingTime1: '08:00' }), tariff).driverBataQty).toBe(0);
+    });
+
+    it('discounts only the discountable lines', () => {
+        const bill = calculateTrip(trip({ tollAmount: 20000, permitAmount: 5000, discountPercentage: 10 }), tariff);
+        expect(bill.discountableAmount).toBe(100000);
+        expect(bill.nonDiscountableAmount).toBe(20000 + 5000 + 4 * 5000);
+        expect(bill.discount).toBe(10000);
+        expect(bill.total).toBe(100000 + 45000 - 10000);
+    });
+
+    it('takes a flat discount on top of the percentage', () => {
+        const bill = calculateTrip(trip({ discountPercentage: 10, discountFlat: 2500 }), tariff);
+        expect(bill.discount).toBe(12500);
+    });
+
+    it('caps the discount at the discountable amount', () => {
+        const bill = calculateTrip(trip({ tollAmount: 20000, discountPercentage: 50, discountFlat: 90000 }), tariff);
+        expect(bill.discount).toBe(100000);
+        expect(bill.total).toBe(20000 + 4 * 5000);
+        expect(bill.discountExplanation).toContain('capped at the discountable amount');
+    });
+
+    it('rounds percentage discounts to the paisa', () => {
+        const bill = calculateTrip(trip({ discountPercentage: 3.333 }), { ...tariff, minimumCharges1: 100001 });
+        expect(Number.isInteger(bill.discount)).toBe(true);
+        expect(bill.discount).toBe(3333);
+    });
+
+    it('leaves the balance after the advance', () => {
+        const bill = calculateTrip(trip({ advance: 50000 }), tariff);
+        expect(bill.total).toBe(120000);
+        expect(bill.balance).toBe(70000);
+    });
+
+    it('can leave a negative balance when the advance is more than the total', () => {
+        expect(calculateTrip(trip({ advance: 150000 }), tariff).balance).toBe(-30000);
+    });
+});
+
+const memo = (changes: Record<string, unknown>): MemoData => memoFromLegacy({
+    trips_memo_no: 'SBT-001',
+    trip_operated_date1: '2026-01-05',
+    customers_name: 'ABC Transport Co',
+    trips_starting_time1: '08:00',
+    trips_closing_time1: '19:30',
+    trips_startingKm1: 1000,
+    trips_closingKm1: 1150,
+    trips_minimum_hours1: 8,
+    trips_minimum_km1: 80,
+    trips_minimum_charges1: 100000,
+    trips_running_hours: 1,
+    trips_for_additional_hour_rate: 10000,
+    trips_extra_km_rate: 1200,
+    trips_driver_bata_rate: 5000,
+    ...changes,
+});
+
+describe('billMemo', () => {
+    it('bills a memo from its trip fields and rates', () => {
+        const bill = billMemo(memo({ trips_toll_amt: 15000, trips_less_advance: 20000 }));
+        expect(bill.extraHours).toBe(2.5);
+        expect(bill.extraKm).toBe(70);
+        expect(bill.total).toBe(100000 + 25000 + 84000 + 12 * 5000 + 15000);
+        expect(bill.balance).toBe(bill.total - 20000);
+    });
+
+    it('applies the memo discount percentage and flat amount', () => {
+        const bill = billMemo(memo({ trips_discount_percentage: 10, trips_discount_flat: 900 }));
+        expect(bill.discount).toBe(20900 + 900);
+    });
+});
+
+describe('billedMemoFields', () => {
+    it('fills in the memo fields the bill works out', () => {
+        const bill = billMemo(memo({ trips_km_rate: 100, trips_less_advance: 1000 }));
+        expect(billedMemoFields(bill)).toEqual({
+            trips_total_hours: 11.5,
+            trips_driver_bata_qty: 12,
+            trips_totalKm: 150,
+            trips_km: 150,
+            trips_extra_hours: 2.5,
+            trips_for_additional_hour_amt: 25000,
+            trips_Km_amt: 15000,
+            trips_extra_km: 70,
+            trips_extra_km_amt: 84000,
+            trips_driver_bata_amt: 60000,
+            trips_discount: 0,
+            trips_total_amt: 100000 + 25000 + 84000 + 15000 + 60000,
+            trips_balance: 100000 + 25000 + 84000 + 15000 + 60000 - 1000,
+        });
+    });
+});
+
+describe('calculateInvoiceTotals', () => {
+    it('bills the balances of its memos, less what has been paid', () => {
+        const memos = [memo({ trips_balance: 120000 }), memo({ trips_balance: 45050 })];
+        expect(calculateInvoiceTotals(memos, 65050)).toEqual({ total: 165050, balance: 100000 });
+    });
+
+    it('is zero for no memos', () => {
+        expect(calculateInvoiceTotals([], 0)).toEqual({ total: 0, balance: 0 });
+    });
+});
@@ -0,0 +1,290 @@
+import { MemoData, Paise } from '../types';
+import { displayRupees, formatQuantity, multiplyPaise, percentOfPaise } from './money';
+
+// --- Trip billing ---
+// Every rule for pricing a trip lives here, apart from React and storage, so that the
+// memo form, invoices and reports all arrive at the same figures. Amounts are in paise.
+
+// What happened on the trip, as written on the memo.
+export interface TripInputs {
+    startingTime1: string;
+    closingTime1: string;
+    startingTime2: string;
+    closingTime2: string;
+    startingKm1: number;
+    closingKm1: number;
+    startingKm2: number;
+    closingKm2: number;
+    fixedAmount: Paise;
+    tollAmount: Paise;
+    permitAmount: Paise;
+    nightHaltAmount: Paise;
+    otherCharges: Paise;
+    discountPercentage: number;
+    discountFlat: Paise;
+    advance: Paise;
+}
+
+// The rates the trip is priced at: up to two packages (minimum hours and km for a
+// minimum charge), running hours allowed for travel, then per extra hour, per km beyond
+// the packages, per km operated and driver bata.
+export interface TripTariff {
+    minimumHours1: number;
+    minimumKm1: number;
+    minimumCharges1: Paise;
+    minimumHours2: number;
+    minimumKm2: number;
+    minimumCharges2: Paise;
+    runningHours: number;
+    additionalHourRate: Paise;
+    extraKmRate: Paise;
+    kmRate: Paise;
+    driverBataRate: Paise;
+}
+
+export type BillingLineKind =
+    'package1' | 'package2' | 'runningHours' | 'extraHours' | 'extraKm' | 'fixed' | 'km' |
+    'driverBata' | 'toll' | 'permit' | 'nightHalt' | 'otherCharges';
+
+export interface BillingLine {
+    kind: BillingLineKind;
+    label: string;
+    quantity?: number;
+    rate?: Paise;
+    amount: Paise;
+    // Whether the discount applies to this line.
+    discountable: boolean;
+    explanation: string;
+}
+
+export interface TripBill {
+    totalHours: number;
+    totalKm: number;
+    extraHours: number;
+    extraKm: number;
+    driverBataQty: number;
+    lines: BillingLine[];
+    discountableAmount: Paise;
+    nonDiscountableAmount: Paise;
+    discount: Paise;
+    discountExplanation: string;
+    total: Paise;
+    advance: Paise;
+    balance: Paise;
+}
+
+// Hours from `start` to `end` ("HH:MM"). A closing time before the starting time means
+// the trip ran past midnight. Blank or unreadable times count as no time at all.
+export const hoursBetween = (start: string, end: string): number => {
+    if (!start || !end) return 0;
+    const [startH, startM] = start.split(':').map(Number);
+    const [endH, endM] = end.split(':').map(Number);
+    if (isNaN(startH) || isNaN(startM) || isNaN(endH) || isNaN(endM)) return 0;
+    const startMinutes = startH * 60 + startM;
+    let endMinutes = endH * 60 + endM;
+    if (endMinutes < startMinutes) endMinutes += 24 * 60;
+    return (endMinutes - startMinutes) / 60;
+};
+
+const sum = (amounts: Paise[]): Paise => amounts.reduce((total, amount) => total + amount, 0);
+
+const packageTerms = (hours: number, km: number): string =>
+    km ? `${formatQuantity(hours)} h and ${formatQuantity(km)} km` : `${formatQuantity(hours)} h`;
+
+const chargeLine = (kind: BillingLineKind, label: string, amount: Paise, discountable: boolean): BillingLine => ({
+    kind,
+    label,
+    amount,
+    discountable,
+    explanation: amount ? `${displayRupees(amount)} as entered.` : 'Nothing entered.',
+});
+
+const discountExplanation = (trip: TripInputs, discountableAmount: Paise, discount: Paise): string => {
+    if (!discount) return 'No discount.';
+    const terms = [
+        trip.discountPercentage ? `${formatQuantity(trip.discountPercentage)}% of ${displayRupees(discountableAmount)}` : '',
+        trip.discountFlat ? `${displayRupees(trip.discountFlat)} off` : '',
+    ].filter(Boolean).join(' and ');
+    const capped = discount === discountableAmount && discount < percentOfPaise(discountableAmount, trip.discountPercentage) + trip.discountFlat
+        ? ', capped at the discountable amount' : '';
+    return `${terms}${capped}. Only the packages, extra hours, extra km, fixed amount and km are discounted; bata, toll, permit, night halt and other charges are not.`;
+};
+
+export const calculateTrip = (trip: TripInputs, tariff: TripTariff): TripBill => {
+    const totalHours = Number((hoursBetween(trip.startingTime1, trip.closingTime1) + hoursBetween(trip.startingTime2, trip.closingTime2)).toFixed(2));
+    const totalKm = (trip.closingKm1 - trip.startingKm1) + (trip.closingKm2 - trip.startingKm2);
+    // Running hours cover travel to and from the job, so extra hours only start after both.
+    const packageHours = tariff.minimumHours1 + tariff.minimumHours2;
+    const includedHours = packageHours + tariff.runningHours;
+    const extraHours = Math.max(0, totalHours - includedHours);
+    const includedKm = tariff.minimumKm1 + tariff.minimumKm2;
+    const extraKm = Math.max(0, totalKm - includedKm);
+    // Bata is paid for every hour started.
+    const driverBataQty = Math.ceil(totalHours);
+
+    const lines: BillingLine[] = [
+        {
+            kind: 'package1',
+            label: 'Package 1',
+            quantity: tariff.minimumHours1,
+            amount: tariff.minimumCharges1,
+            discountable: true,
+            explanation: `Minimum charge covering ${packageTerms(tariff.minimumHours1, tariff.minimumKm1)}.`,
+        },
+        {
+            kind: 'package2',
+            label: 'Package 2',
+            quantity: tariff.minimumHours2,
+            amount: tariff.minimumCharges2,
+            discountable: true,
+            explanation: tariff.minimumCharges2 || tariff.minimumHours2
+                ? `Minimum charge covering ${packageTerms(tariff.minimumHours2, tariff.minimumKm2)}.`
+                : 'No second package.',
+        },
+        {
+            kind: 'runningHours',
+            label: 'Running Hours',
+            quantity: tariff.runningHours,
+            amount: 0,
+            discountable: true,
+            explanation: tariff.runningHours
+                ? `${formatQuantity(tariff.runningHours)} h of travel allowed on top of the packages before extra hours start.`
+                : 'No travel time allowed.',
+        },
+        {
+            kind: 'extraHours',
+            label: 'Extra Hours',
+            quantity: extraHours,
+            rate: tariff.additionalHourRate,
+            amount: multiplyPaise(tariff.additionalHourRate, extraHours),
+            discountable: true,
+            explanation: extraHours > 0
+                ? `${formatQuantity(totalHours)} h operated, ${formatQuantity(packageHours)} h in the packages and ` +
+                  `${formatQuantity(tariff.runningHours)} h running: ${formatQuantity(extraHours)} h × ${displayRupees(tariff.additionalHourRate)}.`
+                : `${formatQuantity(totalHours)} h operated, within the ${formatQuantity(packageHours)} h in the packages and ` +
+                  `${formatQuantity(tariff.runningHours)} h running.`,
+        },
+        {
+            kind: 'extraKm',
+            label: 'Extra KM',
+            quantity: extraKm,
+            rate: tariff.extraKmRate,
+            amount: multiplyPaise(tariff.extraKmRate, extraKm),
+            discountable: true,
+            explanation: extraKm > 0
+                ? `${formatQuantity(totalKm)} km operated, ${formatQuantity(includedKm)} km in the packages: ` +
+                  `${formatQuantity(extraKm)} km × ${displayRupees(tariff.extraKmRate)}.`
+                : `${formatQuantity(totalKm)} km operated, within the ${formatQuantity(includedKm)} km in the packages.`,
+        },
+        chargeLine('fixed', 'Fixed Amount', trip.fixedAmount, true),
+        {
+            kind: 'km',
+            label: 'Total KM Operated',
+            quantity: totalKm,
+            rate: tariff.kmRate,
+            amount: multiplyPaise(tariff.kmRate, totalKm),
+            discountable: true,
+            explanation: `${formatQuantity(totalKm)} km × ${displayRupees(tariff.kmRate)}.`,
+        },
+        {
+            kind: 'driverBata',
+            label: 'Driver Bata',
+            quantity: driverBataQty,
+            rate: tariff.driverBataRate,
+            amount: multiplyPaise(tariff.driverBataRate, driverBataQty),
+            discountable: false,
+            explanation: `${driverBataQty} started hours × ${displayRupees(tariff.driverBataRate)}.`,
+        },
+        chargeLine('toll', 'Toll Charges', trip.tollAmount, false),
+        chargeLine('permit', 'Permit', trip.permitAmount, false),
+        chargeLine('nightHalt', 'Night Hault', trip.nightHaltAmount, false),
+        chargeLine('otherCharges', 'Other Charges', trip.otherCharges, false),
+    ];
+
+    const discountableAmount = sum(lines.filter(line => line.discountable).map(line => line.amount));
+    const nonDiscountableAmount = sum(lines.filter(line => !line.discountable).map(line => line.amount));
+    // A flat discount is taken off after the percentage, and never past the discountable amount.
+    const discount = Math.min(discountableAmount, percentOfPaise(discountableAmount, trip.discountPercentage) + trip.discountFlat);
+    const total = discountableAmount + nonDiscountableAmount - discount;
+
+    return {
+        totalHours,
+        totalKm,
+        extraHours,
+        extraKm,
+        driverBataQty,
+        lines,
+        discountableAmount,
+        nonDiscountableAmount,
+        discount,
+        discountExplanation: discountExplanation(trip, discountableAmount, discount),
+        total,
+        advance: trip.advance,
+        balance: total - trip.advance,
+    };
+};
+
+// --- Memos ---
+
+export const tripInputsOf = (memo: MemoData): TripInputs => ({
+    startingTime1: memo.trips_starting_time1,
+    closingTime1: memo.trips_closing_time1,
+    startingTime2: memo.trips_starting_time2,
+    closingTime2: memo.trips_closing_time2,
+    startingKm1: memo.trips_startingKm1,
+    closingKm1: memo.trips_closingKm1,
+    startingKm2: memo.trips_startingKm2,
+    closingKm2: memo.trips_closingKm2,
+    fixedAmount: memo.trips_fixed_amt,
+    tollAmount: memo.trips_toll_amt,
+    permitAmount: memo.trips_permit_amt,
+    nightHaltAmount: memo.trips_night_hault_amt,
+    otherCharges: memo.trips_other_charges_amt,
+    discountPercentage: memo.trips_discount_percentage,
+    discountFlat: memo.trips_discount_flat,
+    advance: memo.trips_less_advance,
+});
+
+export const tariffOf = (memo: MemoData): TripTariff => ({
+    minimumHours1: memo.trips_minimum_hours1,
+    minimumKm1: memo.trips_minimum_km1,
+    minimumCharges1: memo.trips_minimum_charges1,
+    minimumHours2: memo.trips_minimum_hours2,
+    minimumKm2: memo.trips_minimum_km2,
+    minimumCharges2: memo.trips_minimum_charges2,
+    runningHours: memo.trips_running_hours,
+    additionalHourRate: memo.trips_for_additional_hour_rate,
+    extraKmRate: memo.trips_extra_km_rate,
+    kmRate: memo.trips_km_rate,
+    driverBataRate: memo.trips_driver_bata_rate,
+});
+
+export const billMemo = (memo: MemoData): TripBill => calculateTrip(tripInputsOf(memo), tariffOf(memo));
+
+const amountOf = (bill: TripBill, kind: BillingLineKind): Paise =>
+    bill.lines.find(line => line.kind === kind)?.amount || 0;
+
+// The memo fields a bill fills in. Everything else on the memo is entered by hand.
+export const billedMemoFields = (bill: TripBill) => ({
+    trips_total_hours: bill.totalHours,
+    trips_driver_bata_qty: bill.driverBataQty,
+    trips_totalKm: bill.totalKm,
+    trips_km: bill.totalKm,
+    trips_extra_hours: bill.extraHours,
+    trips_for_additional_hour_amt: amountOf(bill, 'extraHours'),
+    trips_Km_amt: amountOf(bill, 'km'),
+    trips_extra_km: bill.extraKm,
+    trips_extra_km_amt: amountOf(bill, 'extraKm'),
+    trips_driver_bata_amt: amountOf(bill, 'driverBata'),
+    trips_discount: bill.discount,
+    trips_total_amt: bill.total,
+    trips_balance: bill.balance,
+});
+
+// --- Invoices ---
+
+// An invoice bills the balances left on its memos.
+export const calculateInvoiceTotals = (memos: MemoData[], amountPaid: Paise): { total: Paise; balance: Paise } => {
+    const total = sum(memos.map(memo => memo.trips_balance));
+    return { total, balance: total - amountPaid };
+};
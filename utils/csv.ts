@@ -0,0 +1,71 @@
+// --- CSV ---
+// RFC 4180: fields separated by commas, optionally wrapped in double quotes, with "" for
+// a literal quote inside a quoted field. Quoted fields may span lines. A leading byte
+// order mark (as Excel writes) is ignored. Blank lines are kept as empty rows so row
+// numbers still match the file; only a trailing line break adds no row.
+
+// A spreadsheet runs text starting with =, +, - or @ as a formula, so `toCsv` writes such
+// text with a leading apostrophe, which spreadsheets hide, and `parseCsv` drops it again.
+// Text that already starts with apostrophes before one of those gets one more, so it
+// reads back unchanged. Plain numbers such as -150.00 are written as they are.
+const FORMULA_START = /^'*[=+\-@]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+const ESCAPED_FORMULA = /^'+[=+\-@]/;
+
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endField = () => {
+        row.push(ESCAPED_FORMULA.test(field) ? field.slice(1) : field);
+        field = '';
+    };
+    const endRow = () => {
+        endField();
+        rows.push(row);
+        row = [];
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            endField();
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) endRow();
+    return rows;
+};
+
+// Quotes a field only when it needs it: commas, quotes, line breaks, or leading and
+// trailing spaces that a spreadsheet would otherwise trim.
+const quoteField = (value: string): string =>
+    /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const escapeFormula = (value: string): string =>
+    FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+
+// CRLF line endings and a byte order mark, so Excel opens the file as UTF-8 (₹ and
+// Tamil names survive) instead of guessing the system code page.
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+    '\uFEFF' + rows.map(row => row.map(value => quoteField(value === null || value === undefined ? '' : escapeFormula(String(value)))).join(',')).join('\r\n') + '\r\n';
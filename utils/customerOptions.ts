@@ -0,0 +1,16 @@
+import { Customer } from '../types';
+
+// Choices for picking a customer, keyed by id. Customers sharing a name are told apart
+// by their first address line.
+export const customerOptions = (customers: Customer[]): { value: string; label: string }[] => {
+    const nameCounts = new Map<string, number>();
+    customers.forEach(customer => nameCounts.set(customer.customers_name, (nameCounts.get(customer.customers_name) || 0) + 1));
+    return [...customers]
+        .sort((a, b) => a.customers_name.localeCompare(b.customers_name))
+        .map(customer => ({
+            value: String(customer.id),
+            label: (nameCounts.get(customer.customers_name) || 0) > 1
+                ? `${customer.customers_name} (${customer.customers_address1})`
+                : customer.customers_name,
+        }));
+};
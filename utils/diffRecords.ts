@@ -0,0 +1,29 @@
+export interface FieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+    changed: boolean;
+}
+
+const format = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Lines up two versions of a record field by field. Either side may be null for
+// creates and deletes, in which case every present field counts as changed.
+export const diffRecords = (before: Record<string, unknown> | null, after: Record<string, unknown> | null): FieldChange[] => {
+    const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})])).sort();
+    return fields.map(field => {
+        const beforeValue = before ? before[field] : undefined;
+        const afterValue = after ? after[field] : undefined;
+        return {
+            field,
+            before: beforeValue,
+            after: afterValue,
+            changed: format(beforeValue) !== format(afterValue),
+        };
+    });
+};
+
+export const formatFieldValue = format;
@@ -0,0 +1,98 @@
+import { DiscountContext, DiscountRule, DiscountRuleCheck, MemoData, Paise } from '../types';
+import { billMemo } from './billing';
+import { displayRupees, formatQuantity, percentOfPaise } from './money';
+
+// --- Discount rules ---
+// Discounts are data: each rule names the memos it applies to and what it takes off.
+// Of the active rules that match a memo, the one with the lowest priority wins; rules
+// with the same priority are taken in the order they were created, a rule not saved
+// yet coming last.
+
+// The brand and area category of a service, read from its row in the services catalog.
+export const serviceContextOf = (services: string[][], productItem: string) => {
+    const service = services.find(row => row[3] === productItem);
+    return {
+        brand: service ? service[2].split(' - ')[0] : '',
+        area_category: service ? service[1] : '',
+    };
+};
+
+// What rules are matched against, for a memo whose discountable amount is `amount`.
+export const discountContextOf = (memo: MemoData, services: string[][], amount: Paise): DiscountContext => ({
+    customer_id: memo.customer_id,
+    customer_name: memo.customers_name,
+    ...serviceContextOf(services, memo.products_item),
+    vehicle_type: memo.trips_vehicle_type,
+    date: memo.trip_operated_date1,
+    amount,
+});
+
+// Every condition the rule sets, and whether the memo meets it.
+export const ruleChecks = (rule: DiscountRule, context: DiscountContext): DiscountRuleCheck[] => {
+    const checks: DiscountRuleCheck[] = [];
+    const check = (condition: string, passed: boolean, detail: string) => checks.push({ condition, passed, detail });
+
+    if (!rule.active) check('Active', false, 'The rule is switched off.');
+    if (rule.customer_id !== undefined) {
+        check('Customer', context.customer_id === rule.customer_id,
+            context.customer_id === undefined ? 'The memo has no linked customer.' : 'The memo is for the customer the rule names.');
+    }
+    if (rule.customer_name_contains) {
+        check('Customer name', context.customer_name.toLowerCase().includes(rule.customer_name_contains.toLowerCase()),
+            `The memo's customer is ${context.customer_name || 'blank'}.`);
+    }
+    if (rule.brand) check('Brand', context.brand === rule.brand, `The memo's service is ${context.brand || 'not in the catalog'}.`);
+    if (rule.vehicle_type) check('Vehicle type', context.vehicle_type === rule.vehicle_type, `The memo's vehicle type is ${context.vehicle_type || 'blank'}.`);
+    if (rule.area_category) check('Area category', context.area_category === rule.area_category, `The memo's area category is ${context.area_category || 'unknown'}.`);
+    if (rule.valid_from) check('From', context.date >= rule.valid_from, `The memo is dated ${context.date}.`);
+    if (rule.valid_to) check('To', context.date <= rule.valid_to, `The memo is dated ${context.date}.`);
+    if (rule.minimum_amount) {
+        check('Minimum amount', context.amount >= rule.minimum_amount,
+            `${displayRupees(context.amount)} of the memo can be discounted; the rule needs ${displayRupees(rule.minimum_amount)}.`);
+    }
+    return checks;
+};
+
+export const ruleMatches = (rule: DiscountRule, context: DiscountContext): boolean =>
+    ruleChecks(rule, context).every(check => check.passed);
+
+export const sortDiscountRules = (rules: DiscountRule[]): DiscountRule[] =>
+    [...rules].sort((a, b) => a.priority - b.priority || (a.id ?? Number.MAX_SAFE_INTEGER) - (b.id ?? Number.MAX_SAFE_INTEGER));
+
+export const findDiscountRule = (rules: DiscountRule[], context: DiscountContext): DiscountRule | undefined =>
+    sortDiscountRules(rules).find(rule => ruleMatches(rule, context));
+
+export const describeDiscount = (rule: Pick<DiscountRule, 'kind' | 'value'>): string =>
+    rule.kind === 'percent' ? `${formatQuantity(rule.value)}%` : `${displayRupees(rule.value)} off`;
+
+// What the rule would take off a discountable amount.
+export const discountOf = (rule: DiscountRule, amount: Paise): Paise =>
+    Math.min(amount, rule.kind === 'percent' ? percentOfPaise(amount, rule.value) : rule.value);
+
+// What is wrong with a rule, as sentences. Empty when it can be saved.
+export const discountRuleProblems = (rule: DiscountRule): string[] => {
+    const problems: string[] = [];
+    if (!rule.name.trim()) problems.push('A rule needs a name.');
+    if (!Number.isFinite(rule.priority)) problems.push('The priority must be a number.');
+    if (!Number.isFinite(rule.value) || rule.value < 0) problems.push('The discount cannot be negative.');
+    if (rule.kind === 'percent' && rule.value > 100) problems.push('A percentage discount cannot be over 100%.');
+    if (rule.kind === 'flat' && !Number.isInteger(rule.value)) problems.push('A flat discount must be in whole paise.');
+    if (rule.valid_from && rule.valid_to && rule.valid_from > rule.valid_to) problems.push('The rule ends before it starts.');
+    if (rule.minimum_amount !== undefined && rule.minimum_amount < 0) problems.push('The minimum amount cannot be negative.');
+    return problems;
+};
+
+// Sets the memo's discount from the first rule that matches it, or clears the discount
+// when none does. The discountable amount does not depend on the discount, so the memo
+// is billed once without one to find it.
+export const applyDiscountRules = (memo: MemoData, rules: DiscountRule[], services: string[][]): MemoData => {
+    const { discountableAmount } = billMemo({ ...memo, trips_discount_percentage: 0, trips_discount_flat: 0 });
+    const rule = findDiscountRule(rules, discountContextOf(memo, services, discountableAmount));
+    return {
+        ...memo,
+        trips_discount_percentage: rule?.kind === 'percent' ? rule.value : 0,
+        trips_discount_flat: rule?.kind === 'flat' ? rule.value : 0,
+        discount_rule_id: rule?.id,
+        discount_rule_name: rule?.name,
+    };
+};
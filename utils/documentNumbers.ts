@@ -0,0 +1,33 @@
+import { NumberingScheme } from '../types';
+
+// --- Document number formatting ---
+
+// Indian financial years run April to March: 2025-04-01 .. 2026-03-31 is "2025-26".
+export const financialYearOf = (date: string): string => {
+    const [year, month] = date.split('-').map(Number);
+    const startYear = month >= 4 ? year : year - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatDocumentNumber = (scheme: NumberingScheme, financialYear: string, sequence: number): string =>
+    [scheme.prefix, scheme.includeFinancialYear ? financialYear : '', String(sequence).padStart(scheme.padWidth, '0')]
+        .filter(Boolean)
+        .join(scheme.separator);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits a number written in `scheme` into its financial year (null when the scheme has
+// none) and sequence. Returns null for numbers in any other format.
+export const parseDocumentNumber = (scheme: NumberingScheme, number: string): { financialYear: string | null; sequence: number } | null => {
+    const parts = [
+        scheme.prefix ? escapeRegExp(scheme.prefix) : '',
+        scheme.includeFinancialYear ? '(\\d{4}-\\d{2})' : '',
+        '(\\d+)',
+    ].filter(Boolean);
+    const match = new RegExp(`^${parts.join(escapeRegExp(scheme.separator))}$`).exec(number);
+    if (!match) return null;
+    return {
+        financialYear: scheme.includeFinancialYear ? match[1] : null,
+        sequence: Number(match[match.length - 1]),
+    };
+};
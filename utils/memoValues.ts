@@ -0,0 +1,56 @@
+import { MemoData, MemoFormValues, MemoMoneyField, MemoQuantityField } from '../types';
+import { formatQuantity, formatRupees, parseQuantity, parseRupees } from './money';
+
+// --- Memo values ---
+// Memos are stored and passed around as `MemoData`: amounts in paise, quantities as
+// numbers. Text only appears at the edges, in the memo form and in memos saved before
+// amounts were typed, and is converted here and nowhere else.
+
+// Listed as records so that the compiler insists on every field of each kind.
+const moneyFields: Record<MemoMoneyField, true> = {
+    trips_minimum_charges1: true, trips_minimum_charges2: true,
+    trips_for_additional_hour_rate: true, trips_for_additional_hour_amt: true, trips_fixed_amt: true,
+    trips_km_rate: true, trips_Km_amt: true, trips_extra_km_rate: true, trips_extra_km_amt: true,
+    trips_discount_flat: true, trips_discount: true, trips_driver_bata_rate: true, trips_driver_bata_amt: true,
+    trips_toll_amt: true, trips_permit_amt: true, trips_night_hault_amt: true, trips_other_charges_amt: true,
+    trips_total_amt: true, trips_less_advance: true, trips_balance: true,
+};
+
+const quantityFields: Record<MemoQuantityField, true> = {
+    trips_total_hours: true, trips_startingKm1: true, trips_closingKm1: true, trips_startingKm2: true, trips_closingKm2: true,
+    trips_totalKm: true, trips_minimum_hours1: true, trips_minimum_hours2: true, trips_minimum_km1: true, trips_minimum_km2: true,
+    trips_running_hours: true, trips_extra_hours: true, trips_km: true, trips_extra_km: true,
+    trips_discount_percentage: true, trips_driver_bata_qty: true,
+};
+
+export const MEMO_MONEY_FIELDS = Object.keys(moneyFields) as MemoMoneyField[];
+export const MEMO_QUANTITY_FIELDS = Object.keys(quantityFields) as MemoQuantityField[];
+
+export const memoToForm = (memo: MemoData): MemoFormValues => {
+    const values = { ...memo } as unknown as MemoFormValues;
+    MEMO_MONEY_FIELDS.forEach(field => values[field] = formatRupees(memo[field]));
+    MEMO_QUANTITY_FIELDS.forEach(field => values[field] = formatQuantity(memo[field]));
+    return values;
+};
+
+export const memoFromForm = (values: MemoFormValues): MemoData => {
+    const memo = { ...values } as unknown as MemoData;
+    MEMO_MONEY_FIELDS.forEach(field => memo[field] = parseRupees(values[field]));
+    MEMO_QUANTITY_FIELDS.forEach(field => memo[field] = parseQuantity(values[field]));
+    return memo;
+};
+
+// Reads a memo saved by an older version: amounts written as rupee text (database
+// version 9 and backup format 3 or older) become paise, and fields added since are
+// filled in as zero. Fields that are already numbers are kept as they are, so a memo
+// may safely pass through more than once.
+export const memoFromLegacy = (record: Record<string, unknown>): MemoData => {
+    const memo: Record<string, unknown> = { ...record };
+    MEMO_MONEY_FIELDS.forEach(field => {
+        if (typeof memo[field] !== 'number') memo[field] = parseRupees(String(memo[field] ?? ''));
+    });
+    MEMO_QUANTITY_FIELDS.forEach(field => {
+        if (typeof memo[field] !== 'number') memo[field] = parseQuantity(String(memo[field] ?? ''));
+    });
+    return memo as unknown as MemoData;
+};
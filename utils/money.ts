@@ -0,0 +1,40 @@
+import { Paise } from '../types';
+
+// --- Money ---
+// Amounts are held in whole paise. Rupees only appear where people read or type them.
+
+// Float products such as 1.005 * 100 come out a hair short of the intended value, so
+// they are trimmed to 15 significant digits before rounding to the paisa.
+const roundToPaisa = (value: number): Paise => Math.round(Number(value.toPrecision(15)));
+
+export const rupeesToPaise = (rupees: number): Paise => roundToPaisa(rupees * 100);
+
+export const paiseToRupees = (paise: Paise): number => paise / 100;
+
+// A rate times a quantity (hours, km, days), rounded to the paisa.
+export const multiplyPaise = (paise: Paise, quantity: number): Paise => roundToPaisa(paise * quantity);
+
+export const percentOfPaise = (paise: Paise, percent: number): Paise => roundToPaisa(paise * percent / 100);
+
+// Reads an amount typed in rupees, such as "1,250.5". Blank or unreadable text is zero.
+export const parseRupees = (text: string): Paise => {
+    const rupees = parseFloat(String(text).replace(/,/g, ''));
+    return Number.isFinite(rupees) ? rupeesToPaise(rupees) : 0;
+};
+
+// "1250.50", for form fields and exports.
+export const formatRupees = (paise: Paise): string => paiseToRupees(paise).toFixed(2);
+
+// "₹1,250.50", for display.
+export const displayRupees = (paise: Paise): string =>
+    paiseToRupees(paise).toLocaleString('en-IN', { style: 'currency', currency: 'INR' });
+
+// --- Quantities ---
+
+export const parseQuantity = (text: string): number => {
+    const quantity = parseFloat(String(text).replace(/,/g, ''));
+    return Number.isFinite(quantity) ? quantity : 0;
+};
+
+// Hours and km are shown to at most two decimals: 4.5, not 4.500000001.
+export const formatQuantity = (quantity: number): string => String(Number(quantity.toFixed(2)));
@@ -0,0 +1,13 @@
+import { PagedResult } from '../types';
+
+// Every record of a paged query, read one page after another.
+export const readAllPages = async <T>(loadPage: (cursor: string | null) => Promise<PagedResult<T>>): Promise<T[]> => {
+    const items: T[] = [];
+    let cursor: string | null = null;
+    do {
+        const page: PagedResult<T> = await loadPage(cursor);
+        items.push(...page.items);
+        cursor = page.nextCursor;
+    } while (cursor);
+    return items;
+};
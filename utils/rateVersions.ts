@@ -0,0 +1,62 @@
+import { Calculation } from '../types';
+
+// --- Rate versions ---
+// A calculation row is one version of a category's rates, in force from `effective_from`
+// to `effective_to` inclusive. A blank date leaves that end open, so a row with neither
+// applies to every date. The versions of a category never overlap, so on any date a
+// category has at most one rate.
+
+// What places a calculation among the versions of its category.
+export type RateVersion = Pick<Calculation, 'id' | 'products_type_category' | 'effective_from' | 'effective_to'>;
+
+export const isInForce = (calc: Calculation, date: string): boolean =>
+    (!calc.effective_from || calc.effective_from <= date) && (!calc.effective_to || date <= calc.effective_to);
+
+export const calculationsInForce = (calculations: Calculation[], date: string): Calculation[] =>
+    calculations.filter(calc => isInForce(calc, date));
+
+// "2024-04-01" → "2024-03-31".
+export const dayBefore = (date: string): string => {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() - 1);
+    return day.toISOString().split('T')[0];
+};
+
+const overlaps = (a: RateVersion, b: RateVersion): boolean =>
+    (!a.effective_from || !b.effective_to || a.effective_from <= b.effective_to) &&
+    (!b.effective_from || !a.effective_to || b.effective_from <= a.effective_to);
+
+// Every version of a category, oldest first.
+export const versionsOf = (calculations: Calculation[], category: string): Calculation[] =>
+    calculations
+        .filter(calc => calc.products_type_category === category)
+        .sort((a, b) => (a.effective_from || '').localeCompare(b.effective_from || ''));
+
+export const describePeriod = (calc: RateVersion): string =>
+    calc.effective_from && calc.effective_to ? `${calc.effective_from} to ${calc.effective_to}`
+        : calc.effective_from ? `from ${calc.effective_from}`
+        : calc.effective_to ? `until ${calc.effective_to}`
+        : 'at all times';
+
+// Blank dates are left off the record rather than stored as empty text.
+export const withoutBlankDates = <T extends Calculation>(calc: T): T => {
+    const { effective_from, effective_to, ...rest } = calc;
+    return {
+        ...rest,
+        ...(effective_from ? { effective_from } : {}),
+        ...(effective_to ? { effective_to } : {}),
+    } as T;
+};
+
+// What is wrong with the dates of a version, given every stored calculation. Empty when
+// it can be saved. A version without an id is one not saved yet.
+export const calculationVersionProblems = (calc: RateVersion, calculations: Calculation[]): string[] => {
+    const problems: string[] = [];
+    if (calc.effective_from && calc.effective_to && calc.effective_from > calc.effective_to) {
+        problems.push('The rate ends before it starts.');
+    }
+    versionsOf(calculations, calc.products_type_category)
+        .filter(other => other.id !== calc.id && overlaps(calc, other))
+        .forEach(other => problems.push(`${calc.products_type_category} already has a rate ${describePeriod(other)}.`));
+    return problems;
+};
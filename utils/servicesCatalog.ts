@@ -0,0 +1,123 @@
+import { Area, Brand, Calculation, Paise, PolicyOverride } from '../types';
+import { formatQuantity, paiseToRupees, parseRupees } from './money';
+import { calculationsInForce } from './rateVersions';
+
+// --- Services catalog ---
+// One service per area, vehicle type and active brand that has a calculation row in force
+// on the date asked for. A row is a string[]:
+//
+//   [area, area category, "<brand> - <vehicle type>", product item, min hours, min km,
+//    min charges, additional hour charge, running hours, driver bata, vehicle type,
+//    extra km rate]
+//
+// Brands decide whether driver bata is charged, and policy overrides make exceptions
+// and add surcharges by area, area category or vehicle type.
+
+export interface CatalogSources {
+    areas: Area[];
+    calculations: Calculation[];
+    brands: Brand[];
+    overrides: PolicyOverride[];
+    vehicleTypes: string[];
+    // The date whose rates are used.
+    asOf: string;
+}
+
+// The `products_type_category` of the calculation row pricing a brand's vehicle type in
+// an area category.
+export const calculationKey = (brand: string, vehicleType: string, areaCategory: string): string =>
+    `${brand}_${vehicleType}_${areaCategory}`;
+
+// A calculation category moved from brand `from` to brand `to`, or null if the row is
+// another brand's. Brand names cannot contain "_", so the brand ends at the first one.
+export const renamedCalculationKey = (category: string, from: string, to: string): string | null =>
+    category.startsWith(`${from}_`) ? `${to}${category.slice(from.length)}` : null;
+
+export const productItemOf = (brand: string, area: Area, vehicleType: string): string =>
+    `${brand}_${area.locationCategory}_${area.locationArea}_${vehicleType}`.replace(/ /g, '_');
+
+export const overrideApplies = (override: PolicyOverride, brand: Brand, area: Area, vehicleType: string): boolean =>
+    override.brand_id === brand.id &&
+    (!override.area || override.area === area.locationArea) &&
+    (!override.area_category || override.area_category === area.locationCategory) &&
+    (!override.vehicle_type || override.vehicle_type === vehicleType);
+
+// How many conditions an override sets. An area names fewer services than its category.
+const specificity = (override: PolicyOverride): number =>
+    (override.area ? 4 : 0) + (override.area_category ? 2 : 0) + (override.vehicle_type ? 1 : 0);
+
+export interface ServicePolicy {
+    driverBataExempt: boolean;
+    surcharge: Paise;
+}
+
+// Driver bata follows the most specific override, the newest of equally specific ones,
+// and otherwise the brand. Surcharges add up.
+export const servicePolicy = (brand: Brand, area: Area, vehicleType: string, overrides: PolicyOverride[]): ServicePolicy => {
+    const matching = overrides.filter(override => overrideApplies(override, brand, area, vehicleType));
+    const bataOverride = matching
+        .filter(override => override.kind !== 'surcharge')
+        .sort((a, b) => specificity(b) - specificity(a) || (b.id ?? 0) - (a.id ?? 0))[0];
+    const surcharges = matching.filter(override => override.kind === 'surcharge');
+    return {
+        driverBataExempt: bataOverride ? bataOverride.kind === 'driver-bata-exempt' : brand.driver_bata_exempt,
+        surcharge: surcharges.reduce((total, override) => total + (override.amount || 0), 0),
+    };
+};
+
+export const buildServicesCatalog = ({ areas, calculations, brands, overrides, vehicleTypes, asOf }: CatalogSources): string[][] => {
+    const calculationMap = new Map<string, Calculation>();
+    calculationsInForce(calculations, asOf).forEach(calc => calculationMap.set(calc.products_type_category, calc));
+    const activeBrands = brands.filter(brand => brand.active);
+
+    const rows: string[][] = [];
+    for (const area of areas) {
+        for (const vehicleType of vehicleTypes) {
+            for (const brand of activeBrands) {
+                const calcData = calculationMap.get(calculationKey(brand.name, vehicleType, area.locationCategory));
+                if (!calcData) continue;
+
+                const policy = servicePolicy(brand, area, vehicleType, overrides);
+                // Written like the calculation table's own rates: 1370, not 1370.00.
+                const minCharges = policy.surcharge
+                    ? formatQuantity(paiseToRupees(parseRupees(calcData.products_minimum_charges) + policy.surcharge))
+                    : calcData.products_minimum_charges;
+                rows.push([
+                    area.locationArea,
+                    area.locationCategory,
+                    `${brand.name} - ${vehicleType}`,
+                    productItemOf(brand.name, area, vehicleType),
+                    calcData.products_minimum_hours,
+                    calcData.products_minimum_km,
+                    minCharges,
+                    calcData.products_additional_hours_charges,
+                    calcData.products_running_hours,
+                    policy.driverBataExempt ? '0' : calcData.products_driver_bata,
+                    vehicleType, // Raw vehicle type
+                    calcData.products_extra_km_rate || '',
+                ]);
+            }
+        }
+    }
+    return rows;
+};
+
+// What is wrong with a brand or an override, as sentences. Empty when it can be saved.
+export const brandProblems = (brand: Brand, others: Brand[]): string[] => {
+    const problems: string[] = [];
+    const name = brand.name.trim();
+    if (!name) problems.push('A brand needs a name.');
+    if (name.includes('_')) problems.push('A brand name cannot contain "_", which separates the parts of a calculation category.');
+    if (others.some(other => other.id !== brand.id && other.name.trim().toLowerCase() === name.toLowerCase())) {
+        problems.push(`There is already a brand called ${name}.`);
+    }
+    return problems;
+};
+
+export const policyOverrideProblems = (override: PolicyOverride, brands: Brand[]): string[] => {
+    const problems: string[] = [];
+    if (!brands.some(brand => brand.id === override.brand_id)) problems.push('Choose the brand the override is for.');
+    if (override.kind === 'surcharge' && !(override.amount && override.amount > 0)) problems.push('A surcharge needs an amount above zero.');
+    if (override.amount !== undefined && !Number.isInteger(override.amount)) problems.push('The amount must be in whole paise.');
+    return problems;
+};
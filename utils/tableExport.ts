@@ -0,0 +1,64 @@
+import { toCsv } from './csv';
+import { writeXlsx, SheetCell, SheetCellType } from './xlsx';
+
+// --- Table export ---
+// Every list screen describes its columns once and hands over the rows it is showing,
+// already filtered and sorted, so the file matches the screen row for row.
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+    header: string;
+    // Defaults to 'text'. Calculation rates and the services catalog hold their numbers
+    // as text, so typed columns accept numeric text as well as numbers.
+    type?: SheetCellType;
+    value: (row: T) => SheetCell | undefined;
+}
+
+const toCell = (type: SheetCellType, value: SheetCell | undefined): SheetCell => {
+    if (value === undefined || value === null || value === '') return null;
+    if (type === 'number' || type === 'currency') {
+        const number = typeof value === 'number' ? value : Number(String(value).replace(/,/g, '').trim());
+        return Number.isFinite(number) ? number : String(value);
+    }
+    return typeof value === 'number' && type === 'text' ? String(value) : value;
+};
+
+// CSV has no cell formats, so amounts are written as plain numbers with two decimals
+// (spreadsheets then read them as numbers) and dates stay YYYY-MM-DD.
+const toCsvValue = (type: SheetCellType, cell: SheetCell): SheetCell =>
+    type === 'currency' && typeof cell === 'number' ? cell.toFixed(2) : cell;
+
+const download = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const exportTable = <T>(
+    format: ExportFormat,
+    name: string,
+    columns: ExportColumn<T>[],
+    rows: T[],
+): void => {
+    const types = columns.map(column => column.type || 'text');
+    const cells = rows.map(row => columns.map((column, index) => toCell(types[index], column.value(row))));
+    const fileName = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().split('T')[0]}`;
+
+    if (format === 'csv') {
+        const csv = toCsv([
+            columns.map(column => column.header),
+            ...cells.map(row => row.map((cell, index) => toCsvValue(types[index], cell))),
+        ]);
+        download(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    } else {
+        const sheetColumns = columns.map((column, index) => ({ header: column.header, type: types[index] }));
+        download(writeXlsx(name, sheetColumns, cells), `${fileName}.xlsx`);
+    }
+};
@@ -0,0 +1,60 @@
+import { Calculation } from '../types';
+import { LOCATION_CATEGORIES, VEHICLE_TYPES } from '../constants';
+import { parseQuantity } from './money';
+import { calculationKey } from './servicesCatalog';
+
+// --- Tariff matrix ---
+// One brand's value of one calculation field, laid out with area categories as rows and
+// vehicle types as columns. Rates are expected to rise (or stay level) from Area 1 to
+// Area 9, so a cell below the nearest filled cell above it is flagged.
+
+export type TariffMatrixField = keyof Omit<Calculation, 'id' | 'products_type_category' | 'effective_from' | 'effective_to' | 'revision' | 'updated_at'>;
+
+export const tariffMatrixFields: { field: TariffMatrixField; label: string }[] = [
+    { field: 'products_minimum_charges', label: 'Minimum Charges' },
+    { field: 'products_minimum_hours', label: 'Minimum Hours' },
+    { field: 'products_minimum_km', label: 'Minimum Km' },
+    { field: 'products_additional_hours_charges', label: 'Additional Hours Charges' },
+    { field: 'products_running_hours', label: 'Running Hours' },
+    { field: 'products_driver_bata', label: 'Driver Bata' },
+    { field: 'products_extra_km_rate', label: 'Extra Km Rate' },
+];
+
+// 'no-row': the brand has no calculation row for the combination, so it is not offered.
+// 'blank': there is a row, but the field is empty or zero.
+// 'outlier': lower than the nearest filled cell in an earlier area category.
+export type TariffMatrixStatus = 'ok' | 'no-row' | 'blank' | 'outlier';
+
+export interface TariffMatrixCell {
+    area_category: string;
+    vehicle_type: string;
+    calc?: Calculation;
+    value: string;
+    status: TariffMatrixStatus;
+    note?: string;
+}
+
+// `calculations` should hold one version per category, e.g. the ones in force on a date.
+export const buildTariffMatrix = (calculations: Calculation[], brand: string, field: TariffMatrixField): TariffMatrixCell[][] => {
+    const byCategory = new Map(calculations.map(calc => [calc.products_type_category, calc]));
+    const rows = LOCATION_CATEGORIES.map(area_category => VEHICLE_TYPES.map((vehicle_type): TariffMatrixCell => {
+        const calc = byCategory.get(calculationKey(brand, vehicle_type, area_category));
+        const value = calc ? calc[field] || '' : '';
+        const status = !calc ? 'no-row' : parseQuantity(value) === 0 ? 'blank' : 'ok';
+        return { area_category, vehicle_type, calc, value, status };
+    }));
+
+    VEHICLE_TYPES.forEach((_, column) => {
+        let previous: TariffMatrixCell | undefined;
+        rows.forEach(row => {
+            const cell = row[column];
+            if (cell.status !== 'ok') return;
+            if (previous && parseQuantity(cell.value) < parseQuantity(previous.value)) {
+                cell.status = 'outlier';
+                cell.note = `Lower than ${previous.area_category} (${previous.value}).`;
+            }
+            previous = cell;
+        });
+    });
+    return rows;
+};
@@ -0,0 +1,71 @@
+import { Calculation, Paise, TariffRateField, TariffRevision, TariffRevisionRow, TariffRounding } from '../types';
+import { formatQuantity, paiseToRupees, parseRupees, percentOfPaise } from './money';
+import { calculationsInForce } from './rateVersions';
+
+// --- Bulk tariff revision ---
+// Picks calculation rows by the parts of their category and changes the chosen rates by
+// a percentage or an amount, rounded as asked. The preview and the commit both come from
+// `previewTariffRevision`, so what is shown is what is saved.
+
+export const tariffRateFields: { field: TariffRateField; label: string }[] = [
+    { field: 'products_minimum_charges', label: 'Minimum Charges' },
+    { field: 'products_additional_hours_charges', label: 'Additional Hours Charges' },
+    { field: 'products_driver_bata', label: 'Driver Bata' },
+    { field: 'products_extra_km_rate', label: 'Extra Km Rate' },
+];
+
+// "VIKING_20 Feet_Area 4" → brand VIKING, vehicle type 20 Feet, area category Area 4.
+export const categoryParts = (category: string) => {
+    const [brand = '', vehicle_type = '', area_category = ''] = category.split('_');
+    return { brand, vehicle_type, area_category };
+};
+
+export const revisionDate = (revision: TariffRevision): string =>
+    revision.effective_from || new Date().toISOString().split('T')[0];
+
+export const roundPaise = (paise: Paise, { step, mode }: TariffRounding): Paise => {
+    const steps = paise / step;
+    const rounded = mode === 'up' ? Math.ceil(steps) : mode === 'down' ? Math.floor(steps) : Math.round(steps);
+    return rounded * step;
+};
+
+export const revisedRate = (paise: Paise, revision: TariffRevision): Paise =>
+    roundPaise(paise + (revision.kind === 'percent' ? percentOfPaise(paise, revision.value) : revision.value), revision.rounding);
+
+export const selectForRevision = (calculations: Calculation[], revision: TariffRevision): Calculation[] =>
+    calculationsInForce(calculations, revisionDate(revision))
+        .filter(calc => {
+            const parts = categoryParts(calc.products_type_category);
+            return (!revision.brand || parts.brand === revision.brand) &&
+                (!revision.vehicle_type || parts.vehicle_type === revision.vehicle_type) &&
+                (!revision.area_categories.length || revision.area_categories.includes(parts.area_category));
+        })
+        .sort((a, b) => a.products_type_category.localeCompare(b.products_type_category));
+
+// Every matching row with its revised rates. A blank rate stays blank, as it means the
+// row does not charge it. Rates are written as the calculation table stores them, in
+// rupees without trailing zeros: 1370, not 1370.00.
+export const previewTariffRevision = (calculations: Calculation[], revision: TariffRevision): TariffRevisionRow[] =>
+    selectForRevision(calculations, revision).map(before => {
+        const after = { ...before };
+        const problems: string[] = [];
+        revision.fields.forEach(field => {
+            if (!before[field]) return;
+            const rate = revisedRate(parseRupees(before[field] || ''), revision);
+            if (rate < 0) problems.push(`The ${field.replace(/^products_/, '').replace(/_/g, ' ')} would fall below zero.`);
+            after[field] = formatQuantity(paiseToRupees(rate));
+        });
+        return { before, after, problems };
+    });
+
+// What is wrong with a revision, as sentences. Empty when it can be saved.
+export const tariffRevisionProblems = (revision: TariffRevision, rows: TariffRevisionRow[]): string[] => {
+    const problems: string[] = [];
+    if (!revision.fields.length) problems.push('Choose the rates to change.');
+    if (!Number.isFinite(revision.value) || revision.value === 0) problems.push('Enter the change to make.');
+    if (revision.kind === 'absolute' && !Number.isInteger(revision.value)) problems.push('The amount must be in whole paise.');
+    if (!(revision.rounding.step > 0) || !Number.isInteger(revision.rounding.step)) problems.push('Round to a whole number of paise.');
+    if (!rows.length) problems.push('No calculation rows match the filters.');
+    rows.forEach(row => row.problems.forEach(problem => problems.push(`${row.before.products_type_category}: ${problem}`)));
+    return problems;
+};
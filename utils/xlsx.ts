@@ -0,0 +1,282 @@
+import { readZip, writeZip } from './zip';
+
+// --- XLSX reading ---
+// Reads the first worksheet of an Office Open XML workbook into rows of text, the same
+// shape `parseCsv` returns. Numbers are kept as Excel displays them without formatting,
+// and cells formatted as dates become YYYY-MM-DD. Rows the sheet skips come back empty,
+// so row numbers match the ones Excel shows.
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const parseXml = (files: Map<string, Uint8Array>, path: string): Document | null => {
+    const data = files.get(path);
+    if (!data) return null;
+    return new DOMParser().parseFromString(decoder.decode(data), 'application/xml');
+};
+
+// Elements by local name, so the spreadsheet namespace prefix does not matter.
+const elements = (parent: Document | Element, name: string): Element[] =>
+    Array.from(parent.getElementsByTagNameNS('*', name));
+
+const resolvePath = (base: string, target: string): string => {
+    if (target.startsWith('/')) return target.slice(1);
+    const parts = base.split('/').slice(0, -1);
+    target.split('/').forEach(part => {
+        if (part === '..') parts.pop();
+        else if (part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+};
+
+const relationshipTargets = (files: Map<string, Uint8Array>, partPath: string): Map<string, string> => {
+    const slash = partPath.lastIndexOf('/');
+    const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+    const targets = new Map<string, string>();
+    const rels = parseXml(files, relsPath);
+    if (rels) {
+        elements(rels, 'Relationship').forEach(rel => {
+            targets.set(rel.getAttribute('Id') || '', resolvePath(partPath, rel.getAttribute('Target') || ''));
+        });
+    }
+    return targets;
+};
+
+const firstSheetPath = (files: Map<string, Uint8Array>): string => {
+    const workbookPath = 'xl/workbook.xml';
+    const workbook = parseXml(files, workbookPath);
+    const sheet = workbook && elements(workbook, 'sheet')[0];
+    if (!sheet) throw new Error("The workbook has no worksheets.");
+    const relationId = sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+        || sheet.getAttribute('r:id') || '';
+    const path = relationshipTargets(files, workbookPath).get(relationId);
+    if (!path || !files.has(path)) throw new Error("The first worksheet could not be found in the workbook.");
+    return path;
+};
+
+const readSharedStrings = (files: Map<string, Uint8Array>): string[] => {
+    const doc = parseXml(files, 'xl/sharedStrings.xml');
+    if (!doc) return [];
+    // Rich text splits a string into runs, each with its own <t>.
+    return elements(doc, 'si').map(item => elements(item, 't').map(t => t.textContent || '').join(''));
+};
+
+// Built-in number formats 14-22 and 45-47 are dates or times.
+const isBuiltInDateFormat = (id: number) => (id >= 14 && id <= 22) || (id >= 45 && id <= 47);
+
+// For each cell style index, whether it displays a date.
+const readDateStyles = (files: Map<string, Uint8Array>): boolean[] => {
+    const doc = parseXml(files, 'xl/styles.xml');
+    if (!doc) return [];
+    const customDateFormats = new Set<number>();
+    elements(doc, 'numFmt').forEach(format => {
+        // Drop quoted literals and [colour]/[locale] sections before looking for d, m or y.
+        const code = (format.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+        if (/[dmy]/i.test(code)) customDateFormats.add(Number(format.getAttribute('numFmtId')));
+    });
+    const cellXfs = elements(doc, 'cellXfs')[0];
+    if (!cellXfs) return [];
+    return Array.from(cellXfs.children).map(xf => {
+        const id = Number(xf.getAttribute('numFmtId') || 0);
+        return isBuiltInDateFormat(id) || customDateFormats.has(id);
+    });
+};
+
+// Excel counts days from 1899-12-30 (which absorbs its 1900 leap year bug).
+const serialToDate = (serial: number): string => {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+    return date.toISOString().slice(0, 10);
+};
+
+// "C12" -> 2 (zero-based column).
+const columnIndex = (reference: string): number => {
+    const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+    let index = 0;
+    for (const letter of letters) index = index * 26 + letter.charCodeAt(0) - 64;
+    return index - 1;
+};
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+    let files: Map<string, Uint8Array>;
+    try {
+        files = await readZip(buffer);
+    } catch {
+        throw new Error("This is not a valid .xlsx file.");
+    }
+    const sheet = parseXml(files, firstSheetPath(files));
+    if (!sheet) throw new Error("The first worksheet could not be read.");
+    const sharedStrings = readSharedStrings(files);
+    const dateStyles = readDateStyles(files);
+
+    const rows: string[][] = [];
+    elements(sheet, 'row').forEach(rowElement => {
+        const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+        while (rows.length < rowNumber - 1) rows.push([]);
+        const row: string[] = [];
+        elements(rowElement, 'c').forEach((cell, position) => {
+            const reference = cell.getAttribute('r');
+            const column = reference ? columnIndex(reference) : position;
+            const type = cell.getAttribute('t') || 'n';
+            const raw = elements(cell, 'v')[0]?.textContent ?? '';
+            let value: string;
+            switch (type) {
+                case 's':
+                    value = sharedStrings[Number(raw)] ?? '';
+                    break;
+                case 'inlineStr':
+                    value = elements(cell, 't').map(t => t.textContent || '').join('');
+                    break;
+                case 'b':
+                    value = raw === '1' ? 'TRUE' : 'FALSE';
+                    break;
+                case 'n':
+                    value = raw !== '' && dateStyles[Number(cell.getAttribute('s') || 0)] ? serialToDate(Number(raw)) : raw;
+                    break;
+                default:
+                    value = raw;
+            }
+            while (row.length < column) row.push('');
+            row[column] = value;
+        });
+        rows.push(row);
+    });
+    return rows;
+};
+
+// --- XLSX writing ---
+// Writes one worksheet with a bold header row. Numbers, amounts and dates are stored as
+// real numbers so they sort and sum in Excel; amounts use Indian digit grouping
+// (1,23,45,678.00) with a rupee sign and dates display as DD-MM-YYYY.
+
+export type SheetCellType = 'text' | 'number' | 'currency' | 'date';
+export type SheetCell = string | number | null;
+
+export interface SheetColumn {
+    header: string;
+    type: SheetCellType;
+}
+
+const DATE_FORMAT_ID = 164;
+const CURRENCY_FORMAT_ID = 165;
+// Excel has no lakh/crore grouping built in; conditional sections place the extra commas.
+const INDIAN_CURRENCY_FORMAT = '[>=10000000]"₹"##\\,##\\,##\\,##0.00;[>=100000]"₹"##\\,##\\,##0.00;"₹"#,##0.00';
+
+// Cell style indexes into <cellXfs> below.
+const styleIndex: Record<SheetCellType | 'header', number> = {
+    text: 0,
+    number: 0,
+    header: 1,
+    date: 2,
+    currency: 3,
+};
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+        // Control characters other than tab and line breaks are not allowed in XML.
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+// Zero-based column index -> "A", "B", ..., "AA".
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+const dateToSerial = (value: string): number | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return (time - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const textCell = (reference: string, value: string, style = 0): string =>
+    `<c r="${reference}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const renderCell = (reference: string, type: SheetCellType, value: SheetCell): string => {
+    if (value === null || value === '') return '';
+    if (type === 'text') return textCell(reference, String(value));
+    const number = type === 'date' ? dateToSerial(String(value)) : typeof value === 'number' ? value : Number(value);
+    // A value that is not what the column promises is kept as text rather than dropped.
+    if (number === null || !Number.isFinite(number)) return textCell(reference, String(value));
+    const style = styleIndex[type];
+    return `<c r="${reference}"${style ? ` s="${style}"` : ''}><v>${number}</v></c>`;
+};
+
+const sheetXml = (columns: SheetColumn[], rows: SheetCell[][]): string => {
+    const widths = columns.map((column, index) => Math.min(60, Math.max(
+        column.header.length,
+        column.type === 'date' ? 10 : column.type === 'currency' ? 14 : 0,
+        ...rows.map(row => String(row[index] ?? '').length),
+    ) + 2));
+    const header = `<row r="1">${columns.map((column, index) => textCell(`${columnName(index)}1`, column.header, styleIndex.header)).join('')}</row>`;
+    const body = rows.map((row, rowIndex) => {
+        const rowNumber = rowIndex + 2;
+        const cells = columns.map((column, index) => renderCell(`${columnName(index)}${rowNumber}`, column.type, row[index] ?? null));
+        return `<row r="${rowNumber}">${cells.join('')}</row>`;
+    }).join('');
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+        + `<sheetData>${header}${body}</sheetData>`
+        + '</worksheet>';
+};
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<numFmts count="2"><numFmt numFmtId="${DATE_FORMAT_ID}" formatCode="dd\\-mm\\-yyyy"/>`
+    + `<numFmt numFmtId="${CURRENCY_FORMAT_ID}" formatCode="${escapeXml(INDIAN_CURRENCY_FORMAT)}"/></numFmts>`
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="4">'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + `<xf numFmtId="${DATE_FORMAT_ID}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`
+    + `<xf numFmtId="${CURRENCY_FORMAT_ID}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`
+    + '</cellXfs>'
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '</Types>';
+
+const ROOT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>';
+
+const WORKBOOK_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '</Relationships>';
+
+const workbookXml = (sheetName: string): string => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>';
+
+// Excel limits sheet names to 31 characters and forbids a few punctuation marks.
+const safeSheetName = (name: string): string => name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+export const writeXlsx = (sheetName: string, columns: SheetColumn[], rows: SheetCell[][]): Blob => {
+    const zip = writeZip([
+        { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES_XML) },
+        { name: '_rels/.rels', data: encoder.encode(ROOT_RELS_XML) },
+        { name: 'xl/workbook.xml', data: encoder.encode(workbookXml(safeSheetName(sheetName))) },
+        { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(WORKBOOK_RELS_XML) },
+        { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+        { name: 'xl/worksheets/sheet1.xml', data: encoder.encode(sheetXml(columns, rows)) },
+    ]);
+    return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
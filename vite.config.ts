@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { appsScriptStandIn } from './server/appsScriptStandIn';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), appsScriptStandIn()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_PROVIDER': JSON.stringify(env.DATA_PROVIDER || 'indexeddb'),
+        'process.env.APPS_SCRIPT_URL': JSON.stringify(env.APPS_SCRIPT_URL || ''),
+        'process.env.APP_VERSION': JSON.stringify(process.env.npm_package_version || '')
       },
       resolve: {
         alias: {